@@ -0,0 +1,34 @@
+// AudioWorklet processor that forwards raw microphone samples to the main thread.
+// Loaded by useVoiceRecorder via audioWorklet.addModule('/worklets/pcm-recorder-processor.js').
+
+class PcmRecorderProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.recording = true;
+    this.port.onmessage = (event) => {
+      if (event.data === 'stop') {
+        this.recording = false;
+        this.port.postMessage({ type: 'stopped' });
+      }
+    };
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (this.recording && input && input.length > 0) {
+      // Mix all input channels down to mono
+      const length = input[0].length;
+      const mono = new Float32Array(length);
+      for (let channel = 0; channel < input.length; channel++) {
+        const data = input[channel];
+        for (let i = 0; i < length; i++) {
+          mono[i] += data[i] / input.length;
+        }
+      }
+      this.port.postMessage({ type: 'samples', samples: mono }, [mono.buffer]);
+    }
+    return this.recording;
+  }
+}
+
+registerProcessor('pcm-recorder-processor', PcmRecorderProcessor);
@@ -0,0 +1,147 @@
+// AudioWorklet processor that plays a range of audio at a different speed without changing pitch.
+// Uses WSOLA (waveform-similarity overlap-add): frames are read from the input at the stretched
+// rate and each one is nudged to the offset that best continues the previous frame's waveform.
+// Created by the audio transport via src/utils/timeStretch.ts.
+
+const FRAME_SECONDS = 0.03;      // analysis/synthesis frame length
+const TOLERANCE_SECONDS = 0.008; // how far a frame may be shifted to line up with the last one
+const CORRELATION_STRIDE = 4;    // sample stride when comparing frames, to keep the search cheap
+
+class TimeStretchProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { channels, rate, when } = options.processorOptions;
+
+    this.channels = channels;
+    this.length = channels[0].length;
+    this.rate = rate;
+    this.when = when;
+
+    // Even frame length so 50% overlap of the Hann window sums to one
+    this.frameSize = Math.max(64, 2 * Math.round((sampleRate * FRAME_SECONDS) / 2));
+    this.hop = this.frameSize / 2;
+    this.tolerance = Math.round(sampleRate * TOLERANCE_SECONDS);
+
+    this.window = new Float32Array(this.frameSize);
+    for (let i = 0; i < this.frameSize; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / this.frameSize);
+    }
+
+    // Overlap-add accumulator and a ring of finished output samples, per channel
+    this.accumulators = channels.map(() => new Float32Array(this.frameSize));
+    this.ringSize = this.frameSize * 4;
+    this.rings = channels.map(() => new Float32Array(this.ringSize));
+    this.readIndex = 0;
+    this.available = 0;
+
+    this.analysisPosition = 0;
+    this.previousFrame = -1;
+    this.inputDone = false;
+    this.stopped = false;
+
+    this.port.onmessage = (event) => {
+      if (event.data === 'stop') {
+        this.stopped = true;
+      }
+    };
+  }
+
+  // Frame start near `nominal` whose waveform best continues the previous frame
+  findBestFrame(nominal) {
+    const natural = this.previousFrame + this.hop;
+    const limit = this.length - this.frameSize;
+    if (natural > limit) return Math.min(nominal, limit);
+
+    const reference = this.channels[0];
+    const low = Math.max(0, nominal - this.tolerance);
+    const high = Math.min(limit, nominal + this.tolerance);
+    let best = Math.min(nominal, limit);
+    let bestScore = -Infinity;
+
+    for (let candidate = low; candidate <= high; candidate++) {
+      let score = 0;
+      for (let i = 0; i < this.frameSize; i += CORRELATION_STRIDE) {
+        score += reference[candidate + i] * reference[natural + i];
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    }
+    return best;
+  }
+
+  // Move finished samples from the accumulator into the output ring
+  emit(count) {
+    for (let c = 0; c < this.channels.length; c++) {
+      const accumulator = this.accumulators[c];
+      const ring = this.rings[c];
+      let writeIndex = (this.readIndex + this.available) % this.ringSize;
+      for (let i = 0; i < count; i++) {
+        ring[writeIndex] = accumulator[i];
+        writeIndex = (writeIndex + 1) % this.ringSize;
+      }
+      accumulator.copyWithin(0, count);
+      accumulator.fill(0, this.frameSize - count);
+    }
+    this.available += count;
+  }
+
+  synthesizeFrame() {
+    const nominal = Math.round(this.analysisPosition);
+    const frame = this.previousFrame < 0 ? 0 : this.findBestFrame(nominal);
+
+    if (nominal + this.frameSize > this.length) {
+      // Out of input: flush the tail of the last frame
+      this.emit(this.hop);
+      this.inputDone = true;
+      return;
+    }
+
+    for (let c = 0; c < this.channels.length; c++) {
+      const input = this.channels[c];
+      const accumulator = this.accumulators[c];
+      for (let i = 0; i < this.frameSize; i++) {
+        accumulator[i] += input[frame + i] * this.window[i];
+      }
+    }
+
+    this.emit(this.hop);
+    this.previousFrame = frame;
+    this.analysisPosition += this.hop * this.rate;
+  }
+
+  process(inputs, outputs) {
+    if (this.stopped) return false;
+
+    const output = outputs[0];
+    const blockSize = output[0].length;
+
+    // Wait for the scheduled start time, starting mid-block if needed
+    const startOffset = Math.max(0, Math.min(blockSize, Math.round((this.when - currentTime) * sampleRate)));
+    if (startOffset >= blockSize) return true;
+
+    const needed = blockSize - startOffset;
+    while (this.available < needed && !this.inputDone) {
+      this.synthesizeFrame();
+    }
+
+    const count = Math.min(needed, this.available);
+    for (let c = 0; c < output.length; c++) {
+      const ring = this.rings[Math.min(c, this.rings.length - 1)];
+      for (let i = 0; i < count; i++) {
+        output[c][startOffset + i] = ring[(this.readIndex + i) % this.ringSize];
+      }
+    }
+    this.readIndex = (this.readIndex + count) % this.ringSize;
+    this.available -= count;
+
+    if (this.inputDone && this.available === 0) {
+      this.port.postMessage({ type: 'ended' });
+      return false;
+    }
+    return true;
+  }
+}
+
+registerProcessor('time-stretch-processor', TimeStretchProcessor);
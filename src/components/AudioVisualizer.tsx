@@ -1,6 +1,14 @@
-import React, { useEffect, useRef, useState, forwardRef, useImperativeHandle, useCallback } from 'react'
+import React, { useEffect, useRef, useState, forwardRef, useImperativeHandle, useCallback, useMemo } from 'react'
 import * as d3 from 'd3'
 import { logger, createTimer, trackRender } from '../utils/debug'
+import { WordGrade } from '../utils/wordFeedback'
+import { getSharedAudioContext } from '../utils/audioPlayback'
+import { useAudioTransport } from '../hooks/useAudioTransport'
+import { buildPeakPyramid, PeakPyramid, readPeaks } from '../utils/peaks'
+import { ColorMapName, drawSpectrogram, FrequencyScale, renderSpectrogramImage, Spectrogram } from '../utils/spectrogram'
+import { useSpectrogram } from '../hooks/useSpectrogram'
+import { SpectrogramControls } from './SpectrogramControls'
+import { findWordAt, phonesByWord, wordProgress } from '../utils/wordTiming'
 
 // Define the timestamp interface
 export interface TimeStamp {
@@ -16,27 +24,31 @@ export interface SelectionRange {
   endTime: number;
   wordCount: number;
   words: TimeStamp[];
-  firstSelectedWord: TimeStamp;
+  firstSelectedWord: TimeStamp | null; // null when a dragged range falls between words
 }
 
 // Define the component props
 export interface AudioVisualizerProps {
   audioUrl: string;
   timestamps?: TimeStamp[];
+  phones?: TimeStamp[]; // optional phone tier (`word` is the ARPAbet or IPA label), shown under the words
   onTimeUpdate?: (time: number) => void;
   onPlaybackRateChange?: (rate: number) => void;
   onSelectionChange?: (selection: SelectionRange | null) => void;
   onTimestampClick?: (timestamp: TimeStamp, index: number) => void;
   onPlayingChange?: (isPlaying: boolean) => void;
+  onAudioLoaded?: (buffer: AudioBuffer) => void;
   playbackRate?: number;
   displayTimeFormat?: 'seconds' | 'minutes';
   height?: number;
   width?: number;
-  isPlaying?: boolean;
   currentTime?: number;
   readOnly?: boolean;
   debugName?: string; // Add debug name prop
-  externalAudioRef?: React.RefObject<HTMLAudioElement>;
+  wordGrades?: Record<number, WordGrade>; // Feedback colour per timestamp index
+  editable?: boolean; // word boundaries on the canvas can be dragged
+  // A boundary drag in progress (`done` false) or finished; `edge` is the word's start or stop
+  onBoundaryDrag?: (index: number, edge: 'start' | 'stop', time: number, done: boolean) => void;
 }
 
 // Define the handle interface for the ref
@@ -56,10 +68,49 @@ export interface AudioVisualizerHandle {
   getFirstSelectedWord: () => TimeStamp | null;
   togglePlayback: () => void;
   clearSelection: () => void;
+  selectWords: (firstIndex: number, lastIndex: number) => void;
   getCanvas: () => HTMLCanvasElement | null;
-  getAudioElement: () => HTMLAudioElement | null;
 }
 
+// Word box colours for graded words (background, border, text)
+const GRADE_COLORS: Record<WordGrade, { background: string; border: string; text: string }> = {
+  good: { background: 'rgba(34, 197, 94, 0.35)', border: 'rgba(22, 163, 74, 0.9)', text: '#166534' },
+  fair: { background: 'rgba(234, 179, 8, 0.35)', border: 'rgba(202, 138, 4, 0.9)', text: '#854d0e' },
+  poor: { background: 'rgba(239, 68, 68, 0.35)', border: 'rgba(220, 38, 38, 0.9)', text: '#991b1b' },
+};
+
+// Phone boxes are narrower than word boxes; a word widens to fit its phones
+const PHONE_MIN_WIDTH = 22;
+
+// Visible time window of the waveform
+interface WaveformView {
+  start: number;
+  end: number;
+}
+
+// Narrowest window the waveform can zoom to, in seconds
+const MIN_VIEW_SECONDS = 0.05;
+
+// Zoom per pixel of wheel travel; trackpad pinches arrive as ctrl+wheel with much smaller deltas
+const WHEEL_ZOOM_SPEED = 0.0015;
+const PINCH_WHEEL_ZOOM_SPEED = 0.01;
+
+const MINIMAP_HEIGHT = 28;
+
+type DisplayMode = 'waveform' | 'spectrogram';
+
+// How close (in pixels) the pointer must be to grab a selection edge, and how far it must move to start a drag
+const HANDLE_HIT_PX = 6;
+const DRAG_THRESHOLD_PX = 3;
+
+// What a pointer on the main canvas is doing
+type CanvasGesture =
+  | { kind: 'pan'; lastX: number }
+  | { kind: 'pinch'; distance: number; view: WaveformView }
+  | { kind: 'select'; anchorX: number; moved: boolean }
+  | { kind: 'resize'; edge: 'start' | 'end' }
+  | { kind: 'boundary'; index: number; edge: 'start' | 'stop'; moved: boolean };
+
 // Create the component with forwardRef to expose the handle
 export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizerProps>((props, ref) => {
   // Assign a unique debug ID for this instance
@@ -73,43 +124,64 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
   const {
   audioUrl,
     timestamps = [],
+    phones = [],
     onTimeUpdate,
   onPlaybackRateChange,
     onSelectionChange,
     onTimestampClick,
     onPlayingChange,
-    playbackRate: initialPlaybackRate = 1,
+    onAudioLoaded,
+    playbackRate: initialPlaybackRate,
     displayTimeFormat = 'seconds',
     height = 150,
     width = 800,
-    isPlaying: externalIsPlaying,
     currentTime: externalCurrentTime,
     readOnly = false,
-    externalAudioRef,
+    wordGrades = {},
+    editable = false,
+    onBoundaryDrag,
   } = props;
 
-  // Audio and canvas refs
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Playback goes through the shared transport; the playhead follows it for the clip and selection
+  const { transport, state: transportState } = useAudioTransport();
+  const isPlaying = transportState.mode === 'playing-main' || transportState.mode === 'playing-selection';
+  const { playbackRate, volume } = transportState;
+
+  // Canvas refs
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const minimapRef = useRef<HTMLCanvasElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
   const bufferRef = useRef<AudioBuffer | null>(null);
-  const currentPlaybackRate = useRef<number>(initialPlaybackRate);
-  const playbackStartTimeRef = useRef<number>(0);
+  const peaksRef = useRef<PeakPyramid | null>(null);
   
   // State for waveform and playback
   const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
-  const [audioSource, setAudioSource] = useState<AudioBufferSourceNode | null>(null);
   const [duration, setDuration] = useState<number>(0);
-  const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const [currentTime, setCurrentTime] = useState<number>(0);
-  const [playbackRate, setPlaybackRate] = useState<number>(initialPlaybackRate);
-  const [volume, setVolume] = useState<number>(1.0); // Default volume to 100%
   const [hoverTime, setHoverTime] = useState<number>(0);
   
+  // Zoom window, mirrored in a ref so drawing and pointer handlers always see the latest
+  const [view, setView] = useState<WaveformView>({ start: 0, end: 0 });
+  const viewRef = useRef<WaveformView>(view);
+  const pointersRef = useRef<Map<number, number>>(new Map());
+  const gestureRef = useRef<CanvasGesture | null>(null);
+  
+  // Selected time range, from word clicks or dragged directly on the canvas
+  const rangeRef = useRef<{ start: number; end: number } | null>(null);
+  
+  // Waveform or spectrogram, with the spectrogram's image kept in a ref for drawing
+  const [displayMode, setDisplayMode] = useState<DisplayMode>('waveform');
+  const [frequencyScale, setFrequencyScale] = useState<FrequencyScale>('log');
+  const [colorMap, setColorMap] = useState<ColorMapName>('magma');
+  const spectrogramRef = useRef<{ spectrogram: Spectrogram; image: HTMLCanvasElement } | null>(null);
+  const displayModeRef = useRef<DisplayMode>(displayMode);
+  displayModeRef.current = displayMode;
+  
   // Selection state
   const [firstSelectedWord, setFirstSelectedWord] = useState<TimeStamp | null>(null);
   const [selectedWords, setSelectedWords] = useState<TimeStamp[]>([]);
+  // Phone being looped after a click on the phone row
+  const [selectedPhone, setSelectedPhone] = useState<TimeStamp | null>(null);
   
   // Animation frame ref
   const animationFrameRef = useRef<number | null>(null);
@@ -130,22 +202,37 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
     }
   }, [selectedWords]);
 
+  // Apply an explicit playback rate prop to the transport
+  useEffect(() => {
+    if (initialPlaybackRate !== undefined) {
+      transport.setPlaybackRate(initialPlaybackRate);
+    }
+  }, [initialPlaybackRate]);
+
   // Debug when playback rate changes
   useEffect(() => {
     debug.log(`Playback rate changed to ${playbackRate}x`);
     
-    currentPlaybackRate.current = playbackRate;
-    if (audioSource) {
-      audioSource.playbackRate.value = playbackRate;
-    }
-    
     if (onPlaybackRateChange) {
       onPlaybackRateChange(playbackRate);
     }
-  }, [playbackRate, onPlaybackRateChange, audioSource]);
+  }, [playbackRate, onPlaybackRateChange]);
+
+  // Report playing state changes to the parent
+  const wasPlayingRef = useRef<boolean>(false);
+  useEffect(() => {
+    if (wasPlayingRef.current === isPlaying) return;
+    wasPlayingRef.current = isPlaying;
+    
+    if (onPlayingChange) {
+      onPlayingChange(isPlaying);
+    }
+  }, [isPlaying, onPlayingChange]);
 
   // Load and decode the audio for visualization
   useEffect(() => {
+    let cancelled = false;
+    
     const loadAudio = async () => {
       debug.log(`Loading audio from URL: ${audioUrl}`);
       const timer = createTimer('Audio Load');
@@ -162,20 +249,28 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
         const arrayBuffer = await response.arrayBuffer();
         debug.log(`Audio fetched, size: ${(arrayBuffer.byteLength / 1024).toFixed(2)}KB`);
         
-        // Create an audio context
-        if (!audioContextRef.current) {
-          audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-        }
-        
         // Decode the audio data
         debug.log('Decoding audio data...');
-        const buffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
+        const buffer = await getSharedAudioContext().decodeAudioData(arrayBuffer);
         debug.success(`Audio decoded successfully: ${buffer.duration.toFixed(2)}s, ${buffer.numberOfChannels} channels`);
         
+        // A newer URL may have been requested while this one was decoding
+        if (cancelled) return;
+        
+        // This clip is what the transport plays as the main audio and selections
+        transport.setMainBuffer(buffer);
+        
         bufferRef.current = buffer;
+        peaksRef.current = buildPeakPyramid(buffer);
+        viewRef.current = { start: 0, end: buffer.duration };
+        setView(viewRef.current);
         setAudioBuffer(buffer);
         setDuration(buffer.duration);
         
+        if (onAudioLoaded) {
+          onAudioLoaded(buffer);
+        }
+        
         // Draw the waveform
         if (canvasRef.current) {
           drawWaveform(buffer);
@@ -194,28 +289,20 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
     
     return () => {
       debug.log('Cleaning up audio resources');
-      if (audioContextRef.current) {
-        // Clean up the audio context
-        if (audioContextRef.current.state !== 'closed') {
-          audioContextRef.current.close().catch(err => {
-            debug.error('Error closing audio context:', err);
-          });
-        }
-      }
+      cancelled = true;
     };
   }, [audioUrl]);
 
-  // Watch for external playback control
+  // Show where the clip paused or finished once playback stops
   useEffect(() => {
-    debug.log(`External isPlaying changed to: ${externalIsPlaying}`);
-    if (externalIsPlaying !== undefined) {
-      if (externalIsPlaying && !isPlaying) {
-        playAudio();
-      } else if (!externalIsPlaying && isPlaying) {
-        stopAudio();
+    if (!isPlaying) {
+      setCurrentTime(transportState.mainPosition);
+      
+      if (canvasRef.current && bufferRef.current) {
+        drawWaveform(bufferRef.current, transportState.mainPosition);
       }
     }
-  }, [externalIsPlaying]);
+  }, [transportState.mainPosition]);
 
   // Watch for external time control
   useEffect(() => {
@@ -232,8 +319,8 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
   // Track playback and update time
   useEffect(() => {
     const trackPlayback = () => {
-      if (audioRef.current && isPlaying) {
-        const newTime = audioRef.current.currentTime;
+      if (isPlaying) {
+        const newTime = transport.getPosition();
         
         // Only log if time has changed significantly
         if (Math.abs(newTime - currentTime) > 0.1) {
@@ -246,14 +333,15 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
           onTimeUpdate(newTime);
         }
         
-        if (canvasRef.current && audioBuffer) {
-          drawWaveform(audioBuffer, newTime);
+        // Page the zoomed view along with the playhead
+        const { start, end } = viewRef.current;
+        if (newTime < start || newTime > end) {
+          const span = end - start;
+          updateView(newTime - span * 0.1, newTime + span * 0.9);
         }
         
-        // Check if playback has reached the end
-        if (newTime >= duration - 0.1) {
-          debug.log('Playback reached end, stopping');
-          stopAudio(false);
+        if (canvasRef.current && audioBuffer) {
+          drawWaveform(audioBuffer, newTime);
         }
         
         // Continue tracking
@@ -314,43 +402,47 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
     const width = displayWidth;
     const height = displayHeight;
     
-    // Get the audio data
-    const data = buffer.getChannelData(0);
-    const step = Math.ceil(data.length / width);
-    const amp = height / 2;
+    // Visible window, falling back to the whole clip before the view is set
+    const viewStart = viewRef.current.end > viewRef.current.start ? viewRef.current.start : 0;
+    const viewEnd = viewRef.current.end > viewRef.current.start ? viewRef.current.end : buffer.duration;
+    const toX = (time: number) => Math.floor(((time - viewStart) / (viewEnd - viewStart)) * width) + 0.5;
     
-    // Draw the waveform with crisp lines
-    ctx.beginPath();
-    ctx.moveTo(0, amp);
-    
-    for (let i = 0; i < width; i++) {
-      let min = 1.0;
-      let max = -1.0;
+    if (displayModeRef.current === 'spectrogram' && spectrogramRef.current) {
+      const { spectrogram, image } = spectrogramRef.current;
+      drawSpectrogram(ctx, image, spectrogram, viewStart, viewEnd, width, height);
+    } else {
+      // Peaks for each pixel column of the visible window
+      const peaks = peaksRef.current ?? buildPeakPyramid(buffer);
+      const { min: columnMin, max: columnMax } = readPeaks(peaks, viewStart, viewEnd, Math.floor(width));
+      const amp = height / 2;
+      
+      // Draw the waveform with crisp lines
+      ctx.beginPath();
+      ctx.moveTo(0, amp);
       
-      for (let j = 0; j < step; j++) {
-        const datum = data[(i * step) + j];
-        if (datum < min) min = datum;
-        if (datum > max) max = datum;
+      for (let i = 0; i < columnMin.length; i++) {
+        // Use exact pixel positions to prevent blurring
+        const x = Math.floor(i) + 0.5; // Align to pixel grid
+        ctx.lineTo(x, Math.floor((1 + columnMin[i]) * amp) + 0.5);
+        ctx.lineTo(x, Math.floor((1 + columnMax[i]) * amp) + 0.5);
       }
       
-      // Use exact pixel positions to prevent blurring
-      const x = Math.floor(i) + 0.5; // Align to pixel grid
-      ctx.lineTo(x, Math.floor((1 + min) * amp) + 0.5);
-      ctx.lineTo(x, Math.floor((1 + max) * amp) + 0.5);
+      ctx.strokeStyle = '#3b82f6';
+      ctx.lineWidth = 1;
+      ctx.stroke();
     }
     
-    ctx.strokeStyle = '#3b82f6';
-    ctx.lineWidth = 1;
-    ctx.stroke();
-    
     // Draw timestamp markers first (so they appear behind the playhead)
     if (timestamps && timestamps.length > 0) {
-      timestamps.forEach((ts, index) => {
-        const startX = Math.floor((ts.start / buffer.duration) * width) + 0.5;
-        const endX = Math.floor((ts.stop / buffer.duration) * width) + 0.5;
+      timestamps.forEach((ts) => {
+        // Skip words outside the visible window
+        if (ts.stop < viewStart || ts.start > viewEnd) return;
         
-        // Draw selected timestamps with a different color
-        if (ts.selected) {
+        const startX = toX(ts.start);
+        const endX = toX(ts.stop);
+        
+        // Draw selected timestamps with a different color (a range draws its own shading)
+        if (ts.selected && !rangeRef.current) {
           ctx.fillStyle = 'rgba(59, 130, 246, 0.3)';
           ctx.fillRect(Math.floor(startX), 0, Math.floor(endX - startX), height);
           
@@ -364,10 +456,11 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
         }
         
         // Draw timestamp start marker
+        const markerColor = editable ? '#f59e0b' : '#9ca3af';
         ctx.beginPath();
         ctx.moveTo(startX, 0);
         ctx.lineTo(startX, height);
-        ctx.strokeStyle = ts.selected ? '#2563eb' : '#9ca3af';
+        ctx.strokeStyle = ts.selected ? '#2563eb' : markerColor;
         ctx.lineWidth = ts.selected ? 2 : 1;
         ctx.stroke();
         
@@ -375,14 +468,51 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
         ctx.beginPath();
         ctx.moveTo(endX, 0);
         ctx.lineTo(endX, height);
-        ctx.strokeStyle = ts.selected ? '#2563eb' : '#9ca3af';
+        ctx.strokeStyle = ts.selected ? '#2563eb' : markerColor;
         ctx.lineWidth = ts.selected ? 2 : 1;
         ctx.stroke();
+        
+        // While editing, label each word and give its edges grips
+        if (editable) {
+          ctx.fillStyle = '#f59e0b';
+          ctx.fillRect(startX - 2, 0, 4, 10);
+          ctx.fillRect(endX - 2, 0, 4, 10);
+          if (endX - startX > 16) {
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(startX + 2, 0, endX - startX - 4, height);
+            ctx.clip();
+            ctx.font = '11px sans-serif';
+            ctx.fillStyle = '#fde68a';
+            ctx.fillText(ts.word, startX + 4, 22);
+            ctx.restore();
+          }
+        }
+      });
+    }
+    
+    // Selected range with a grip on each edge
+    if (rangeRef.current) {
+      const rangeStartX = toX(rangeRef.current.start);
+      const rangeEndX = toX(rangeRef.current.end);
+      
+      ctx.fillStyle = 'rgba(59, 130, 246, 0.3)';
+      ctx.fillRect(rangeStartX, 0, rangeEndX - rangeStartX, height);
+      
+      ctx.strokeStyle = '#60a5fa';
+      ctx.lineWidth = 2;
+      [rangeStartX, rangeEndX].forEach(x => {
+        ctx.beginPath();
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, height);
+        ctx.stroke();
+        ctx.fillStyle = '#60a5fa';
+        ctx.fillRect(x - 3, height / 2 - 8, 6, 16);
       });
     }
     
     // Draw the playhead (on top of everything else)
-    const playheadX = Math.floor((currentPosition / buffer.duration) * width) + 0.5;
+    const playheadX = toX(currentPosition);
     
     ctx.beginPath();
     ctx.moveTo(playheadX, 0);
@@ -399,89 +529,415 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
     
     // Restore line width
     ctx.lineWidth = 1;
-  }, [timestamps, currentTime]);
+  }, [timestamps, currentTime, editable]);
+
+  // Clamp a window to the clip and the zoom limits, then show it
+  const updateView = useCallback((start: number, end: number) => {
+    const total = bufferRef.current?.duration ?? 0;
+    if (total <= 0) return;
+    
+    const span = Math.min(total, Math.max(MIN_VIEW_SECONDS, end - start));
+    const clampedStart = Math.min(total - span, Math.max(0, start));
+    const next = { start: clampedStart, end: clampedStart + span };
+    
+    viewRef.current = next;
+    setView(next);
+  }, []);
+
+  // Zoom by `factor` (below 1 zooms in) keeping `anchor` at the same place on screen
+  const zoomAround = useCallback((anchor: number, factor: number, from: WaveformView = viewRef.current) => {
+    const span = from.end - from.start;
+    const newSpan = span * factor;
+    const start = anchor - (anchor - from.start) * (newSpan / span);
+    updateView(start, start + newSpan);
+  }, [updateView]);
+
+  // Time under a client x coordinate on the main canvas
+  const timeAtClientX = useCallback((clientX: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return 0;
+    const rect = canvas.getBoundingClientRect();
+    const { start, end } = viewRef.current;
+    return start + ((clientX - rect.left) / rect.width) * (end - start);
+  }, []);
+
+  // Spectrogram of the whole clip, only computed once the view is switched to it
+  const { spectrogram, isComputing: isSpectrogramComputing, error: spectrogramError } = useSpectrogram({
+    buffer: audioBuffer,
+    scale: frequencyScale,
+    enabled: displayMode === 'spectrogram',
+  });
+  
+  useEffect(() => {
+    spectrogramRef.current = spectrogram ? { spectrogram, image: renderSpectrogramImage(spectrogram, colorMap) } : null;
+  }, [spectrogram, colorMap]);
+
+  // Redraw once the window moves or the display changes
+  useEffect(() => {
+    if (canvasRef.current && audioBuffer) {
+      drawWaveform(audioBuffer, isPlaying ? transport.getPosition() : currentTime);
+    }
+  }, [view, displayMode, spectrogram, colorMap]);
+
+  // Boundaries move while they're edited
+  useEffect(() => {
+    if (editable && canvasRef.current && audioBuffer) {
+      drawWaveform(audioBuffer, isPlaying ? transport.getPosition() : currentTime);
+    }
+  }, [editable, timestamps]);
+
+  // Overview of the whole clip with the visible window and playhead
+  useEffect(() => {
+    const canvas = minimapRef.current;
+    const peaks = peaksRef.current;
+    if (!canvas || !peaks || !audioBuffer) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    
+    const dpr = window.devicePixelRatio || 1;
+    const displayWidth = canvas.clientWidth;
+    canvas.width = displayWidth * dpr;
+    canvas.height = MINIMAP_HEIGHT * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, displayWidth, MINIMAP_HEIGHT);
+    
+    const { min, max } = readPeaks(peaks, 0, audioBuffer.duration, Math.floor(displayWidth));
+    const amp = MINIMAP_HEIGHT / 2;
+    ctx.beginPath();
+    for (let i = 0; i < min.length; i++) {
+      ctx.moveTo(i + 0.5, (1 + min[i]) * amp);
+      ctx.lineTo(i + 0.5, (1 + max[i]) * amp);
+    }
+    ctx.strokeStyle = '#6b7280';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    
+    const toX = (time: number) => (time / audioBuffer.duration) * displayWidth;
+    
+    // Visible window
+    const windowX = toX(view.start);
+    const windowWidth = Math.max(2, toX(view.end) - windowX);
+    ctx.fillStyle = 'rgba(59, 130, 246, 0.25)';
+    ctx.fillRect(windowX, 0, windowWidth, MINIMAP_HEIGHT);
+    ctx.strokeStyle = '#3b82f6';
+    ctx.strokeRect(windowX + 0.5, 0.5, windowWidth - 1, MINIMAP_HEIGHT - 1);
+    
+    // Playhead
+    ctx.fillStyle = '#dc2626';
+    ctx.fillRect(Math.floor(toX(currentTime)), 0, 1, MINIMAP_HEIGHT);
+  }, [view, audioBuffer, currentTime]);
+
+  // Wheel zooms around the cursor, sideways scrolling pans; needs a non-passive listener to stop page scroll
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    
+    const handleWheel = (event: WheelEvent) => {
+      if (!bufferRef.current) return;
+      event.preventDefault();
+      
+      const { start, end } = viewRef.current;
+      if (Math.abs(event.deltaX) > Math.abs(event.deltaY)) {
+        const shift = (event.deltaX / canvas.clientWidth) * (end - start);
+        updateView(start + shift, end + shift);
+      } else {
+        const speed = event.ctrlKey ? PINCH_WHEEL_ZOOM_SPEED : WHEEL_ZOOM_SPEED;
+        zoomAround(timeAtClientX(event.clientX), Math.exp(event.deltaY * speed));
+      }
+    };
+    
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [updateView, zoomAround, timeAtClientX]);
 
-  // Play the audio
+  // Clicking or dragging on the minimap centres the view there
+  const handleMinimapPointer = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    const buffer = bufferRef.current;
+    if (!buffer) return;
+    if (event.type === 'pointerdown') {
+      event.currentTarget.setPointerCapture(event.pointerId);
+    } else if (!event.currentTarget.hasPointerCapture(event.pointerId)) {
+      return;
+    }
+    
+    const rect = event.currentTarget.getBoundingClientRect();
+    const time = ((event.clientX - rect.left) / rect.width) * buffer.duration;
+    const span = viewRef.current.end - viewRef.current.start;
+    updateView(time - span / 2, time + span / 2);
+  }, [updateView]);
+
+  // Play the clip from the current position
   const playAudio = useCallback(() => {
     debug.log('Play audio called');
     
-    if (audioRef.current) {
-      const audio = audioRef.current;
-      
-      // Set the playback rate
-      audio.playbackRate = playbackRate;
-      
-      // Start playback
-      audio.play()
-        .then(() => {
-          debug.success('Audio playback started');
-          setIsPlaying(true);
-          if (onPlayingChange) {
-            onPlayingChange(true);
-          }
-        })
-        .catch(error => {
-          debug.error('Error playing audio:', error);
-        });
-    } else {
-      debug.warn('Audio element not available');
+    if (!bufferRef.current) {
+      debug.warn('Audio not loaded yet');
+      return;
     }
-  }, [playbackRate, onPlayingChange]);
+    
+    transport.playMain();
+    debug.success('Audio playback started');
+  }, [transport]);
 
-  // Pause the audio
+  // Pause the audio, keeping the position
   const pauseAudio = useCallback(() => {
     debug.log('Pause audio called');
-    
-    if (audioRef.current) {
-      audioRef.current.pause();
-      setIsPlaying(false);
-      debug.log('Audio playback paused');
-      if (onPlayingChange) {
-        onPlayingChange(false);
-      }
-    }
-  }, [onPlayingChange]);
+    transport.pause();
+  }, [transport]);
 
   // Stop the audio
   const stopAudio = useCallback((resetPosition: boolean = true) => {
     debug.log('Stop audio called');
+    transport.stop();
     
-    if (audioRef.current) {
-      audioRef.current.pause();
-      
-      // Only reset the position if explicitly requested
-      if (resetPosition) {
-        audioRef.current.currentTime = 0;
-        setCurrentTime(0);
-      }
-      
-      setIsPlaying(false);
-      debug.log('Audio playback stopped');
-      if (onPlayingChange) {
-        onPlayingChange(false);
-      }
+    // Only reset the position if explicitly requested
+    if (resetPosition) {
+      transport.seekMain(0);
+      setCurrentTime(0);
     }
-  }, [onPlayingChange]);
+    debug.log('Audio playback stopped');
+  }, [transport]);
 
   // Seek to a specific time
   const seek = useCallback((time: number) => {
     debug.log(`Seek to ${time.toFixed(2)}s`);
     
-    if (audioRef.current) {
-      audioRef.current.currentTime = time;
-      setCurrentTime(time);
-      
-      if (canvasRef.current && audioBuffer) {
-        drawWaveform(audioBuffer, time);
+    transport.seekMain(time);
+    setCurrentTime(time);
+    
+    // Bring the new position into view when zoomed in
+    const { start, end } = viewRef.current;
+    if (time < start || time > end) {
+      const span = end - start;
+      updateView(time - span / 2, time + span / 2);
+    }
+    
+    if (canvasRef.current && audioBuffer) {
+      drawWaveform(audioBuffer, time);
+    }
+  }, [transport, audioBuffer, drawWaveform, updateView]);
+
+  // Nearest word boundary to a time, unless snapping is turned off
+  const snapTime = useCallback((time: number, free: boolean) => {
+    if (free || timestamps.length === 0) return time;
+    let best = time;
+    let bestDistance = Infinity;
+    timestamps.forEach(ts => {
+      [ts.start, ts.stop].forEach(boundary => {
+        const distance = Math.abs(boundary - time);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = boundary;
+        }
+      });
+    });
+    return best;
+  }, [timestamps]);
+
+  // Selection edge under a client x coordinate, if any
+  const edgeAtClientX = useCallback((clientX: number): 'start' | 'end' | null => {
+    const canvas = canvasRef.current;
+    const range = rangeRef.current;
+    if (!canvas || !range) return null;
+    const rect = canvas.getBoundingClientRect();
+    const { start, end } = viewRef.current;
+    const toClientX = (time: number) => rect.left + ((time - start) / (end - start)) * rect.width;
+    if (Math.abs(clientX - toClientX(range.start)) <= HANDLE_HIT_PX) return 'start';
+    if (Math.abs(clientX - toClientX(range.end)) <= HANDLE_HIT_PX) return 'end';
+    return null;
+  }, []);
+
+  // Word boundary under a client x coordinate while editing; a shared boundary is the earlier word's stop
+  const boundaryAtClientX = useCallback((clientX: number): { index: number; edge: 'start' | 'stop' } | null => {
+    const canvas = canvasRef.current;
+    if (!editable || !canvas || timestamps.length === 0) return null;
+    const rect = canvas.getBoundingClientRect();
+    const { start, end } = viewRef.current;
+    const toClientX = (time: number) => rect.left + ((time - start) / (end - start)) * rect.width;
+    
+    let best: { index: number; edge: 'start' | 'stop' } | null = null;
+    let bestDistance = HANDLE_HIT_PX + 1;
+    timestamps.forEach((ts, index) => {
+      const stopDistance = Math.abs(clientX - toClientX(ts.stop));
+      const startDistance = Math.abs(clientX - toClientX(ts.start));
+      if (stopDistance < bestDistance) {
+        bestDistance = stopDistance;
+        best = { index, edge: 'stop' };
+      }
+      if (startDistance < bestDistance) {
+        bestDistance = startDistance;
+        best = { index, edge: 'start' };
+      }
+    });
+    return best;
+  }, [editable, timestamps]);
+
+  // Select a time range and the given words, and report it through onSelectionChange
+  const applySelection = useCallback((words: TimeStamp[], start: number, end: number) => {
+    debug.log(`Range selected: ${start.toFixed(2)}s - ${end.toFixed(2)}s (${words.length} words)`);
+    
+    // Update timestamps in place, as word clicks do
+    timestamps.forEach(ts => {
+      ts.selected = words.includes(ts);
+    });
+    rangeRef.current = { start, end };
+    setSelectedPhone(null);
+    setSelectedWords(words);
+    setFirstSelectedWord(words[0] ?? null);
+    
+    if (onSelectionChange) {
+      onSelectionChange({
+        words,
+        startTime: start,
+        endTime: end,
+        wordCount: words.length,
+        firstSelectedWord: words[0] ?? null,
+      });
+    }
+    
+    seek(start);
+    
+    // Keep the first selected word box in view
+    const index = words.length > 0 ? timestamps.indexOf(words[0]) : -1;
+    const box = scrollContainerRef.current?.querySelector(`[data-index="${index}"]`) as HTMLElement | null;
+    box?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' });
+  }, [timestamps, onSelectionChange, seek]);
+
+  // Words overlapping a dragged range
+  const commitRange = useCallback((start: number, end: number) => {
+    const words = timestamps.filter(ts => ts.stop > start + 1e-6 && ts.start < end - 1e-6);
+    applySelection(words, start, end);
+  }, [timestamps, applySelection]);
+
+  // Select whole words by index, inclusive
+  const selectWords = useCallback((firstIndex: number, lastIndex: number) => {
+    const first = Math.max(0, Math.min(firstIndex, lastIndex));
+    const last = Math.min(timestamps.length - 1, Math.max(firstIndex, lastIndex));
+    if (last < first) return;
+    const words = timestamps.slice(first, last + 1);
+    applySelection(words, words[0].start, Math.max(...words.map(w => w.stop)));
+  }, [timestamps, applySelection]);
+
+  const redrawNow = useCallback(() => {
+    if (canvasRef.current && bufferRef.current) {
+      drawWaveform(bufferRef.current, isPlaying ? transport.getPosition() : currentTime);
+    }
+  }, [drawWaveform, isPlaying, transport, currentTime]);
+
+  // Mouse drags select a range (or move its edges); shift or middle drags and touch pan; two fingers pinch-zoom
+  const handleCanvasPointerDown = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!bufferRef.current) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointersRef.current.set(event.pointerId, event.clientX);
+    
+    const positions = [...pointersRef.current.values()];
+    if (positions.length === 2) {
+      gestureRef.current = { kind: 'pinch', distance: Math.abs(positions[0] - positions[1]), view: viewRef.current };
+      return;
+    }
+    
+    if (event.pointerType === 'touch' || event.shiftKey || event.button === 1) {
+      gestureRef.current = { kind: 'pan', lastX: event.clientX };
+      return;
+    }
+    
+    const boundary = boundaryAtClientX(event.clientX);
+    if (boundary) {
+      gestureRef.current = { kind: 'boundary', ...boundary, moved: false };
+      return;
+    }
+    
+    const edge = edgeAtClientX(event.clientX);
+    gestureRef.current = edge
+      ? { kind: 'resize', edge }
+      : { kind: 'select', anchorX: event.clientX, moved: false };
+  }, [edgeAtClientX, boundaryAtClientX]);
+
+  const handleCanvasPointerMove = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    const gesture = gestureRef.current;
+    if (!gesture || !pointersRef.current.has(event.pointerId)) {
+      // Hint that selection edges and, while editing, word boundaries can be dragged
+      const canDrag = boundaryAtClientX(event.clientX) || edgeAtClientX(event.clientX);
+      event.currentTarget.style.cursor = canDrag ? 'ew-resize' : 'crosshair';
+      return;
+    }
+    pointersRef.current.set(event.pointerId, event.clientX);
+    
+    if (gesture.kind === 'pinch') {
+      const positions = [...pointersRef.current.values()];
+      if (positions.length < 2 || gesture.distance <= 0) return;
+      const distance = Math.max(1, Math.abs(positions[0] - positions[1]));
+      const middle = timeAtClientX((positions[0] + positions[1]) / 2);
+      zoomAround(middle, gesture.distance / distance, gesture.view);
+      return;
+    }
+    
+    if (gesture.kind === 'pan') {
+      const { start, end } = viewRef.current;
+      const shift = ((gesture.lastX - event.clientX) / event.currentTarget.clientWidth) * (end - start);
+      gesture.lastX = event.clientX;
+      updateView(start + shift, end + shift);
+      return;
+    }
+    
+    if (gesture.kind === 'boundary') {
+      gesture.moved = true;
+      onBoundaryDrag?.(gesture.index, gesture.edge, timeAtClientX(event.clientX), false);
+      return;
+    }
+    
+    const time = snapTime(timeAtClientX(event.clientX), event.altKey);
+    
+    if (gesture.kind === 'select') {
+      if (!gesture.moved && Math.abs(event.clientX - gesture.anchorX) < DRAG_THRESHOLD_PX) return;
+      gesture.moved = true;
+      const anchor = snapTime(timeAtClientX(gesture.anchorX), event.altKey);
+      rangeRef.current = { start: Math.min(anchor, time), end: Math.max(anchor, time) };
+    } else if (rangeRef.current) {
+      // Dragging an edge past the other one swaps which edge is held
+      const fixed = gesture.edge === 'start' ? rangeRef.current.end : rangeRef.current.start;
+      rangeRef.current = { start: Math.min(fixed, time), end: Math.max(fixed, time) };
+      gesture.edge = time < fixed ? 'start' : 'end';
+    }
+    redrawNow();
+  }, [edgeAtClientX, boundaryAtClientX, timeAtClientX, zoomAround, updateView, snapTime, redrawNow, onBoundaryDrag]);
+
+  const handleCanvasPointerUp = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    const gesture = gestureRef.current;
+    pointersRef.current.delete(event.pointerId);
+    const remaining = [...pointersRef.current.values()];
+    
+    if (gesture?.kind === 'boundary') {
+      if (gesture.moved) {
+        onBoundaryDrag?.(gesture.index, gesture.edge, timeAtClientX(event.clientX), true);
+      } else {
+        seek(timeAtClientX(event.clientX));
+      }
+    } else if (gesture?.kind === 'select' && !gesture.moved) {
+      // A plain click moves the playhead
+      seek(timeAtClientX(event.clientX));
+    } else if (gesture?.kind === 'select' || gesture?.kind === 'resize') {
+      const range = rangeRef.current;
+      if (range && range.end - range.start > 0.01) {
+        commitRange(range.start, range.end);
+      } else {
+        redrawNow();
       }
     }
-  }, [audioBuffer, drawWaveform]);
+    
+    // Lifting one finger of a pinch carries on as a pan with the other
+    gestureRef.current = remaining.length === 1 ? { kind: 'pan', lastX: remaining[0] } : null;
+  }, [seek, timeAtClientX, commitRange, redrawNow, onBoundaryDrag]);
 
   // Handle timestamp clicks
   const handleTimestampClick = useCallback((event: React.MouseEvent, timestamp: TimeStamp, index: number) => {
     event.preventDefault();
     
     debug.log(`Timestamp clicked: "${timestamp.word}" at ${timestamp.start.toFixed(2)}s (index: ${index})`);
+    setSelectedPhone(null);
     
     // Set crosshair position to the clicked word
     const clickedWordStart = timestamp.start;
@@ -599,6 +1055,7 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
       const endTime = Math.max(...selectedTimestamps.map(ts => ts.stop));
       
       debug.log(`Selection updated: ${selectedTimestamps.length} words, ${startTime.toFixed(2)}s - ${endTime.toFixed(2)}s`);
+      rangeRef.current = { start: startTime, end: endTime };
       
       // Update selected words array
       setSelectedWords(selectedTimestamps);
@@ -635,6 +1092,7 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
       }
     } else {
       debug.log('Selection cleared - no words selected');
+      rangeRef.current = null;
       setSelectedWords([]);
       setFirstSelectedWord(null);
       
@@ -677,10 +1135,12 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
     timestamps.forEach((timestamp) => {
       timestamp.selected = false;
     });
+    rangeRef.current = null;
     
     // Update state
     setSelectedWords([]);
     setFirstSelectedWord(null);
+    setSelectedPhone(null);
     
     // Redraw the waveform to update visual state
     if (audioBuffer && canvasRef.current) {
@@ -693,6 +1153,30 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
     }
   }, [timestamps, onSelectionChange, audioBuffer, drawWaveform, currentTime]);
 
+  // Select just one phone (and the word it belongs to) and loop it
+  const handlePhoneClick = useCallback((event: React.MouseEvent, phone: TimeStamp, wordIndex: number) => {
+    event.preventDefault();
+    debug.log(`Phone clicked: "${phone.word}" at ${phone.start.toFixed(2)}s (word index: ${wordIndex})`);
+    
+    applySelection([timestamps[wordIndex]], phone.start, phone.stop);
+    setSelectedPhone(phone);
+    transport.playSelection(phone.start, phone.stop, true);
+  }, [timestamps, applySelection, transport]);
+
+  // Word being spoken, highlighted while the clip or a selection plays
+  const speakingIndex = isPlaying ? findWordAt(timestamps, currentTime) : -1;
+
+  // Phones under each word box; empty lists when the transcript has no phone tier
+  const wordPhones = useMemo(() => phonesByWord(timestamps, phones), [timestamps, phones]);
+  const hasPhones = phones.length > 0;
+
+  // Word box width from its length (with a minimum to keep it clickable), wide enough for its phones
+  const wordBoxWidth = (index: number) => Math.max(
+    40,
+    timestamps[index].word.length * 8,
+    wordPhones[index].length * PHONE_MIN_WIDTH,
+  );
+
   // Format time for display
   const formatTime = useCallback((time: number): string => {
     if (displayTimeFormat === 'minutes') {
@@ -712,9 +1196,7 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
     }
     
     // Find the current timestamp based on playhead position
-    const currentWordIndex = timestamps.findIndex(ts => 
-      currentTime >= ts.start && currentTime <= ts.stop
-    );
+    const currentWordIndex = findWordAt(timestamps, currentTime);
     
     // If we found a current word
     if (currentWordIndex !== -1) {
@@ -815,21 +1297,8 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
   // Set volume
   const setAudioVolume = useCallback((newVolume: number) => {
     debug.log(`Setting volume to ${newVolume.toFixed(2)}`);
-    const clampedVolume = Math.min(1, Math.max(0, newVolume));
-    
-    setVolume(clampedVolume);
-    
-    if (audioRef.current) {
-      audioRef.current.volume = clampedVolume;
-    }
-  }, []);
-
-  // When audio element is created, set its initial volume
-  useEffect(() => {
-    if (audioRef.current) {
-      audioRef.current.volume = volume;
-    }
-  }, [audioRef.current, volume]);
+    transport.setVolume(newVolume);
+  }, [transport]);
 
   // Expose the handle through useImperativeHandle
   useImperativeHandle(ref, () => ({
@@ -843,10 +1312,7 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
     getPlaybackRate: () => playbackRate,
     setPlaybackRate: (rate: number) => {
       debug.log(`Setting playback rate to ${rate}x`);
-      setPlaybackRate(rate);
-      if (audioRef.current) {
-        audioRef.current.playbackRate = rate;
-      }
+      transport.setPlaybackRate(rate);
     },
     getVolume: () => volume,
     setVolume: setAudioVolume,
@@ -854,8 +1320,8 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
     getFirstSelectedWord: () => firstSelectedWord,
     togglePlayback,
     clearSelection,
+    selectWords,
     getCanvas: () => canvasRef.current,
-    getAudioElement: () => audioRef.current,
   }), [
     currentTime, 
     duration, 
@@ -868,9 +1334,12 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
     seek, 
     stopAudio, 
     togglePlayback, 
-    clearSelection
+    clearSelection,
+    selectWords
   ]);
 
+  const isZoomed = !!audioBuffer && view.end - view.start < audioBuffer.duration - 0.001;
+
   // Render the component
   return (
     <div ref={containerRef} className="audio-visualizer" data-debug-id={debugId.current}>
@@ -879,10 +1348,69 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
         ref={canvasRef}
           width={width}
           height={height}
-          style={{ width: '100%', height: '100%' }}
+          style={{ width: '100%', height: '100%', touchAction: 'none', cursor: 'crosshair' }}
+          onPointerDown={handleCanvasPointerDown}
+          onPointerMove={handleCanvasPointerMove}
+          onPointerUp={handleCanvasPointerUp}
+          onPointerCancel={handleCanvasPointerUp}
         />
       </div>
       
+      {/* Overview of the whole clip with zoom controls */}
+      {audioBuffer && (
+        <div className="flex items-center mt-1" style={{ gap: '6px' }}>
+          <canvas
+            ref={minimapRef}
+            className="flex-1 rounded-sm"
+            style={{ height: MINIMAP_HEIGHT, cursor: 'pointer', touchAction: 'none' }}
+            onPointerDown={handleMinimapPointer}
+            onPointerMove={handleMinimapPointer}
+          />
+          <button
+            className="border rounded px-2 text-sm text-gray-700 bg-white hover:bg-gray-100"
+            onClick={() => zoomAround((view.start + view.end) / 2, 2)}
+            title="Zoom out"
+          >
+            −
+          </button>
+          <button
+            className="border rounded px-2 text-sm text-gray-700 bg-white hover:bg-gray-100"
+            onClick={() => zoomAround((view.start + view.end) / 2, 0.5)}
+            title="Zoom in"
+          >
+            +
+          </button>
+          <button
+            className="border rounded px-2 text-xs text-gray-700 bg-white hover:bg-gray-100 disabled:opacity-50"
+            onClick={() => updateView(0, audioBuffer.duration)}
+            disabled={!isZoomed}
+            title="Show the whole clip"
+          >
+            Fit
+          </button>
+          <button
+            className="border rounded px-2 text-xs text-gray-700 bg-white hover:bg-gray-100"
+            onClick={() => setDisplayMode(displayMode === 'waveform' ? 'spectrogram' : 'waveform')}
+            title="Switch between waveform and spectrogram"
+          >
+            {displayMode === 'waveform' ? 'Spectrogram' : 'Waveform'}
+          </button>
+        </div>
+      )}
+      
+      {displayMode === 'spectrogram' && (
+        <div className="flex items-center justify-end mt-1" style={{ gap: '8px' }}>
+          {isSpectrogramComputing && <span className="text-xs text-gray-500">Computing spectrogram…</span>}
+          {spectrogramError && <span className="text-xs text-red-600">{spectrogramError}</span>}
+          <SpectrogramControls
+            scale={frequencyScale}
+            colorMap={colorMap}
+            onScaleChange={setFrequencyScale}
+            onColorMapChange={setColorMap}
+          />
+        </div>
+      )}
+      
       {/* Timestamp boxes with navigation arrows */}
       {timestamps && timestamps.length > 0 && !readOnly && (
         <div className="timestamps-container" style={{
@@ -981,11 +1509,13 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
               paddingRight: '28px'  // Add padding for right arrow
             }}>
               {timestamps.map((timestamp, index) => {
-                // Calculate width based on word length (with min width to ensure clickability)
-                const wordLength = timestamp.word.length;
-                const minWidth = 40; // Minimum width in pixels
-                const widthPerChar = 8; // Pixels per character
-                const boxWidth = Math.max(minWidth, wordLength * widthPerChar);
+                // Karaoke fill sweeping across the word being spoken
+                const spokenFraction = index === speakingIndex ? wordProgress(timestamp, currentTime) : null;
+
+                const boxWidth = wordBoxWidth(index);
+                
+                // Feedback grade from the latest take, if this word was scored
+                const grade = wordGrades[index] ? GRADE_COLORS[wordGrades[index]] : null;
                 
                 return (
                   <div
@@ -995,9 +1525,16 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
           style={{ 
                       margin: '0 2px',
                       minWidth: `${boxWidth}px`,
+                      // Fixed, so the phone row underneath lines up
+                      width: hasPhones ? `${boxWidth}px` : undefined,
+                      flexShrink: 0,
                       height: '100%',
-                      backgroundColor: timestamp.selected ? 'rgba(59, 130, 246, 0.4)' : 'rgba(229, 231, 235, 0.6)',
-                      border: timestamp.selected ? '2px solid rgba(37, 99, 235, 0.8)' : '1px solid rgba(156, 163, 175, 0.7)',
+                      backgroundColor: grade
+                        ? grade.background
+                        : timestamp.selected ? 'rgba(59, 130, 246, 0.4)' : 'rgba(229, 231, 235, 0.6)',
+                      border: grade
+                        ? `${timestamp.selected ? 2 : 1}px solid ${grade.border}`
+                        : timestamp.selected ? '2px solid rgba(37, 99, 235, 0.8)' : '1px solid rgba(156, 163, 175, 0.7)',
                       borderRadius: '4px',
                       cursor: 'pointer',
                       display: 'flex',
@@ -1015,8 +1552,22 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
                     onClick={(e) => handleTimestampClick(e, timestamp, index)}
                     title={`Click to select: ${timestamp.word} (${formatTime(timestamp.start)} - ${formatTime(timestamp.stop)})`}
                   >
+                    {spokenFraction !== null && (
+                      <div
+                        style={{
+                          position: 'absolute',
+                          left: 0,
+                          top: 0,
+                          bottom: 0,
+                          width: `${spokenFraction * 100}%`,
+                          backgroundColor: 'rgba(250, 204, 21, 0.55)',
+                          pointerEvents: 'none',
+                        }}
+                      />
+                    )}
                     <span style={{ 
-                      color: timestamp.selected ? '#1E40AF' : '#4B5563',
+                      position: 'relative',
+                      color: grade ? grade.text : timestamp.selected ? '#1E40AF' : '#4B5563',
                       maxWidth: '100%',
                       overflow: 'hidden',
                       textOverflow: 'ellipsis',
@@ -1028,6 +1579,64 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
                 );
               })}
             </div>
+            
+            {/* Phone tier: one column per word box, phones sized by duration */}
+            {hasPhones && (
+              <div className="timestamps-phone-row" style={{
+                display: 'flex',
+                minWidth: '100%',
+                width: 'max-content',
+                height: '22px',
+                marginTop: '4px',
+                paddingLeft: '28px',
+                paddingRight: '28px'
+              }}>
+                {wordPhones.map((group, wordIndex) => (
+                  <div
+                    key={wordIndex}
+                    style={{
+                      display: 'flex',
+                      margin: '0 2px',
+                      width: `${wordBoxWidth(wordIndex)}px`,
+                      flexShrink: 0,
+                    }}
+                  >
+                    {group.map((phone, i) => {
+                      const isSelected = selectedPhone === phone;
+                      const isSpeaking = isPlaying && currentTime >= phone.start && currentTime < phone.stop;
+                      return (
+                        <div
+                          key={i}
+                          className="phone-box"
+                          style={{
+                            flex: `${Math.max(phone.stop - phone.start, 0.01)} 1 0`,
+                            minWidth: `${PHONE_MIN_WIDTH - 2}px`,
+                            margin: '0 1px',
+                            backgroundColor: isSpeaking
+                              ? 'rgba(250, 204, 21, 0.55)'
+                              : isSelected ? 'rgba(59, 130, 246, 0.4)' : 'rgba(243, 244, 246, 0.9)',
+                            border: isSelected ? '1px solid rgba(37, 99, 235, 0.8)' : '1px solid rgba(209, 213, 219, 0.9)',
+                            borderRadius: '3px',
+                            cursor: 'pointer',
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'center',
+                            fontSize: '11px',
+                            color: isSelected ? '#1E40AF' : '#6B7280',
+                            overflow: 'hidden',
+                            whiteSpace: 'nowrap'
+                          }}
+                          onClick={(e) => handlePhoneClick(e, phone, wordIndex)}
+                          title={`Click to loop: ${phone.word} (${formatTime(phone.start)} - ${formatTime(phone.stop)})`}
+                        >
+                          {phone.word}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
           
           {/* Thin scroll indicator */}
@@ -1057,27 +1666,6 @@ export const AudioVisualizer = forwardRef<AudioVisualizerHandle, AudioVisualizer
             </div>
       )}
       
-      {/* Audio element (hidden) */}
-      <audio
-        ref={audioRef}
-        src={audioUrl}
-        onEnded={() => {
-          debug.log('Audio playback ended naturally');
-          setIsPlaying(false);
-          
-          if (onPlayingChange) {
-            onPlayingChange(false);
-          }
-        }}
-        onLoadedMetadata={(e) => {
-          debug.log(`Audio metadata loaded, duration: ${e.currentTarget.duration.toFixed(2)}s`);
-          setDuration(e.currentTarget.duration);
-        }}
-        onError={(e) => {
-          debug.error('Audio element error:', e);
-        }}
-        style={{ display: 'none' }}
-      />
     </div>
   );
 });
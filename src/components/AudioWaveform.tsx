@@ -1,9 +1,19 @@
-import React, { useRef, useEffect, useState, useCallback, forwardRef } from 'react';
+import React, { useRef, useEffect, forwardRef } from 'react';
 import { useDebug } from '../hooks/useDebug';
+import {
+  applyWaveformMessage,
+  createWaveformRenderer,
+  WaveformFrame,
+  WaveformMessage,
+  WaveformMode,
+  WaveformStyle,
+} from '../utils/waveformRenderer';
 
 // Define prop interface
 interface AudioWaveformProps {
-  audioElement?: HTMLAudioElement | null;
+  analyser?: AnalyserNode | null;
+  secondaryAnalyser?: AnalyserNode | null; // second channel, plotted against the first in Lissajous mode
+  mode?: WaveformMode;
   width?: number | string;
   height?: number;
   color?: string;
@@ -12,25 +22,67 @@ interface AudioWaveformProps {
   label?: string;
   startTime?: number | null;
   endTime?: number | null;
+  duration?: number; // length of the clip the start/end overlay refers to
   className?: string;
 }
 
 // Define ref interface
 interface AudioWaveformRef {
-  getAudioContext: () => AudioContext | null;
-  initializeAudioContext: () => Promise<AudioContext | null>;
   getAnalyser: () => AnalyserNode | null;
 }
 
-// Create a map to track audio elements already connected to audio contexts
-const connectedAudioElements = new Map<HTMLAudioElement, MediaElementAudioSourceNode>();
+type SendToRenderer = (message: Exclude<WaveformMessage, { type: 'init' }>, transfer?: Transferable[]) => void;
+
+// A canvas can only be handed to a worker once, so its renderer outlives StrictMode's unmount/remount
+// and is only disposed if the canvas isn't picked up again straight away
+const canvasRenderers = new WeakMap<HTMLCanvasElement, { send: SendToRenderer; dispose: () => void; disposeTimer: number | null }>();
+
+function attachRenderer(canvas: HTMLCanvasElement, style: WaveformStyle): SendToRenderer {
+  const existing = canvasRenderers.get(canvas);
+  if (existing) {
+    if (existing.disposeTimer !== null) window.clearTimeout(existing.disposeTimer);
+    existing.disposeTimer = null;
+    return existing.send;
+  }
+
+  let send: SendToRenderer;
+  let dispose = () => {};
+  if ('transferControlToOffscreen' in canvas && typeof Worker !== 'undefined') {
+    const worker = new Worker(new URL('../workers/waveform.worker.ts', import.meta.url), { type: 'module' });
+    const offscreen = canvas.transferControlToOffscreen();
+    const init: WaveformMessage = { type: 'init', canvas: offscreen, style };
+    worker.postMessage(init, [offscreen]);
+    send = (message, transfer = []) => worker.postMessage(message, transfer);
+    dispose = () => worker.terminate();
+  } else {
+    // No OffscreenCanvas: draw on the main thread
+    const renderer = createWaveformRenderer(canvas, style);
+    send = message => applyWaveformMessage(renderer, message);
+  }
+
+  canvasRenderers.set(canvas, { send, dispose, disposeTimer: null });
+  return send;
+}
+
+function releaseRenderer(canvas: HTMLCanvasElement): void {
+  const entry = canvasRenderers.get(canvas);
+  if (!entry) return;
+  entry.disposeTimer = window.setTimeout(() => {
+    entry.dispose();
+    canvasRenderers.delete(canvas);
+  }, 0);
+}
 
 /**
- * Real-time audio waveform visualization component (oscilloscope style)
+ * Real-time audio visualization: oscilloscope, spectrum bars, a rolling history or a Lissajous figure.
+ * Reads from an analyser on the playback graph, e.g. the audio transport's output,
+ * and draws in a worker where OffscreenCanvas is available.
  */
 export const AudioWaveform = forwardRef<AudioWaveformRef, AudioWaveformProps>((props, ref) => {
   const {
-    audioElement,
+    analyser = null,
+    secondaryAnalyser = null,
+    mode = 'oscilloscope',
     width = '100%',
     height = 200,
     color = '#4CAF50', // Default green color
@@ -39,203 +91,52 @@ export const AudioWaveform = forwardRef<AudioWaveformRef, AudioWaveformProps>((p
     label = '',
     startTime = null,
     endTime = null,
+    duration = 1,
     className,
   } = props;
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [audioCtx, setAudioCtx] = useState<AudioContext | null>(null);
-  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const sendRef = useRef<SendToRenderer | null>(null);
   const debug = useDebug('AudioWaveform');
-  const prevAudioElementRef = useRef<HTMLAudioElement | null>(null);
-  
-  // Initialize audio context explicitly
-  const initializeAudioContext = useCallback(async () => {
-    debug.log('Explicitly initializing audio context');
-    
-    if (!audioCtx) {
-      try {
-        const newAudioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-        setAudioCtx(newAudioCtx);
-        debug.log('Created new audio context during explicit initialization');
-        return newAudioCtx;
-      } catch (error) {
-        debug.error(`Error creating audio context: ${(error as Error).message}`);
-        return null;
-      }
-    }
-    
-    // If context exists but is suspended, try to resume it
-    if (audioCtx.state === 'suspended') {
-      try {
-        await audioCtx.resume();
-        debug.log('Resumed existing audio context during explicit initialization');
-      } catch (error) {
-        debug.error(`Error resuming audio context: ${(error as Error).message}`);
-      }
-    }
-    
-    return audioCtx;
-  }, [audioCtx]);
   
   // Expose methods via ref
   React.useImperativeHandle(
     ref,
     () => ({
-      getAudioContext: () => audioCtx,
-      initializeAudioContext,
       getAnalyser: () => analyser,
     }),
-    [audioCtx, analyser, initializeAudioContext]
+    [analyser]
   );
   
-  // Call initialization on mount
+  // Latest style, read when the renderer is created and by the animation loop
+  const style: WaveformStyle = { mode, color, backgroundColor };
+  const styleRef = useRef<WaveformStyle>(style);
+  styleRef.current = style;
+
+  // Pass colour and mode changes to the renderer
   useEffect(() => {
-    initializeAudioContext();
-  }, [initializeAudioContext]);
-  
-  // Start visualization if we have an audio element, analyser, and isPlaying=true
+    sendRef.current?.({ type: 'style', style: styleRef.current });
+  }, [mode, color, backgroundColor]);
+
+  // Start visualization when playing, restarting if the analyser changes
   useEffect(() => {
     if (isPlaying) {
       debug.log('isPlaying changed to: true');
+      stopVisualization();
       startVisualization();
     } else {
       debug.log('isPlaying changed to: false');
       stopVisualization();
     }
-  }, [isPlaying]);
-  
-  // When audio element changes, log it
-  useEffect(() => {
-    if (audioElement) {
-      debug.log(`audioElement changed: ${audioElement.src.substring(0, 40)}...`);
-      
-      const hasAudioElementChanged = prevAudioElementRef.current !== audioElement;
-      debug.log(`SOURCE CHANGE: New source ${audioElement.src.substring(0, 40)} vs previous ${prevAudioElementRef.current?.src.substring(0, 40) || 'none'}`);
-      debug.log(`SOURCE CHANGE: Are they the same object? ${!hasAudioElementChanged}`);
-      
-      // Store current audio element reference for future comparisons
-      prevAudioElementRef.current = audioElement;
-    } else {
-      debug.log('No audio element provided');
-    }
-  }, [audioElement]);
-
-  useEffect(() => {
-    // Always try to ensure audio context is created, even if not playing
-    ensureAudioContextState();
-    
-    // Reduce check frequency to reduce overhead
-    const checkInterval = setInterval(() => {
-      ensureAudioContextState();
-    }, 3000); // Increased from 1000ms to 3000ms
-    
-    return () => {
-      clearInterval(checkInterval);
-      stopVisualization();
-      
-      // Clean up audio context when component unmounts
-      if (audioCtx) {
-        audioCtx.close().catch(err => {
-          debug.error(`Error closing audio context: ${err.message}`);
-        });
-      }
-    };
-  }, []);
-
-  // Set up the audio analyser when the audio element changes
-  useEffect(() => {
-    debug.log('==== AUDIO ANALYZER SETUP ====');
-    
-    if (!audioElement) {
-      debug.log('Audio element: none');
-      debug.log('No audio element provided, skipping setup');
-      return;
-    }
-    
-    debug.log(`Audio element: ${audioElement.src.substring(0, 40)}`);
-    debug.log(`isPlaying: ${isPlaying}, isConnected: ${connectedAudioElements.has(audioElement)}`);
-    
-    // Create AudioContext even if not playing - we want to maintain the context
-    if (!audioCtx) {
-      try {
-        const newAudioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-        setAudioCtx(newAudioCtx);
-        debug.log('Created new audio context');
-      } catch (error) {
-        debug.error(`Error creating audio context: ${(error as Error).message}`);
-        return;
-      }
-    }
-
-    // Always try to set up the audio analyzer, even if not playing
-    // This ensures we have the connections ready when playback starts
-    const setupAudioAnalyser = async () => {
-      if (!audioCtx) {
-        debug.log('Audio context not available');
-        return;
-      }
-
-      try {
-        // Resume the audio context if it's suspended
-        if (audioCtx.state === 'suspended') {
-          await audioCtx.resume();
-          debug.log('Resumed audio context');
-        }
-
-        let source: MediaElementAudioSourceNode;
-        
-        // Check if this audio element is already connected
-        if (connectedAudioElements.has(audioElement)) {
-          // Reuse the existing source
-          source = connectedAudioElements.get(audioElement)!;
-          debug.log('Reusing existing audio source connection');
-        } else {
-          // Create a new connection
-          source = audioCtx.createMediaElementSource(audioElement);
-          connectedAudioElements.set(audioElement, source);
-          debug.log('Created new audio source connection');
-        }
-
-        // Create analyzer if needed
-        if (!analyser) {
-          const newAnalyser = audioCtx.createAnalyser();
-          newAnalyser.fftSize = 2048;
-          setAnalyser(newAnalyser);
-          debug.log('Created new analyser');
-        }
-
-        // Connect the source to the analyser
-        if (analyser) {
-          source.connect(analyser);
-          analyser.connect(audioCtx.destination);
-          debug.log(`Setting up audio analyzer for ${audioElement.src.substring(0, 40)}...`);
-          
-          // Only start visualization if we're playing
-          if (isPlaying) {
-            startVisualization();
-          }
-        }
-      } catch (error) {
-        debug.error(`Error setting up audio analyser: ${(error as Error).message}`);
-      }
-    };
-
-    setupAudioAnalyser();
-  }, [audioElement, audioCtx]);
+  }, [isPlaying, analyser, secondaryAnalyser]);
 
   const startVisualization = () => {
     debug.log('==== START VISUALIZATION ====');
-    if (!canvasRef.current || !analyser) {
-      debug.log(`Cannot start visualization: canvas ref: ${canvasRef.current ? 'available' : 'none'}, analyser: ${analyser ? 'available' : 'none'}`);
+    if (!sendRef.current || !analyser) {
+      debug.log(`Cannot start visualization: renderer: ${sendRef.current ? 'available' : 'none'}, analyser: ${analyser ? 'available' : 'none'}`);
       return;
     }
-    if (!audioElement) {
-      debug.log('No audio element for visualization');
-      return;
-    }
-    
-    debug.log(`Animation frame ref: ${animationFrameRef.current ? animationFrameRef.current : 'none'}`);
     
     // Skip if already running
     if (animationFrameRef.current !== null) {
@@ -243,36 +144,6 @@ export const AudioWaveform = forwardRef<AudioWaveformRef, AudioWaveformProps>((p
       return;
     }
     
-    const bufferLength = analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-    debug.log(`Created data array with ${bufferLength} bins`);
-    
-    const canvas = canvasRef.current;
-    const context = canvas.getContext('2d');
-    
-    if (!context) {
-      debug.log('Canvas context not available');
-      return;
-    }
-    
-    // Update canvas dimensions to match its display size
-    const displayWidth = canvas.clientWidth;
-    const displayHeight = canvas.clientHeight || height;
-    
-    // Ensure the canvas buffer size matches its display size for proper rendering
-    if (canvas.width !== displayWidth || canvas.height !== displayHeight) {
-      canvas.width = displayWidth;
-      canvas.height = displayHeight;
-      debug.log(`Resized canvas to ${displayWidth}x${displayHeight}`);
-    }
-    
-    const canvasWidth = canvas.width;
-    const canvasHeight = canvas.height;
-    
-    // Pre-calculate values that won't change during animation to improve performance
-    const sliceWidth = canvasWidth / bufferLength;
-    const halfHeight = canvasHeight / 2;
-    
     let previousAnimationTimestamp = 0;
     const targetFPS = 30; // Limit to 30 FPS for better performance
     const frameInterval = 1000 / targetFPS;
@@ -288,157 +159,62 @@ export const AudioWaveform = forwardRef<AudioWaveformRef, AudioWaveformProps>((p
       }
       previousAnimationTimestamp = timestamp;
       
-      // Get frequency data
-      analyser.getByteTimeDomainData(dataArray);
-      
-      // Clear canvas
-      context.fillStyle = backgroundColor;
-      context.fillRect(0, 0, canvasWidth, canvasHeight);
-      
-      // Draw waveform with glow effect
-      // First draw a wider, semi-transparent line for the glow
-      context.lineWidth = 4;
-      context.strokeStyle = `${color}80`; // Add 50% transparency for glow
-      context.beginPath();
-      
-      let x = 0;
-      
-      // Draw only every other point for better performance on high resolutions
-      const step = window.innerWidth > 1000 ? 2 : 1;
-      
-      for (let i = 0; i < bufferLength; i += step) {
-        const v = dataArray[i] / 128.0;
-        const y = v * halfHeight;
-        
-        if (i === 0) {
-          context.moveTo(x, y);
-        } else {
-          context.lineTo(x, y);
-        }
-        
-        x += sliceWidth * step;
+      // Reading the analyser has to happen here; drawing happens in the renderer
+      const timeDomain = new Uint8Array(analyser.fftSize);
+      analyser.getByteTimeDomainData(timeDomain);
+      let frequency: Uint8Array | null = null;
+      if (styleRef.current.mode === 'spectrum') {
+        frequency = new Uint8Array(analyser.frequencyBinCount);
+        analyser.getByteFrequencyData(frequency);
       }
-      
-      context.lineTo(canvasWidth, halfHeight);
-      context.stroke();
-      
-      // Then draw the main, thinner, fully opaque line
-      context.lineWidth = 2.5;
-      context.strokeStyle = color;
-      context.beginPath();
-      
-      x = 0;
-      for (let i = 0; i < bufferLength; i += step) {
-        const v = dataArray[i] / 128.0;
-        const y = v * halfHeight;
-        
-        if (i === 0) {
-          context.moveTo(x, y);
-        } else {
-          context.lineTo(x, y);
-        }
-        
-        x += sliceWidth * step;
+      let secondary: Uint8Array | null = null;
+      if (styleRef.current.mode === 'lissajous' && secondaryAnalyser) {
+        secondary = new Uint8Array(secondaryAnalyser.fftSize);
+        secondaryAnalyser.getByteTimeDomainData(secondary);
       }
       
-      context.lineTo(canvasWidth, halfHeight);
-      context.stroke();
+      const frame: WaveformFrame = { timeDomain, frequency, secondary, sampleRate: analyser.context.sampleRate, time: timestamp };
+      const transfer: Transferable[] = [timeDomain.buffer];
+      if (frequency) transfer.push(frequency.buffer);
+      if (secondary) transfer.push(secondary.buffer);
+      sendRef.current?.({ type: 'frame', frame }, transfer);
     };
     
     // Start the animation
     previousAnimationTimestamp = performance.now();
     draw(previousAnimationTimestamp);
-    debug.log(`Audio visualization started, element: ${audioElement.src}`);
+    debug.log('Audio visualization started');
   };
 
   const stopVisualization = () => {
     debug.log('==== STOP VISUALIZATION ====');
-    debug.log(`Animation frame ref: ${animationFrameRef.current ? animationFrameRef.current : 'none'}`);
     
     if (animationFrameRef.current !== null) {
       cancelAnimationFrame(animationFrameRef.current);
       animationFrameRef.current = null;
       debug.log(`Cancelled animation frame`);
-    } else {
-      debug.log('No animation frame to cancel');
     }
     
-    // Don't disconnect audio - we want to keep the connection alive
-    if (audioElement) {
-      debug.log(`Audio visualization stopped, element: ${audioElement.src}`);
-    } else {
-      debug.log('Audio visualization stopped, no element');
-    }
-  };
-
-  const ensureAudioContextState = async () => {
-    if (!audioCtx) {
-      // Try to create a new audio context if we don't have one
-      if (audioElement) {
-        try {
-          const newAudioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-          setAudioCtx(newAudioCtx);
-          debug.log('Created new audio context during state check');
-        } catch (error) {
-          debug.error(`Error creating audio context: ${(error as Error).message}`);
-        }
-      }
-      return;
-    }
-    
-    // Only resume if suspended and we need it active (when playing or connecting new elements)
-    if (audioCtx.state === 'suspended' && (isPlaying || !connectedAudioElements.has(audioElement!))) {
-      try {
-        await audioCtx.resume();
-        debug.log('Successfully resumed audio context');
-      } catch (error) {
-        debug.error(`Failed to resume audio context: ${(error as Error).message}`);
-      }
-    }
-    
-    // Don't constantly try to connect if not needed
-    if (audioElement && !connectedAudioElements.has(audioElement) && audioCtx.state === 'running') {
-      try {
-        const source = audioCtx.createMediaElementSource(audioElement);
-        connectedAudioElements.set(audioElement, source);
-        
-        // Create analyzer if needed
-        if (!analyser) {
-          const newAnalyser = audioCtx.createAnalyser();
-          newAnalyser.fftSize = 2048;
-          setAnalyser(newAnalyser);
-          debug.log('Created new analyser during state check');
-        }
-        
-        // Connect the source to the analyser
-        if (analyser) {
-          source.connect(analyser);
-          analyser.connect(audioCtx.destination);
-          debug.log('Connected audio element during state check');
-        }
-      } catch (error) {
-        debug.error(`Failed to connect audio element: ${(error as Error).message}`);
-      }
-    }
+    debug.log('Audio visualization stopped');
   };
 
   useEffect(() => {
     debug.log('AudioWaveform mounted');
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    sendRef.current = attachRenderer(canvas, styleRef.current);
     
-    // Handle window resize events to adjust canvas size
+    // The renderer owns the canvas buffer, so size changes are sent to it
     const handleResize = () => {
-      if (canvasRef.current) {
-        const canvas = canvasRef.current;
-        const displayWidth = canvas.clientWidth;
-        const displayHeight = canvas.clientHeight || height;
-        
-        if (canvas.width !== displayWidth || canvas.height !== displayHeight) {
-          canvas.width = displayWidth;
-          canvas.height = displayHeight;
-          debug.log(`Resized canvas on window resize to ${displayWidth}x${displayHeight}`);
-        }
-      }
+      sendRef.current?.({
+        type: 'resize',
+        width: canvas.clientWidth,
+        height: canvas.clientHeight || height,
+        pixelRatio: window.devicePixelRatio || 1,
+      });
     };
+    handleResize();
     
     window.addEventListener('resize', handleResize);
     
@@ -446,19 +222,8 @@ export const AudioWaveform = forwardRef<AudioWaveformRef, AudioWaveformProps>((p
       debug.log('AudioWaveform unmounted');
       stopVisualization();
       window.removeEventListener('resize', handleResize);
-      
-      // Clean up audio context and connections
-      if (audioCtx) {
-        if (audioCtx.state !== 'closed') {
-          try {
-            audioCtx.close();
-          } catch (e) {
-            debug.error('Error closing audio context:', e);
-          }
-        }
-        setAudioCtx(null);
-        setAnalyser(null);
-      }
+      releaseRenderer(canvas);
+      sendRef.current = null;
     };
   }, []);
 
@@ -475,8 +240,6 @@ export const AudioWaveform = forwardRef<AudioWaveformRef, AudioWaveformProps>((p
       <div style={{ width: '100%', position: 'relative', maxWidth: '100%' }}>
         <canvas
           ref={canvasRef}
-          width={typeof width === 'number' ? width : 800} // Fallback width for canvas sizing
-          height={height}
           style={{
             backgroundColor,
             borderRadius: '4px',
@@ -492,8 +255,8 @@ export const AudioWaveform = forwardRef<AudioWaveformRef, AudioWaveformProps>((p
         <div
           style={{
             position: 'absolute',
-            left: `${(startTime / (audioElement?.duration || 1)) * 100}%`,
-            width: `${((endTime - startTime) / (audioElement?.duration || 1)) * 100}%`,
+            left: `${(startTime / duration) * 100}%`,
+            width: `${((endTime - startTime) / duration) * 100}%`,
             height: '100%',
             top: 0,
             backgroundColor: 'rgba(0, 123, 255, 0.1)',
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { DrillSettings, DrillState, DEFAULT_DRILL_SETTINGS } from '../hooks/useDrillLoop';
+
+interface DrillPanelProps {
+  state: DrillState;
+  isActive: boolean;
+  canStart: boolean;
+  onStart: (settings: DrillSettings) => void;
+  onStop: () => void;
+}
+
+const PHASE_LABELS: Record<DrillState['phase'], string> = {
+  idle: 'Ready',
+  target: 'Listen…',
+  gap: 'Get ready…',
+  'count-in': 'Count in',
+  recording: 'Your turn — recording',
+  processing: 'Saving take…',
+  take: 'Playing your take',
+};
+
+const PHASE_COLORS: Record<DrillState['phase'], string> = {
+  idle: 'text-gray-600',
+  target: 'text-green-600',
+  gap: 'text-gray-600',
+  'count-in': 'text-yellow-600',
+  recording: 'text-red-600',
+  processing: 'text-gray-600',
+  take: 'text-blue-600',
+};
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+const NumberField = ({ label, value, min, max, step, disabled, onChange }: NumberFieldProps) => (
+  <label className="flex flex-col text-xs text-gray-600">
+    {label}
+    <input
+      type="number"
+      className="border rounded px-2 py-1 text-sm text-gray-800 w-24 mt-1"
+      value={value}
+      min={min}
+      max={max}
+      step={step}
+      disabled={disabled}
+      onChange={(e) => {
+        const parsed = Number(e.target.value);
+        if (!Number.isNaN(parsed)) onChange(Math.max(min, Math.min(max, parsed)));
+      }}
+    />
+  </label>
+);
+
+/**
+ * Settings and status for loop practice: listen, count in, record, play back, repeat
+ */
+export const DrillPanel = ({ state, isActive, canStart, onStart, onStop }: DrillPanelProps) => {
+  const [settings, setSettings] = useState<DrillSettings>(DEFAULT_DRILL_SETTINGS);
+
+  const update = (key: keyof DrillSettings) => (value: number) =>
+    setSettings(prev => ({ ...prev, [key]: value }));
+
+  const stopKeyLabel = state.settings.stopKey === 'Escape' ? 'Esc' : state.settings.stopKey;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 bg-gray-50">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <span className="text-sm font-semibold text-gray-700">Loop Practice</span>
+          {isActive ? (
+            <span className={`ml-3 text-sm font-medium ${PHASE_COLORS[state.phase]}`}>
+              {PHASE_LABELS[state.phase]}
+              {state.phase === 'count-in' && ` ${state.beatsLeft}`}
+              {` · ${state.repetition}/${state.settings.repetitions}`}
+            </span>
+          ) : state.completed && (
+            <span className="ml-3 text-sm text-green-600">Drill complete</span>
+          )}
+        </div>
+
+        <button
+          className={`${isActive ? 'bg-red-500 hover:bg-red-600' : canStart ? 'bg-indigo-500 hover:bg-indigo-600' : 'bg-gray-400 cursor-not-allowed'} text-white px-4 py-2 rounded-lg transition-colors`}
+          onClick={() => (isActive ? onStop() : onStart(settings))}
+          disabled={!isActive && !canStart}
+          title={isActive ? `Stop drill (${stopKeyLabel})` : 'Start drill'}
+        >
+          {isActive ? 'Stop Drill' : 'Start Drill'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <NumberField label="Repetitions" value={settings.repetitions} min={1} max={50} step={1} disabled={isActive} onChange={update('repetitions')} />
+        <NumberField label="Count-in beats" value={settings.countInBeats} min={0} max={8} step={1} disabled={isActive} onChange={update('countInBeats')} />
+        <NumberField label="Gap after target (ms)" value={settings.gapAfterTargetMs} min={0} max={10000} step={100} disabled={isActive} onChange={update('gapAfterTargetMs')} />
+        <NumberField label="Gap after take (ms)" value={settings.gapAfterTakeMs} min={0} max={10000} step={100} disabled={isActive} onChange={update('gapAfterTakeMs')} />
+        <NumberField label="Record margin (ms)" value={settings.recordMarginMs} min={0} max={5000} step={100} disabled={isActive} onChange={update('recordMarginMs')} />
+      </div>
+
+      {!canStart && !isActive && (
+        <p className="text-xs text-gray-500 mt-2">Select some words and a microphone to start a drill.</p>
+      )}
+      {isActive && (
+        <p className="text-xs text-gray-500 mt-2">Press {stopKeyLabel} to stop.</p>
+      )}
+    </div>
+  );
+};
+
+export default DrillPanel;
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { useStreamAnalyser } from '../hooks/useStreamAnalyser';
+import { CLIP_LEVEL, levelToDb, LOUDNESS_ADVICE, measureLevel, QUIET_RMS_DB, SILENT_PEAK_DB } from '../utils/loudness';
+
+interface InputLevelMeterProps {
+  stream: MediaStream | null;
+}
+
+interface MeterReading {
+  rmsDb: number;
+  peakDb: number;      // held peak
+  clipping: boolean;
+  warning: 'quiet' | 'silent' | null;
+}
+
+// Bottom of the meter scale
+const METER_FLOOR_DB = -60;
+// How long peaks and clip lights stay up after the signal drops
+const PEAK_HOLD_MS = 1000;
+const CLIP_HOLD_MS = 1500;
+// Sustained quiet input before warning, so pauses between words don't trigger it
+const LOW_LEVEL_WARNING_MS = 2000;
+const UPDATE_INTERVAL_MS = 50;
+
+const IDLE_READING: MeterReading = { rmsDb: -Infinity, peakDb: -Infinity, clipping: false, warning: null };
+
+const toPercent = (db: number) =>
+  Math.max(0, Math.min(100, ((db - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100));
+
+/**
+ * Live RMS/peak meter for a mic stream, with clip and low-level warnings
+ */
+export const InputLevelMeter = ({ stream }: InputLevelMeterProps) => {
+  const [reading, setReading] = useState<MeterReading>(IDLE_READING);
+  const analyser = useStreamAnalyser(stream);
+
+  useEffect(() => {
+    if (!analyser) {
+      setReading(IDLE_READING);
+      return;
+    }
+
+    const samples = new Float32Array(analyser.fftSize);
+    let heldPeak = 0;
+    let heldPeakAt = 0;
+    let clippedAt = -Infinity;
+    let quietSince: number | null = null;
+    let silentSince: number | null = null;
+    let lastUpdate = 0;
+    let frame = 0;
+
+    const update = (now: number) => {
+      frame = requestAnimationFrame(update);
+      if (now - lastUpdate < UPDATE_INTERVAL_MS) return;
+      lastUpdate = now;
+
+      analyser.getFloatTimeDomainData(samples);
+      const { rms, peak } = measureLevel(samples);
+      const rmsDb = levelToDb(rms);
+      const peakDb = levelToDb(peak);
+
+      if (peak >= heldPeak || now - heldPeakAt > PEAK_HOLD_MS) {
+        heldPeak = peak;
+        heldPeakAt = now;
+      }
+      if (peak >= CLIP_LEVEL) clippedAt = now;
+
+      quietSince = rmsDb < QUIET_RMS_DB ? quietSince ?? now : null;
+      silentSince = peakDb < SILENT_PEAK_DB ? silentSince ?? now : null;
+      const warning = silentSince !== null && now - silentSince > LOW_LEVEL_WARNING_MS
+        ? 'silent'
+        : quietSince !== null && now - quietSince > LOW_LEVEL_WARNING_MS
+          ? 'quiet'
+          : null;
+
+      setReading({
+        rmsDb,
+        peakDb: levelToDb(heldPeak),
+        clipping: now - clippedAt < CLIP_HOLD_MS,
+        warning,
+      });
+    };
+    frame = requestAnimationFrame(update);
+
+    return () => cancelAnimationFrame(frame);
+  }, [analyser]);
+
+  const rmsColor = reading.rmsDb > -6 ? 'bg-red-500' : reading.rmsDb > -18 ? 'bg-yellow-400' : 'bg-green-500';
+  const message = reading.clipping ? LOUDNESS_ADVICE.clipped : reading.warning ? LOUDNESS_ADVICE[reading.warning] : null;
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1 h-3 bg-gray-200 rounded overflow-hidden" title="Input level (dBFS)">
+          <div
+            className={`absolute inset-y-0 left-0 ${rmsColor}`}
+            style={{ width: `${toPercent(reading.rmsDb)}%` }}
+          />
+          {Number.isFinite(reading.peakDb) && (
+            <div
+              className="absolute inset-y-0 w-0.5 bg-gray-800"
+              style={{ left: `${toPercent(reading.peakDb)}%` }}
+            />
+          )}
+        </div>
+        <span className="text-xs text-gray-600 w-16 text-right tabular-nums">
+          {stream && Number.isFinite(reading.peakDb) ? `${reading.peakDb.toFixed(1)} dB` : '—'}
+        </span>
+        <span
+          className={`text-xs font-bold px-1.5 rounded ${reading.clipping ? 'bg-red-600 text-white' : 'bg-gray-200 text-gray-400'}`}
+          title="Lights when the input reaches full scale"
+        >
+          CLIP
+        </span>
+      </div>
+      {stream && message && (
+        <p className={`text-xs mt-1 ${reading.clipping ? 'text-red-600' : 'text-yellow-700'}`}>{message}</p>
+      )}
+    </div>
+  );
+};
+
+export default InputLevelMeter;
@@ -0,0 +1,196 @@
+import { useEffect, useRef } from 'react';
+import { detectLatestPitch, PitchPoint } from '../utils/pitch';
+import { TimeStamp } from './AudioVisualizer';
+import { median } from '../utils/stats';
+
+interface LivePitchTraceProps {
+  analyser: AnalyserNode | null;  // fed by the live mic stream
+  guideContour?: PitchPoint[];    // target pitch, in clip time
+  guideStart?: number;            // clip time the guide starts from when recording begins
+  guideRate?: number;             // playback rate being practised; the guide moves at this speed
+  words?: TimeStamp[];
+  height?: number;
+  guideColor?: string;
+  liveColor?: string;
+}
+
+// Same log axis as PitchGraph so the two read alike
+const MIN_HZ = 60;
+const MAX_HZ = 420;
+const GRID_HZ = [100, 150, 200, 300, 400];
+
+// Seconds shown across the canvas, and where "now" sits
+const WINDOW_SECONDS = 4;
+const NOW_FRACTION = 0.3;
+// The guide starts this far right of "now" so the first word can be seen coming
+export const LEAD_IN_SECONDS = 0.5;
+// Pitch is read about as often as the offline tracker's hop
+const ANALYSIS_INTERVAL_MS = 20;
+const MAX_GAP_SECONDS = 0.08;
+
+// Median of the last few estimates hides single-frame octave jumps
+const SMOOTHING_FRAMES = 3;
+
+/**
+ * Scrolling pitch trace of the mic input, following the target's contour like a karaoke pitch bar
+ */
+export const LivePitchTrace = ({
+  analyser,
+  guideContour = [],
+  guideStart = 0,
+  guideRate = 1,
+  words = [],
+  height = 160,
+  guideColor = '#00ff00',
+  liveColor = '#00bfff',
+}: LivePitchTraceProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Latest guide props, read by the animation loop without restarting it
+  const guideRef = useRef({ guideContour, guideStart, guideRate, words });
+  guideRef.current = { guideContour, guideStart, guideRate, words };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !analyser) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const block = new Float32Array(analyser.fftSize);
+    const sampleRate = analyser.context.sampleRate;
+    const trace: PitchPoint[] = [];
+    const recent: number[] = [];
+    const startedAt = performance.now();
+    let lastAnalysis = 0;
+    let frame = 0;
+
+    const toY = (hz: number) =>
+      height - ((Math.log(hz) - Math.log(MIN_HZ)) / (Math.log(MAX_HZ) - Math.log(MIN_HZ))) * height;
+
+    const drawLine = (points: PitchPoint[], toX: (time: number) => number, color: string, lineWidth: number) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = lineWidth;
+      ctx.lineCap = 'round';
+      ctx.beginPath();
+      let previous: PitchPoint | null = null;
+      points.forEach(point => {
+        if (point.frequency === null) {
+          previous = null;
+          return;
+        }
+        const x = toX(point.time);
+        const y = toY(point.frequency);
+        if (previous && point.time - previous.time <= MAX_GAP_SECONDS) {
+          ctx.lineTo(x, y);
+        } else {
+          ctx.moveTo(x, y);
+        }
+        previous = point;
+      });
+      ctx.stroke();
+    };
+
+    const render = (now: number) => {
+      frame = requestAnimationFrame(render);
+      const elapsed = (now - startedAt) / 1000;
+
+      if (now - lastAnalysis >= ANALYSIS_INTERVAL_MS) {
+        lastAnalysis = now;
+        analyser.getFloatTimeDomainData(block);
+        const result = detectLatestPitch({ samples: block, sampleRate });
+        if (result) {
+          recent.push(result.frequency);
+          if (recent.length > SMOOTHING_FRAMES) recent.shift();
+        } else {
+          recent.length = 0;
+        }
+        trace.push({
+          time: elapsed,
+          frequency: result ? median(recent) : null,
+          confidence: result ? result.confidence : 0,
+        });
+        // Keep only what can still be on screen
+        while (trace.length > 0 && trace[0].time < elapsed - WINDOW_SECONDS) trace.shift();
+      }
+
+      const dpr = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth;
+      if (canvas.width !== width * dpr || canvas.height !== height * dpr) {
+        canvas.width = width * dpr;
+        canvas.height = height * dpr;
+      }
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(0, 0, width, height);
+
+      const nowX = width * NOW_FRACTION;
+      const toX = (time: number) => nowX + ((time - elapsed) / WINDOW_SECONDS) * width;
+
+      // Frequency grid
+      ctx.font = '10px sans-serif';
+      ctx.lineWidth = 1;
+      GRID_HZ.forEach(hz => {
+        const y = Math.floor(toY(hz)) + 0.5;
+        ctx.strokeStyle = 'rgba(156, 163, 175, 0.25)';
+        ctx.beginPath();
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+        ctx.stroke();
+        ctx.fillStyle = 'rgba(156, 163, 175, 0.8)';
+        ctx.fillText(`${hz}Hz`, 4, y - 2);
+      });
+
+      // Guide: the target's contour moved onto recording time
+      const guide = guideRef.current;
+      const toRecordingTime = (clipTime: number) => (clipTime - guide.guideStart) / guide.guideRate + LEAD_IN_SECONDS;
+      const guideX = (clipTime: number) => toX(toRecordingTime(clipTime));
+
+      guide.words.forEach(word => {
+        const startX = guideX(word.start);
+        const endX = guideX(word.stop);
+        if (endX < 0 || startX > width) return;
+        ctx.fillStyle = 'rgba(229, 231, 235, 0.9)';
+        ctx.textAlign = 'center';
+        ctx.fillText(word.word, (startX + endX) / 2, height - 6);
+        ctx.textAlign = 'left';
+      });
+      drawLine(guide.guideContour, guideX, `${guideColor}66`, 8);
+
+      // Live trace up to now
+      drawLine(trace, toX, liveColor, 2.5);
+
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(Math.floor(nowX) + 0.5, 0);
+      ctx.lineTo(Math.floor(nowX) + 0.5, height);
+      ctx.stroke();
+
+      const latest = trace[trace.length - 1];
+      if (latest?.frequency) {
+        ctx.fillStyle = liveColor;
+        ctx.beginPath();
+        ctx.arc(nowX, toY(latest.frequency), 4, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    };
+    frame = requestAnimationFrame(render);
+
+    return () => cancelAnimationFrame(frame);
+  }, [analyser, height, guideColor, liveColor]);
+
+  return (
+    <div className="relative w-full">
+      <canvas
+        ref={canvasRef}
+        style={{ width: '100%', height: `${height}px`, display: 'block', borderRadius: '4px' }}
+      />
+      <div className="absolute top-1 right-2 flex space-x-3 text-xs">
+        {guideContour.length > 0 && <span style={{ color: guideColor }}>■ Target</span>}
+        <span style={{ color: liveColor }}>■ Live</span>
+      </div>
+    </div>
+  );
+};
+
+export default LivePitchTrace;
@@ -0,0 +1,168 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAudioTransport } from '../hooks/useAudioTransport';
+import { getSharedAudioContext } from '../utils/audioPlayback';
+import { ChannelSettings, createMixerChannel, MAX_CHANNEL_GAIN, MixerChannel } from '../utils/audioMixer';
+
+interface OverlayMixerProps {
+  targetBuffer: AudioBuffer;
+  takeBuffer: AudioBuffer;
+  startTime: number;   // selection range in the target
+  endTime: number;
+  alignOffset: number; // seconds the take's speech starts after the target's
+}
+
+// Transport tag for overlay playback
+const OVERLAY_TAG = 'overlay';
+
+const NUDGE_LIMIT_MS = 1000;
+const NUDGE_STEPS_MS = [-50, -10, 10, 50];
+
+const DEFAULT_TARGET: ChannelSettings = { gain: 1, pan: -0.8 };
+const DEFAULT_TAKE: ChannelSettings = { gain: 1, pan: 0.8 };
+
+interface ChannelStripProps {
+  label: string;
+  color: string;
+  settings: ChannelSettings;
+  onChange: (settings: ChannelSettings) => void;
+}
+
+const ChannelStrip = ({ label, color, settings, onChange }: ChannelStripProps) => (
+  <div className="flex flex-col gap-1 w-48">
+    <span className={`text-xs font-semibold ${color}`}>{label}</span>
+    <label className="flex items-center justify-between text-xs text-gray-600">
+      Gain
+      <input
+        type="range"
+        className="w-28 ml-2"
+        min={0}
+        max={MAX_CHANNEL_GAIN}
+        step={0.05}
+        value={settings.gain}
+        onChange={(e) => onChange({ ...settings, gain: Number(e.target.value) })}
+      />
+      <span className="w-8 text-right">{Math.round(settings.gain * 100)}%</span>
+    </label>
+    <label className="flex items-center justify-between text-xs text-gray-600">
+      Pan
+      <input
+        type="range"
+        className="w-28 ml-2"
+        min={-1}
+        max={1}
+        step={0.1}
+        value={settings.pan}
+        onChange={(e) => onChange({ ...settings, pan: Number(e.target.value) })}
+      />
+      <span className="w-8 text-right">
+        {settings.pan === 0 ? 'C' : `${settings.pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(settings.pan) * 100)}`}
+      </span>
+    </label>
+  </div>
+);
+
+/**
+ * Plays the target selection and the aligned take at the same time,
+ * each through its own gain and pan, with a nudge to fine-tune the offset
+ */
+export const OverlayMixer = ({ targetBuffer, takeBuffer, startTime, endTime, alignOffset }: OverlayMixerProps) => {
+  const { transport, state: transportState } = useAudioTransport();
+  const [target, setTarget] = useState<ChannelSettings>(DEFAULT_TARGET);
+  const [take, setTake] = useState<ChannelSettings>(DEFAULT_TAKE);
+  const [nudgeMs, setNudgeMs] = useState<number>(0);
+  const channelsRef = useRef<{ target: MixerChannel; take: MixerChannel } | null>(null);
+
+  const isPlaying = transportState.mode === 'playing-overlay' && transportState.tag === OVERLAY_TAG;
+
+  // Channel strips feed the transport's master gain, so the page volume still applies
+  const getChannels = () => {
+    if (!channelsRef.current) {
+      const context = getSharedAudioContext();
+      const output = transport.getOutput();
+      channelsRef.current = {
+        target: createMixerChannel(context, output, target),
+        take: createMixerChannel(context, output, take),
+      };
+    }
+    return channelsRef.current;
+  };
+
+  useEffect(() => {
+    channelsRef.current?.target.apply(target);
+  }, [target]);
+
+  useEffect(() => {
+    channelsRef.current?.take.apply(take);
+  }, [take]);
+
+  useEffect(() => {
+    return () => {
+      if (transport.getState().mode === 'playing-overlay') transport.stop();
+      channelsRef.current?.target.disconnect();
+      channelsRef.current?.take.disconnect();
+      channelsRef.current = null;
+    };
+  }, [transport]);
+
+  const play = (nudge: number) => {
+    const channels = getChannels();
+    transport.playOverlay([
+      { buffer: targetBuffer, start: startTime, end: endTime, delay: 0, output: channels.target.input },
+      // Shift the take so both speech onsets land together, then apply the nudge
+      { buffer: takeBuffer, start: 0, end: takeBuffer.duration, delay: nudge / 1000 - alignOffset, output: channels.take.input },
+    ], OVERLAY_TAG);
+  };
+
+  const handleNudge = (value: number) => {
+    const clamped = Math.max(-NUDGE_LIMIT_MS, Math.min(NUDGE_LIMIT_MS, value));
+    setNudgeMs(clamped);
+    // Restart so the new offset is audible straight away
+    if (isPlaying) play(clamped);
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 bg-gray-50">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm font-semibold text-gray-700">Overlay</span>
+        <button
+          className={`${isPlaying ? 'bg-red-500 hover:bg-red-600' : 'bg-purple-500 hover:bg-purple-600'} text-white px-4 py-2 rounded-lg transition-colors`}
+          onClick={() => (isPlaying ? transport.stop() : play(nudgeMs))}
+          title="Play the target and your take together"
+        >
+          {isPlaying ? 'Stop' : 'Play Both'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        <ChannelStrip label="Target" color="text-green-600" settings={target} onChange={setTarget} />
+        <ChannelStrip label="Your take" color="text-blue-600" settings={take} onChange={setTake} />
+
+        <div className="flex flex-col gap-1">
+          <span className="text-xs font-semibold text-gray-700">Offset nudge</span>
+          <div className="flex items-center gap-1">
+            {NUDGE_STEPS_MS.map(step => (
+              <button
+                key={step}
+                className="border rounded px-2 py-0.5 text-xs text-gray-700 bg-white hover:bg-gray-100"
+                onClick={() => handleNudge(nudgeMs + step)}
+                title={`Move your take ${Math.abs(step)} ms ${step < 0 ? 'earlier' : 'later'}`}
+              >
+                {step > 0 ? `+${step}` : step}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-xs text-gray-600">
+            <span>{nudgeMs > 0 ? `+${nudgeMs}` : nudgeMs} ms</span>
+            {nudgeMs !== 0 && (
+              <button className="text-blue-600 hover:underline" onClick={() => handleNudge(0)}>
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OverlayMixer;
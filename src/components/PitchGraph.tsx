@@ -0,0 +1,134 @@
+import { useEffect, useRef } from 'react';
+import { PitchPoint } from '../utils/pitch';
+import { TimeStamp } from './AudioVisualizer';
+
+interface PitchGraphProps {
+  targetContour: PitchPoint[];
+  takeContour?: PitchPoint[];
+  words?: TimeStamp[];
+  startTime: number;
+  endTime: number;
+  height?: number;
+  targetColor?: string;
+  takeColor?: string;
+}
+
+// Frequency range of the vertical axis (log scale)
+const MIN_HZ = 60;
+const MAX_HZ = 420;
+const GRID_HZ = [100, 150, 200, 300, 400];
+
+// Gaps longer than this between voiced points break the line
+const MAX_GAP_SECONDS = 0.05;
+
+/**
+ * Pitch-over-time graph for the target selection with the take's contour overlaid
+ */
+export const PitchGraph = ({
+  targetContour,
+  takeContour = [],
+  words = [],
+  startTime,
+  endTime,
+  height = 160,
+  targetColor = '#00ff00',
+  takeColor = '#00bfff',
+}: PitchGraphProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Match the canvas buffer to its display size for crisp lines
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+
+    const span = Math.max(0.001, endTime - startTime);
+    const toX = (time: number) => ((time - startTime) / span) * width;
+    const toY = (hz: number) =>
+      height - ((Math.log(hz) - Math.log(MIN_HZ)) / (Math.log(MAX_HZ) - Math.log(MIN_HZ))) * height;
+
+    // Frequency grid
+    ctx.font = '10px sans-serif';
+    ctx.lineWidth = 1;
+    GRID_HZ.forEach(hz => {
+      const y = Math.floor(toY(hz)) + 0.5;
+      ctx.strokeStyle = 'rgba(156, 163, 175, 0.25)';
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+      ctx.stroke();
+      ctx.fillStyle = 'rgba(156, 163, 175, 0.8)';
+      ctx.fillText(`${hz}Hz`, 4, y - 2);
+    });
+
+    // Word boundaries from the timestamps
+    words.forEach(word => {
+      const startX = Math.floor(toX(word.start)) + 0.5;
+      const endX = Math.floor(toX(word.stop)) + 0.5;
+      ctx.strokeStyle = 'rgba(156, 163, 175, 0.6)';
+      ctx.beginPath();
+      ctx.moveTo(startX, 0);
+      ctx.lineTo(startX, height);
+      ctx.moveTo(endX, 0);
+      ctx.lineTo(endX, height);
+      ctx.stroke();
+
+      ctx.fillStyle = '#e5e7eb';
+      ctx.textAlign = 'center';
+      ctx.fillText(word.word, (startX + endX) / 2, height - 6);
+      ctx.textAlign = 'left';
+    });
+
+    const drawContour = (contour: PitchPoint[], color: string, lineWidth: number) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = lineWidth;
+      ctx.beginPath();
+
+      let previous: PitchPoint | null = null;
+      contour.forEach(point => {
+        if (point.frequency === null || point.time < startTime || point.time > endTime) {
+          previous = null;
+          return;
+        }
+        const x = toX(point.time);
+        const y = toY(point.frequency);
+        if (previous && point.time - previous.time <= MAX_GAP_SECONDS) {
+          ctx.lineTo(x, y);
+        } else {
+          ctx.moveTo(x, y);
+        }
+        previous = point;
+      });
+
+      ctx.stroke();
+    };
+
+    drawContour(targetContour, targetColor, 3);
+    drawContour(takeContour, takeColor, 2);
+  }, [targetContour, takeContour, words, startTime, endTime, height, targetColor, takeColor]);
+
+  return (
+    <div className="relative w-full">
+      <canvas
+        ref={canvasRef}
+        style={{ width: '100%', height: `${height}px`, display: 'block', borderRadius: '4px' }}
+      />
+      <div className="absolute top-1 right-2 flex space-x-3 text-xs">
+        <span style={{ color: targetColor }}>■ Target</span>
+        {takeContour.length > 0 && <span style={{ color: takeColor }}>■ Your take</span>}
+      </div>
+    </div>
+  );
+};
+
+export default PitchGraph;
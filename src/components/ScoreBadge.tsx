@@ -0,0 +1,62 @@
+import { ImitationScore } from '../utils/scoring';
+
+interface ScoreBadgeProps {
+  score: ImitationScore | null;
+  isScoring?: boolean;
+  error?: string | null;
+}
+
+// Colour bands shared by the overall score and the sub-scores
+const scoreColor = (value: number) =>
+  value >= 75 ? 'text-green-600' : value >= 50 ? 'text-yellow-600' : 'text-red-600';
+
+/**
+ * Compact display of the latest take's imitation score and its sub-scores
+ */
+export const ScoreBadge = ({ score, isScoring = false, error = null }: ScoreBadgeProps) => {
+  if (isScoring) {
+    return (
+      <div className="flex items-center px-3 py-2 text-sm text-gray-500">
+        Scoring take...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center px-3 py-2 text-sm text-red-600" title={error}>
+        Score unavailable
+      </div>
+    );
+  }
+
+  if (!score) return null;
+
+  const subScores = [
+    { label: 'Pitch', value: score.pitch },
+    { label: 'Timing', value: score.timing },
+    { label: 'Loudness', value: score.loudness },
+  ];
+
+  return (
+    <div
+      className="flex items-center bg-white border border-gray-300 rounded-lg px-3 py-1 shadow-sm"
+      title={`Take started ${score.takeOffset.toFixed(2)}s in, spoken at ${score.speedRatio.toFixed(2)}x the target length`}
+    >
+      <div className="flex flex-col items-center mr-3">
+        <span className={`text-2xl font-bold leading-none ${scoreColor(score.overall)}`}>{score.overall}</span>
+        <span className="text-xs text-gray-500">score</span>
+      </div>
+      <div className="flex flex-col text-xs">
+        {subScores.map(({ label, value }) => (
+          <span key={label} className="flex justify-between w-24">
+            <span className="text-gray-600">{label}</span>
+            <span className={`font-medium ${scoreColor(value)}`}>{value}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScoreBadge;
@@ -0,0 +1,60 @@
+import { useEffect } from 'react';
+import { Shortcut } from '../hooks/useKeyboardShortcuts';
+
+interface ShortcutCheatSheetProps {
+  shortcuts: Shortcut[];
+  onClose: () => void;
+}
+
+/**
+ * Overlay listing the page's keyboard shortcuts
+ */
+export const ShortcutCheatSheet = ({ shortcuts, onClose }: ShortcutCheatSheetProps) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-lg p-5 w-full max-w-md"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Keyboard shortcuts"
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-bold">Keyboard Shortcuts</h2>
+          <button className="text-gray-500 hover:text-gray-700" onClick={onClose} aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <table className="w-full text-sm">
+          <tbody>
+            {shortcuts.map(shortcut => (
+              <tr key={`${shortcut.key}-${shortcut.shift}`} className="border-t border-gray-100">
+                <td className="py-1 pr-4 whitespace-nowrap">
+                  <kbd className="px-2 py-0.5 border border-gray-300 rounded bg-gray-50 font-mono text-xs">
+                    {shortcut.label}
+                  </kbd>
+                </td>
+                <td className="py-1 text-gray-700">{shortcut.description}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <p className="text-xs text-gray-500 mt-3">Shortcuts are off while typing in a field.</p>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutCheatSheet;
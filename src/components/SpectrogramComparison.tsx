@@ -0,0 +1,91 @@
+import { useMemo, useState } from 'react';
+import { SelectionRange } from './AudioVisualizer';
+import { SpectrogramView } from './SpectrogramView';
+import { SpectrogramControls } from './SpectrogramControls';
+import { useSpectrogram } from '../hooks/useSpectrogram';
+import { useTransportPosition } from '../hooks/useAudioTransport';
+import { WordAlignment } from '../utils/alignment';
+import { ColorMapName, FrequencyScale } from '../utils/spectrogram';
+
+interface SpectrogramComparisonProps {
+  targetBuffer: AudioBuffer;
+  selection: SelectionRange;
+  takeBuffer?: AudioBuffer | null;
+  wordAlignments?: WordAlignment[];
+  isTargetPlaying?: boolean;
+  isTakePlaying?: boolean;
+}
+
+/**
+ * Target selection's spectrogram stacked above the take's, with words marked on both
+ */
+export const SpectrogramComparison = ({
+  targetBuffer,
+  selection,
+  takeBuffer = null,
+  wordAlignments = [],
+  isTargetPlaying = false,
+  isTakePlaying = false,
+}: SpectrogramComparisonProps) => {
+  const [scale, setScale] = useState<FrequencyScale>('log');
+  const [colorMap, setColorMap] = useState<ColorMapName>('magma');
+  const position = useTransportPosition();
+
+  const target = useSpectrogram({
+    buffer: targetBuffer,
+    scale,
+    startTime: selection.startTime,
+    endTime: selection.endTime,
+  });
+  const take = useSpectrogram({ buffer: takeBuffer, scale });
+
+  // Selected words where they were spoken in the take
+  const takeWords = useMemo(
+    () => wordAlignments.map(({ word, takeStart, takeStop }) => ({ word: word.word, start: takeStart, stop: takeStop })),
+    [wordAlignments],
+  );
+
+  return (
+    <div>
+      <div className="flex justify-end mb-1">
+        <SpectrogramControls
+          scale={scale}
+          colorMap={colorMap}
+          onScaleChange={setScale}
+          onColorMapChange={setColorMap}
+        />
+      </div>
+
+      <span className="text-xs font-semibold text-green-600">Target</span>
+      <SpectrogramView
+        spectrogram={target.spectrogram}
+        isComputing={target.isComputing}
+        error={target.error}
+        colorMap={colorMap}
+        startTime={selection.startTime}
+        endTime={selection.endTime}
+        timeOffset={selection.startTime}
+        words={selection.words}
+        playhead={isTargetPlaying ? position : null}
+      />
+
+      {takeBuffer && (
+        <>
+          <span className="text-xs font-semibold text-blue-600 mt-2 inline-block">Your take</span>
+          <SpectrogramView
+            spectrogram={take.spectrogram}
+            isComputing={take.isComputing}
+            error={take.error}
+            colorMap={colorMap}
+            startTime={0}
+            endTime={takeBuffer.duration}
+            words={takeWords}
+            playhead={isTakePlaying ? position : null}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SpectrogramComparison;
@@ -0,0 +1,53 @@
+import { ColorMapName, FrequencyScale } from '../utils/spectrogram';
+
+interface SpectrogramControlsProps {
+  scale: FrequencyScale;
+  colorMap: ColorMapName;
+  onScaleChange: (scale: FrequencyScale) => void;
+  onColorMapChange: (colorMap: ColorMapName) => void;
+}
+
+const SCALE_LABELS: Record<FrequencyScale, string> = {
+  log: 'Log',
+  mel: 'Mel',
+};
+
+const COLOR_MAP_LABELS: Record<ColorMapName, string> = {
+  magma: 'Magma',
+  viridis: 'Viridis',
+  gray: 'Grayscale',
+};
+
+/**
+ * Frequency scale and colour map pickers for spectrogram views
+ */
+export const SpectrogramControls = ({ scale, colorMap, onScaleChange, onColorMapChange }: SpectrogramControlsProps) => (
+  <div className="flex items-center gap-2 text-xs text-gray-600">
+    <label className="flex items-center gap-1">
+      Scale
+      <select
+        className="border rounded px-1 py-0.5 bg-white text-gray-800"
+        value={scale}
+        onChange={(e) => onScaleChange(e.target.value as FrequencyScale)}
+      >
+        {(Object.keys(SCALE_LABELS) as FrequencyScale[]).map(option => (
+          <option key={option} value={option}>{SCALE_LABELS[option]}</option>
+        ))}
+      </select>
+    </label>
+    <label className="flex items-center gap-1">
+      Colours
+      <select
+        className="border rounded px-1 py-0.5 bg-white text-gray-800"
+        value={colorMap}
+        onChange={(e) => onColorMapChange(e.target.value as ColorMapName)}
+      >
+        {(Object.keys(COLOR_MAP_LABELS) as ColorMapName[]).map(option => (
+          <option key={option} value={option}>{COLOR_MAP_LABELS[option]}</option>
+        ))}
+      </select>
+    </label>
+  </div>
+);
+
+export default SpectrogramControls;
@@ -0,0 +1,106 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { ColorMapName, drawSpectrogram, renderSpectrogramImage, Spectrogram } from '../utils/spectrogram';
+
+interface SpectrogramWord {
+  word: string;
+  start: number;
+  stop: number;
+}
+
+interface SpectrogramViewProps {
+  spectrogram: Spectrogram | null;
+  colorMap: ColorMapName;
+  startTime: number;       // visible window, in the same time base as the words
+  endTime: number;
+  timeOffset?: number;     // time of the spectrogram's first frame
+  words?: SpectrogramWord[];
+  playhead?: number | null;
+  isComputing?: boolean;
+  error?: string | null;
+  height?: number;
+}
+
+/**
+ * Spectrogram over a time window with word boundaries and a playhead
+ */
+export const SpectrogramView = ({
+  spectrogram,
+  colorMap,
+  startTime,
+  endTime,
+  timeOffset = 0,
+  words = [],
+  playhead = null,
+  isComputing = false,
+  error = null,
+  height = 140,
+}: SpectrogramViewProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Colouring is the slow part, so it only reruns when the data or colour map changes
+  const image = useMemo(
+    () => (spectrogram ? renderSpectrogramImage(spectrogram, colorMap) : null),
+    [spectrogram, colorMap],
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+
+    if (spectrogram && image) {
+      drawSpectrogram(ctx, image, spectrogram, startTime, endTime, width, height, timeOffset);
+    }
+
+    const span = Math.max(0.001, endTime - startTime);
+    const toX = (time: number) => Math.floor(((time - startTime) / span) * width) + 0.5;
+
+    // Word boundaries and labels
+    ctx.font = '11px sans-serif';
+    words.forEach(({ word, start, stop }) => {
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(toX(start), 0);
+      ctx.lineTo(toX(start), height);
+      ctx.moveTo(toX(stop), 0);
+      ctx.lineTo(toX(stop), height);
+      ctx.stroke();
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+      ctx.fillText(word, toX(start) + 3, height - 4, Math.max(0, toX(stop) - toX(start) - 4));
+    });
+
+    if (playhead !== null) {
+      ctx.strokeStyle = '#dc2626';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(toX(playhead), 0);
+      ctx.lineTo(toX(playhead), height);
+      ctx.stroke();
+    }
+  }, [spectrogram, image, startTime, endTime, timeOffset, words, playhead, height]);
+
+  return (
+    <div className="relative w-full">
+      <canvas ref={canvasRef} style={{ width: '100%', height }} className="rounded" />
+      {isComputing && (
+        <span className="absolute top-1 right-2 text-xs text-gray-300">Computing…</span>
+      )}
+      {error && (
+        <span className="absolute top-1 right-2 text-xs text-red-400">{error}</span>
+      )}
+    </div>
+  );
+};
+
+export default SpectrogramView;
@@ -0,0 +1,130 @@
+import { useEffect, useRef } from 'react';
+import { WordAlignment } from '../utils/alignment';
+import { useAudioTransport } from '../hooks/useAudioTransport';
+
+interface TakeWordStripProps {
+  takeBuffer: AudioBuffer;
+  targetBuffer: AudioBuffer;
+  wordAlignments: WordAlignment[];
+  height?: number;
+}
+
+// Transport tag for word playback from this strip
+const wordTag = (index: number) => `take-word:${index}`;
+
+/**
+ * Waveform of the latest take with the aligned word boundaries drawn on it.
+ * Clicking a word plays your version and then the target's back to back.
+ */
+export const TakeWordStrip = ({
+  takeBuffer,
+  targetBuffer,
+  wordAlignments,
+  height = 100,
+}: TakeWordStripProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { transport, state: transportState } = useAudioTransport();
+  const playingIndex = transportState.mode === 'playing-take'
+    ? wordAlignments.findIndex((_, index) => transportState.tag === wordTag(index))
+    : -1;
+
+  // Draw the take waveform with the word regions
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+
+    const toX = (time: number) => (time / takeBuffer.duration) * width;
+
+    // Word regions behind the waveform
+    wordAlignments.forEach(({ takeStart, takeStop }, index) => {
+      ctx.fillStyle = index === playingIndex ? 'rgba(0, 191, 255, 0.35)' : 'rgba(59, 130, 246, 0.15)';
+      ctx.fillRect(toX(takeStart), 0, toX(takeStop) - toX(takeStart), height);
+      ctx.strokeStyle = 'rgba(156, 163, 175, 0.7)';
+      ctx.beginPath();
+      ctx.moveTo(Math.floor(toX(takeStart)) + 0.5, 0);
+      ctx.lineTo(Math.floor(toX(takeStart)) + 0.5, height);
+      ctx.moveTo(Math.floor(toX(takeStop)) + 0.5, 0);
+      ctx.lineTo(Math.floor(toX(takeStop)) + 0.5, height);
+      ctx.stroke();
+    });
+
+    // Min/max waveform, one column per pixel
+    const data = takeBuffer.getChannelData(0);
+    const step = Math.max(1, Math.ceil(data.length / width));
+    const amp = height / 2;
+    ctx.strokeStyle = '#00bfff';
+    ctx.beginPath();
+    for (let x = 0; x < width; x++) {
+      let min = 1.0;
+      let max = -1.0;
+      for (let j = 0; j < step && x * step + j < data.length; j++) {
+        const datum = data[x * step + j];
+        if (datum < min) min = datum;
+        if (datum > max) max = datum;
+      }
+      ctx.moveTo(x + 0.5, (1 + min) * amp);
+      ctx.lineTo(x + 0.5, (1 + max) * amp);
+    }
+    ctx.stroke();
+  }, [takeBuffer, wordAlignments, playingIndex, height]);
+
+  // Stop word playback from this strip when the take changes or the strip unmounts
+  useEffect(() => {
+    return () => {
+      const { mode, tag } = transport.getState();
+      if (mode === 'playing-take' && tag?.startsWith('take-word:')) {
+        transport.stop();
+      }
+    };
+  }, [takeBuffer]);
+
+  const handleWordClick = (alignment: WordAlignment, index: number) => {
+    transport.playSegments([
+      { buffer: takeBuffer, start: alignment.takeStart, end: alignment.takeStop },
+      { buffer: targetBuffer, start: alignment.word.start, end: alignment.word.stop },
+    ], wordTag(index));
+  };
+
+  return (
+    <div className="w-full">
+      <canvas
+        ref={canvasRef}
+        style={{ width: '100%', height: `${height}px`, display: 'block', borderRadius: '4px' }}
+      />
+      <div className="relative w-full mt-1" style={{ height: '28px' }}>
+        {wordAlignments.map((alignment, index) => (
+          <button
+            key={index}
+            className={`absolute top-0 h-full text-xs rounded border overflow-hidden whitespace-nowrap transition-colors ${
+              index === playingIndex
+                ? 'bg-cyan-100 border-cyan-500 text-cyan-800 font-semibold'
+                : 'bg-gray-100 border-gray-300 text-gray-700 hover:bg-blue-100'
+            }`}
+            style={{
+              left: `${(alignment.takeStart / takeBuffer.duration) * 100}%`,
+              width: `${((alignment.takeStop - alignment.takeStart) / takeBuffer.duration) * 100}%`,
+              minWidth: '24px',
+            }}
+            onClick={() => handleWordClick(alignment, index)}
+            title={`Play your "${alignment.word.word}" (${alignment.takeStart.toFixed(2)}s - ${alignment.takeStop.toFixed(2)}s), then the target's`}
+          >
+            {alignment.word.word}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TakeWordStrip;
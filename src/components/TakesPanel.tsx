@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { TakeRecord } from '../utils/takeStore';
+import { extensionForMimeType } from '../utils/wav';
+import { decodeAudioBlob } from '../utils/audioFeatures';
+import { LOUDNESS_ADVICE } from '../utils/loudness';
+import { useAudioTransport } from '../hooks/useAudioTransport';
+
+interface TakesPanelProps {
+  takes: TakeRecord[];
+  onRename: (id: string, name: string) => void;
+  onRestoreUntrimmed?: (take: TakeRecord) => void;
+  onToggleStar: (id: string, starred: boolean) => void;
+  onDelete: (id: string) => void;
+  error?: string | null;
+}
+
+const scoreColor = (value: number) =>
+  value >= 75 ? 'text-green-600' : value >= 50 ? 'text-yellow-600' : 'text-red-600';
+
+/**
+ * List of stored takes for the current sample: replay, rename, star and delete
+ */
+export const TakesPanel = ({ takes, onRename, onRestoreUntrimmed, onToggleStar, onDelete, error = null }: TakesPanelProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState<string>('');
+  const { transport, state: transportState } = useAudioTransport();
+
+  // Stored takes play through the shared transport, tagged with their id
+  const playingId = transportState.mode === 'playing-take' ? transportState.tag : null;
+
+  const handlePlay = async (take: TakeRecord) => {
+    if (playingId === take.id) {
+      transport.stop();
+      return;
+    }
+
+    try {
+      transport.playTake(await decodeAudioBlob(take.blob), take.id);
+    } catch (err) {
+      console.error(`Take playback failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDownload = (take: TakeRecord) => {
+    const url = URL.createObjectURL(take.blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${take.personId}-${take.sampleId}-${take.createdAt}.${extensionForMimeType(take.blob.type)}`;
+    link.click();
+    // Give the browser a moment to start the download before releasing the URL
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const commitRename = (take: TakeRecord) => {
+    const name = draftName.trim();
+    if (name && name !== take.name) {
+      onRename(take.id, name);
+    }
+    setEditingId(null);
+  };
+
+  // Starred takes first, then newest first
+  const sortedTakes = [...takes].sort((a, b) =>
+    a.starred === b.starred ? b.createdAt - a.createdAt : a.starred ? -1 : 1
+  );
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg p-4 mb-4">
+      <h3 className="text-lg font-medium mb-2">Takes</h3>
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      {sortedTakes.length === 0 ? (
+        <p className="text-sm text-gray-500">No takes recorded for this sample yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {sortedTakes.map(take => (
+            <li key={take.id} className="flex items-center py-2 space-x-3">
+              <button
+                className={`w-8 h-8 flex items-center justify-center rounded-full text-white ${playingId === take.id ? 'bg-red-500 hover:bg-red-600' : 'bg-green-500 hover:bg-green-600'}`}
+                onClick={() => handlePlay(take)}
+                title={playingId === take.id ? 'Stop' : 'Play take'}
+              >
+                {playingId === take.id ? (
+                  <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="currentColor">
+                    <rect x="6" y="6" width="12" height="12" />
+                  </svg>
+                ) : (
+                  <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="currentColor">
+                    <path d="M8 5v14l11-7z" />
+                  </svg>
+                )}
+              </button>
+
+              <button
+                className={`text-lg leading-none ${take.starred ? 'text-yellow-500' : 'text-gray-300 hover:text-yellow-400'}`}
+                onClick={() => onToggleStar(take.id, !take.starred)}
+                title={take.starred ? 'Unstar' : 'Star'}
+              >
+                ★
+              </button>
+
+              <div className="flex-1 min-w-0">
+                {editingId === take.id ? (
+                  <input
+                    className="border rounded px-2 py-1 text-sm w-full"
+                    value={draftName}
+                    autoFocus
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={() => commitRename(take)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename(take);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                  />
+                ) : (
+                  <button
+                    className="text-sm font-medium text-gray-800 truncate text-left w-full hover:underline"
+                    onClick={() => {
+                      setEditingId(take.id);
+                      setDraftName(take.name);
+                    }}
+                    title="Rename"
+                  >
+                    {take.name}
+                  </button>
+                )}
+                <p className="text-xs text-gray-500 truncate">
+                  {take.selection
+                    ? `"${take.selection.words.join(' ')}" (${take.selection.startTime.toFixed(2)}s - ${take.selection.endTime.toFixed(2)}s)`
+                    : 'Full clip'}
+                  {` · ${take.playbackRate}x · ${take.deviceLabel || 'Unknown mic'}`}
+                  {take.trim && ` · trimmed ${take.trim.start.toFixed(2)}s-${take.trim.end.toFixed(2)}s of ${take.trim.originalDuration.toFixed(2)}s`}
+                </p>
+              </div>
+
+              {take.loudness && take.loudness.verdict !== 'ok' && (
+                <span
+                  className={`text-xs px-2 py-0.5 rounded ${take.loudness.verdict === 'clipped' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'}`}
+                  title={`${LOUDNESS_ADVICE[take.loudness.verdict]} Peak ${take.loudness.peakDb.toFixed(1)} dBFS, RMS ${take.loudness.rmsDb.toFixed(1)} dBFS`}
+                >
+                  {take.loudness.verdict === 'clipped' ? 'Clipped' : take.loudness.verdict === 'quiet' ? 'Quiet' : 'Silent'}
+                </span>
+              )}
+
+              {take.score && (
+                <span className={`text-lg font-bold ${scoreColor(take.score.overall)}`} title="Overall score">
+                  {take.score.overall}
+                </span>
+              )}
+
+              {take.trim && take.originalBlob && onRestoreUntrimmed && (
+                <button
+                  className="text-sm text-gray-400 hover:text-blue-600"
+                  onClick={() => {
+                    if (playingId === take.id) transport.stop();
+                    onRestoreUntrimmed(take);
+                  }}
+                  title="Put back the silence that was trimmed from this take"
+                >
+                  Untrim
+                </button>
+              )}
+
+              <button
+                className="text-sm text-gray-400 hover:text-blue-600"
+                onClick={() => handleDownload(take)}
+                title="Download take"
+              >
+                Download
+              </button>
+
+              <button
+                className="text-sm text-gray-400 hover:text-red-600"
+                onClick={() => {
+                  if (playingId === take.id) transport.stop();
+                  onDelete(take.id);
+                }}
+                title="Delete take"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TakesPanel;
@@ -0,0 +1,80 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useAudioTransport, useTransportPosition } from '../hooks/useAudioTransport';
+import { findWordAt, matchTranscript, TimedWord, wordProgress } from '../utils/wordTiming';
+import { LEAD_IN_SECONDS } from './LivePitchTrace';
+
+interface TeleprompterProps {
+  fullText: string;
+  words: TimedWord[];
+  // While recording: follow the target's timing from `start` at `rate`, in step with the live pitch guide
+  pace?: { start: number; rate: number } | null;
+}
+
+/**
+ * Large-print transcript with the spoken word filled in as the clip plays, or paced while recording
+ */
+export const Teleprompter = ({ fullText, words, pace = null }: TeleprompterProps) => {
+  const { state } = useAudioTransport();
+  const position = useTransportPosition();
+  const [pacedTime, setPacedTime] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const tokens = useMemo(() => matchTranscript(fullText, words), [fullText, words]);
+
+  // Recording clock, started when pacing begins
+  useEffect(() => {
+    if (!pace) {
+      setPacedTime(null);
+      return;
+    }
+
+    const startedAt = performance.now();
+    let frame = requestAnimationFrame(function tick(now) {
+      setPacedTime(pace.start + ((now - startedAt) / 1000 - LEAD_IN_SECONDS) * pace.rate);
+      frame = requestAnimationFrame(tick);
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [pace?.start, pace?.rate]);
+
+  const isClipPlaying = state.mode === 'playing-main' || state.mode === 'playing-selection';
+  const time = pacedTime ?? (isClipPlaying ? position : null);
+  const speakingIndex = time === null ? -1 : findWordAt(words, time);
+
+  // Keep the spoken line in view
+  useEffect(() => {
+    if (speakingIndex < 0 || !containerRef.current) return;
+    const element = containerRef.current.querySelector(`[data-word-index="${speakingIndex}"]`) as HTMLElement | null;
+    element?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [speakingIndex]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="border border-gray-200 rounded-lg p-4 bg-gray-50 max-h-48 overflow-y-auto text-2xl leading-relaxed"
+    >
+      {tokens.map((token, i) => {
+        const word = token.wordIndex !== null ? words[token.wordIndex] : null;
+        const isSpeaking = token.wordIndex !== null && token.wordIndex === speakingIndex;
+        const isSpoken = word !== null && time !== null && time > word.stop;
+        const fill = isSpeaking && word && time !== null ? wordProgress(word, time) * 100 : 0;
+
+        return (
+          <span key={i}>
+            <span
+              data-word-index={token.wordIndex ?? undefined}
+              className={`rounded px-0.5 ${isSpeaking ? 'text-gray-900 font-semibold' : isSpoken ? 'text-gray-800' : 'text-gray-500'}`}
+              style={isSpeaking ? {
+                background: `linear-gradient(to right, rgba(250, 204, 21, 0.6) ${fill}%, transparent ${fill}%)`,
+              } : undefined}
+            >
+              {token.text}
+            </span>{' '}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default Teleprompter;
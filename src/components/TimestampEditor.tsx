@@ -0,0 +1,253 @@
+import { useEffect, useState } from 'react';
+import { TimestampEditorControls } from '../hooks/useTimestampEditor';
+import { formatTimestampsCSV, TimeStamp } from '../utils/parseTimestamps';
+import { deleteWord, insertPause, mergeWithNext, retypeWord, splitWord } from '../utils/timestampEdits';
+import { AlignmentFailure } from '../utils/forcedAlignment';
+import { useForcedAlignment } from '../hooks/useForcedAlignment';
+
+interface TimestampEditorProps {
+  editor: TimestampEditorControls;
+  phones?: TimeStamp[];   // exported unchanged alongside the words
+  fileName: string;       // name for the exported CSV
+  getPlayheadTime: () => number;
+  audioBuffer: AudioBuffer | null; // for automatic alignment
+  fullText?: string;
+  onApply: (words: TimeStamp[]) => void;
+  onClose: () => void;
+}
+
+// Pause lengths offered by "Insert pause", in seconds
+const PAUSE_OPTIONS = [0.1, 0.25, 0.5, 1];
+
+// Aligned words below this confidence are listed for checking
+const LOW_CONFIDENCE = 0.5;
+
+const ALIGNMENT_FAILURES: Record<AlignmentFailure, string> = {
+  'no-text': 'The sample text has no words to align.',
+  'no-speech': 'No speech found to align the text to.',
+  'too-short': 'The audio is too short for this many words.',
+};
+
+const buttonClass = (enabled: boolean) =>
+  `px-3 py-1 rounded text-sm ${enabled ? 'bg-white border border-gray-300 hover:bg-gray-100 text-gray-800' : 'bg-gray-100 border border-gray-200 text-gray-400 cursor-not-allowed'}`;
+
+/**
+ * Tools for fixing a transcript's word timings: boundaries are dragged on the waveform,
+ * everything else happens here. The result downloads as a CSV the app can load.
+ */
+export const TimestampEditor = ({
+  editor,
+  phones = [],
+  fileName,
+  getPlayheadTime,
+  audioBuffer,
+  fullText,
+  onApply,
+  onClose,
+}: TimestampEditorProps) => {
+  const { words, selectedIndex } = editor;
+  const selected = selectedIndex !== null ? words[selectedIndex] : null;
+  const [draftWord, setDraftWord] = useState('');
+  const [pauseSeconds, setPauseSeconds] = useState(PAUSE_OPTIONS[1]);
+  const [copied, setCopied] = useState(false);
+  const { align, isAligning } = useForcedAlignment();
+  const [alignError, setAlignError] = useState<string | null>(null);
+
+  // Retyping starts from the selected word's current text
+  useEffect(() => {
+    setDraftWord(selected?.word ?? '');
+  }, [selected?.word, selectedIndex]);
+
+  const commitRetype = () => {
+    if (selectedIndex === null || !selected) return;
+    const text = draftWord.trim();
+    if (text && text !== selected.word) editor.apply(current => retypeWord(current, selectedIndex, text));
+  };
+
+  const handleSplit = () => {
+    if (selectedIndex === null) return;
+    editor.apply(current => splitWord(current, selectedIndex, getPlayheadTime()), selectedIndex + 1);
+  };
+
+  const handleMerge = () => {
+    if (selectedIndex === null) return;
+    editor.apply(current => mergeWithNext(current, selectedIndex), selectedIndex);
+  };
+
+  const handleDelete = () => {
+    if (selectedIndex === null) return;
+    editor.apply(current => deleteWord(current, selectedIndex), null);
+  };
+
+  const handleInsertPause = () => {
+    if (selectedIndex === null) return;
+    editor.apply(current => insertPause(current, selectedIndex, pauseSeconds));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([formatTimestampsCSV(words, phones)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Give the browser a moment to start the download before releasing the URL
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatTimestampsCSV(words, phones));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error(`Copying the CSV failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  // Replace every word with timings guessed from the full text and the audio (one undo step)
+  const handleAutoAlign = async () => {
+    if (!audioBuffer || !fullText) return;
+    setAlignError(null);
+    try {
+      const { words: aligned, failure } = await align(audioBuffer, fullText);
+      if (failure) {
+        setAlignError(ALIGNMENT_FAILURES[failure]);
+      } else {
+        editor.apply(() => aligned, null);
+      }
+    } catch (err) {
+      setAlignError(`Alignment failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const lowConfidence = words
+    .map((word, index) => ({ word, index }))
+    .filter(({ word }) => word.confidence !== undefined && word.confidence < LOW_CONFIDENCE);
+
+  const canAlign = !!audioBuffer && !!fullText && !isAligning;
+  const hasSelection = selected !== null;
+  const canMerge = selectedIndex !== null && selectedIndex < words.length - 1;
+
+  return (
+    <div className="border border-amber-300 rounded-lg p-3 bg-amber-50 mb-4">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <span className="text-sm font-semibold text-gray-700">Edit Timestamps</span>
+          <span className="ml-3 text-xs text-gray-500">
+            Drag the orange boundaries on the waveform. Click a word box to select it.
+          </span>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            className={buttonClass(canAlign)}
+            onClick={handleAutoAlign}
+            disabled={!canAlign}
+            title={fullText ? 'Place the sample text in the audio automatically' : 'This sample has no full text'}
+          >
+            {isAligning ? 'Aligning…' : 'Auto-align'}
+          </button>
+          <button className={buttonClass(editor.canUndo)} onClick={editor.undo} disabled={!editor.canUndo} title="Undo (Ctrl/⌘ + Z)">
+            Undo
+          </button>
+          <button className={buttonClass(editor.canRedo)} onClick={editor.redo} disabled={!editor.canRedo} title="Redo (Ctrl/⌘ + Shift + Z)">
+            Redo
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mb-3">
+        <label className="flex flex-col text-xs text-gray-600">
+          Word
+          <input
+            type="text"
+            className="border rounded px-2 py-1 text-sm text-gray-800 w-40 mt-1"
+            value={draftWord}
+            disabled={!hasSelection}
+            placeholder={hasSelection ? '' : 'Select a word'}
+            onChange={(e) => setDraftWord(e.target.value)}
+            onBlur={commitRetype}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRetype();
+              if (e.key === 'Escape') setDraftWord(selected?.word ?? '');
+            }}
+          />
+        </label>
+
+        {selected && (
+          <span className="text-xs text-gray-500 pb-2">
+            {selected.start.toFixed(3)}s – {selected.stop.toFixed(3)}s
+            {selected.confidence !== undefined && ` · ${Math.round(selected.confidence * 100)}% confidence`}
+          </span>
+        )}
+
+        <button className={buttonClass(hasSelection)} onClick={handleSplit} disabled={!hasSelection} title="Split at the playhead, or in the middle">
+          Split
+        </button>
+        <button className={buttonClass(canMerge)} onClick={handleMerge} disabled={!canMerge} title="Join with the next word">
+          Merge
+        </button>
+        <button className={buttonClass(hasSelection)} onClick={handleDelete} disabled={!hasSelection}>
+          Delete
+        </button>
+
+        <div className="flex items-end space-x-1">
+          <button className={buttonClass(hasSelection)} onClick={handleInsertPause} disabled={!hasSelection} title="Move every later word back">
+            Insert pause
+          </button>
+          <select
+            className="border rounded px-1 py-1 text-sm"
+            value={pauseSeconds}
+            onChange={(e) => setPauseSeconds(Number(e.target.value))}
+          >
+            {PAUSE_OPTIONS.map(seconds => (
+              <option key={seconds} value={seconds}>{seconds}s</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {alignError && <p className="text-xs text-red-600 mb-2">{alignError}</p>}
+
+      {lowConfidence.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 mb-3 text-xs">
+          <span className="text-gray-600 mr-1">Check these (low confidence):</span>
+          {lowConfidence.map(({ word, index }) => (
+            <button
+              key={index}
+              className={`px-2 py-0.5 rounded border ${index === selectedIndex ? 'border-blue-500 bg-blue-100' : 'border-amber-300 bg-white hover:bg-amber-100'}`}
+              onClick={() => editor.setSelectedIndex(index)}
+            >
+              {word.word} {Math.round((word.confidence ?? 0) * 100)}%
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-2">
+          <button className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded text-sm" onClick={handleExport}>
+            Export CSV
+          </button>
+          <button className={buttonClass(true)} onClick={handleCopy}>
+            {copied ? 'Copied' : 'Copy CSV'}
+          </button>
+        </div>
+        <div className="flex space-x-2">
+          <button className={buttonClass(true)} onClick={onClose}>
+            Discard
+          </button>
+          <button
+            className="bg-green-500 hover:bg-green-600 text-white px-3 py-1 rounded text-sm"
+            onClick={() => onApply(words)}
+            title="Use these timings for this session"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimestampEditor;
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { TranscriptDiagnostic } from '../utils/transcriptValidation';
+
+interface TranscriptWarningsProps {
+  diagnostics: TranscriptDiagnostic[];
+  fileName?: string;
+}
+
+// Enough to see what kind of problems there are without pushing the visualizer off screen
+const COLLAPSED_COUNT = 3;
+
+/**
+ * Banner listing problems with the sample's transcript. Training still works with a faulty
+ * transcript, so this only informs and can be dismissed.
+ */
+export const TranscriptWarnings = ({ diagnostics, fileName }: TranscriptWarningsProps) => {
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (isDismissed || diagnostics.length === 0) return null;
+
+  const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+  const shown = isExpanded ? diagnostics : diagnostics.slice(0, COLLAPSED_COUNT);
+  const summary = [
+    errorCount > 0 && `${errorCount} error${errorCount === 1 ? '' : 's'}`,
+    warningCount > 0 && `${warningCount} warning${warningCount === 1 ? '' : 's'}`,
+  ].filter(Boolean).join(' and ');
+
+  return (
+    <div className="mb-3 border border-yellow-300 rounded-lg p-3 bg-yellow-50 text-sm text-yellow-900" role="status">
+      <div className="flex items-start justify-between">
+        <p className="font-semibold">
+          Transcript has {summary}
+          {fileName && <span className="font-normal text-yellow-700"> ({fileName})</span>}
+          <span className="font-normal">. Word boxes may not line up with the audio.</span>
+        </p>
+        <button
+          className="ml-3 text-yellow-700 hover:text-yellow-900"
+          onClick={() => setIsDismissed(true)}
+          title="Hide until the next sample"
+        >
+          ✕
+        </button>
+      </div>
+
+      <ul className="mt-2 space-y-1">
+        {shown.map((diagnostic, i) => (
+          <li key={i} className="flex">
+            <span className={`mr-2 font-mono text-xs px-1 rounded ${
+              diagnostic.severity === 'error' ? 'bg-red-200 text-red-800' : 'bg-yellow-200 text-yellow-800'
+            }`}>
+              {diagnostic.line !== null ? `L${diagnostic.line}` : diagnostic.kind}
+            </span>
+            <span>{diagnostic.message}</span>
+          </li>
+        ))}
+      </ul>
+
+      {diagnostics.length > COLLAPSED_COUNT && (
+        <button
+          className="mt-2 text-xs text-yellow-800 underline"
+          onClick={() => setIsExpanded(expanded => !expanded)}
+        >
+          {isExpanded ? 'Show fewer' : `Show all ${diagnostics.length}`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptWarnings;
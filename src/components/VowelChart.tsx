@@ -0,0 +1,153 @@
+import { useEffect, useRef } from 'react';
+import { FormantPoint, WordFormants } from '../utils/formants';
+
+interface VowelChartProps {
+  targetWords: WordFormants[];
+  takeWords?: WordFormants[];
+  targetPoints?: FormantPoint[];
+  takePoints?: FormantPoint[];
+  height?: number;
+  targetColor?: string;
+  takeColor?: string;
+}
+
+// Conventional vowel chart orientation: F2 falls left to right, F1 grows downward
+const F1_MIN = 200;
+const F1_MAX = 1000;
+const F2_MIN = 600;
+const F2_MAX = 2700;
+
+// Average General American vowels (Peterson & Barney, adult male) as landmarks
+const REFERENCE_VOWELS: Array<{ symbol: string; f1: number; f2: number }> = [
+  { symbol: 'i', f1: 270, f2: 2290 },
+  { symbol: 'ɪ', f1: 390, f2: 1990 },
+  { symbol: 'ɛ', f1: 530, f2: 1840 },
+  { symbol: 'æ', f1: 660, f2: 1720 },
+  { symbol: 'ʌ', f1: 640, f2: 1190 },
+  { symbol: 'ɑ', f1: 730, f2: 1090 },
+  { symbol: 'ɔ', f1: 570, f2: 840 },
+  { symbol: 'ʊ', f1: 440, f2: 1020 },
+  { symbol: 'u', f1: 300, f2: 870 },
+  { symbol: 'ɝ', f1: 490, f2: 1350 },
+];
+
+const GRID_F1 = [300, 500, 700, 900];
+const GRID_F2 = [800, 1200, 1600, 2000, 2400];
+
+/**
+ * F1/F2 vowel space with a marker per word for the target and the take
+ */
+export const VowelChart = ({
+  targetWords,
+  takeWords = [],
+  targetPoints = [],
+  takePoints = [],
+  height = 280,
+  targetColor = '#00ff00',
+  takeColor = '#00bfff',
+}: VowelChartProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+
+    const toX = (f2: number) => ((F2_MAX - f2) / (F2_MAX - F2_MIN)) * width;
+    const toY = (f1: number) => ((f1 - F1_MIN) / (F1_MAX - F1_MIN)) * height;
+
+    // Grid
+    ctx.font = '10px sans-serif';
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = 'rgba(156, 163, 175, 0.2)';
+    ctx.fillStyle = 'rgba(156, 163, 175, 0.8)';
+    GRID_F1.forEach(f1 => {
+      const y = Math.floor(toY(f1)) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+      ctx.stroke();
+      ctx.fillText(`F1 ${f1}`, 4, y - 2);
+    });
+    GRID_F2.forEach(f2 => {
+      const x = Math.floor(toX(f2)) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+      ctx.stroke();
+      ctx.fillText(`F2 ${f2}`, x + 2, height - 4);
+    });
+
+    // Reference vowels
+    ctx.font = '16px serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = 'rgba(229, 231, 235, 0.35)';
+    REFERENCE_VOWELS.forEach(({ symbol, f1, f2 }) => ctx.fillText(symbol, toX(f2), toY(f1)));
+
+    // Every voiced frame, faintly, to show the spread
+    const drawCloud = (points: FormantPoint[], color: string) => {
+      ctx.fillStyle = `${color}33`;
+      points.forEach(({ f1, f2 }) => ctx.fillRect(toX(f2) - 1, toY(f1) - 1, 2, 2));
+    };
+    drawCloud(targetPoints, targetColor);
+    drawCloud(takePoints, takeColor);
+
+    // Line from each take word to where the target put it
+    const targetByIndex = new Map(targetWords.map(word => [word.index, word]));
+    ctx.lineWidth = 1.5;
+    takeWords.forEach(word => {
+      const target = targetByIndex.get(word.index);
+      if (!target) return;
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+      ctx.beginPath();
+      ctx.moveTo(toX(word.f2), toY(word.f1));
+      ctx.lineTo(toX(target.f2), toY(target.f1));
+      ctx.stroke();
+    });
+
+    const drawMarkers = (words: WordFormants[], color: string) => {
+      ctx.font = '11px sans-serif';
+      words.forEach(word => {
+        const x = toX(word.f2);
+        const y = toY(word.f1);
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.arc(x, y, 4, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = '#e5e7eb';
+        ctx.fillText(word.word, x, y - 10);
+      });
+    };
+    drawMarkers(targetWords, targetColor);
+    drawMarkers(takeWords, takeColor);
+
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'alphabetic';
+  }, [targetWords, takeWords, targetPoints, takePoints, height, targetColor, takeColor]);
+
+  return (
+    <div className="relative w-full">
+      <canvas
+        ref={canvasRef}
+        style={{ width: '100%', height: `${height}px`, display: 'block', borderRadius: '4px' }}
+      />
+      <div className="absolute top-1 right-2 flex space-x-3 text-xs">
+        <span style={{ color: targetColor }}>● Target</span>
+        {takeWords.length > 0 && <span style={{ color: takeColor }}>● Your take</span>}
+      </div>
+    </div>
+  );
+};
+
+export default VowelChart;
@@ -0,0 +1,54 @@
+import { WordFeedback, WordGrade } from '../utils/wordFeedback';
+
+interface WordFeedbackReportProps {
+  feedback: WordFeedback[];
+}
+
+const GRADE_STYLES: Record<WordGrade, string> = {
+  good: 'bg-green-100 border-green-400 text-green-800',
+  fair: 'bg-yellow-100 border-yellow-400 text-yellow-800',
+  poor: 'bg-red-100 border-red-400 text-red-800',
+};
+
+const formatSigned = (value: number, unit: string, digits: number = 0) =>
+  `${value >= 0 ? '+' : ''}${value.toFixed(digits)}${unit}`;
+
+/**
+ * Per-word breakdown of the latest take: how far off duration, pitch and energy were
+ */
+export const WordFeedbackReport = ({ feedback }: WordFeedbackReportProps) => {
+  if (feedback.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {feedback.map((item, index) => (
+        <div
+          key={index}
+          className={`border rounded-lg px-3 py-2 text-xs min-w-[110px] ${GRADE_STYLES[item.grade]} ${item.isTipWord ? 'ring-2 ring-indigo-400' : ''}`}
+          title={item.isTipWord ? 'This word is called out in the tips' : undefined}
+        >
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-sm font-bold">{item.word.word}</span>
+            {item.isTipWord && <span className="ml-2 text-indigo-600">★ tip</span>}
+          </div>
+          <div className="flex justify-between">
+            <span>Duration</span>
+            <span className="font-medium">{formatSigned(item.durationError, '%')}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Pitch</span>
+            <span className="font-medium">
+              {item.pitchError === null ? 'n/a' : formatSigned(item.pitchError, ' st', 1)}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span>Energy</span>
+            <span className="font-medium">{formatSigned(item.energyError, ' dB', 1)}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WordFeedbackReport;
@@ -0,0 +1,37 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { getAudioTransport, TransportState } from '../utils/audioTransport';
+
+/**
+ * Subscribe to the shared audio transport's state
+ */
+export function useAudioTransport() {
+  const transport = getAudioTransport();
+  const state = useSyncExternalStore(transport.subscribe, transport.getState);
+  return { transport, state };
+}
+
+const isPlayingMode = (mode: TransportState['mode']) =>
+  mode === 'playing-main' || mode === 'playing-selection' || mode === 'playing-take' || mode === 'playing-overlay';
+
+/**
+ * Current playback position, updated every animation frame while something is playing
+ */
+export function useTransportPosition() {
+  const { transport, state } = useAudioTransport();
+  const [position, setPosition] = useState<number>(() => transport.getPosition());
+  const playing = isPlayingMode(state.mode);
+
+  useEffect(() => {
+    setPosition(transport.getPosition());
+    if (!playing) return;
+
+    let frame = requestAnimationFrame(function tick() {
+      setPosition(transport.getPosition());
+      frame = requestAnimationFrame(tick);
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [transport, playing, state.mode, state.mainPosition]);
+
+  return position;
+}
@@ -0,0 +1,303 @@
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import { getSharedAudioContext } from '../utils/audioPlayback';
+import { useDebug } from './useDebug';
+
+export interface DrillSettings {
+  repetitions: number;
+  countInBeats: number;
+  beatMs: number;
+  recordMarginMs: number;   // extra recording time after the selection duration
+  gapAfterTargetMs: number; // pause between hearing the target and the count-in
+  gapAfterTakeMs: number;   // pause between the take playback and the next repetition
+  stopKey: string;
+}
+
+export const DEFAULT_DRILL_SETTINGS: DrillSettings = {
+  repetitions: 5,
+  countInBeats: 3,
+  beatMs: 500,
+  recordMarginMs: 750,
+  gapAfterTargetMs: 500,
+  gapAfterTakeMs: 1000,
+  stopKey: 'Escape',
+};
+
+// idle -> target -> gap -> count-in -> recording -> processing -> take -> gap -> target ...
+export type DrillPhase = 'idle' | 'target' | 'gap' | 'count-in' | 'recording' | 'processing' | 'take';
+
+export interface DrillState {
+  phase: DrillPhase;
+  repetition: number;          // 1-based, 0 while idle
+  beatsLeft: number;           // remaining count-in beats
+  gapMs: number;               // length of the current gap
+  next: DrillPhase;            // phase entered when the gap elapses
+  settings: DrillSettings;     // snapshot taken when the drill starts
+  completed: boolean;          // true once the last repetition finished on its own
+}
+
+type DrillAction =
+  | { type: 'start'; settings: DrillSettings }
+  | { type: 'target-ended' }
+  | { type: 'gap-elapsed' }
+  | { type: 'beat' }
+  | { type: 'record-elapsed' }
+  | { type: 'take-ready' }
+  | { type: 'take-ended' }
+  | { type: 'stop' };
+
+const initialState: DrillState = {
+  phase: 'idle',
+  repetition: 0,
+  beatsLeft: 0,
+  gapMs: 0,
+  next: 'idle',
+  settings: DEFAULT_DRILL_SETTINGS,
+  completed: false,
+};
+
+function drillReducer(state: DrillState, action: DrillAction): DrillState {
+  switch (action.type) {
+    case 'start':
+      return { ...initialState, phase: 'target', repetition: 1, settings: action.settings };
+
+    case 'target-ended':
+      if (state.phase !== 'target') return state;
+      return { ...state, phase: 'gap', gapMs: state.settings.gapAfterTargetMs, next: 'count-in' };
+
+    case 'gap-elapsed':
+      if (state.phase !== 'gap') return state;
+      if (state.next === 'count-in') {
+        return state.settings.countInBeats > 0
+          ? { ...state, phase: 'count-in', beatsLeft: state.settings.countInBeats }
+          : { ...state, phase: 'recording' };
+      }
+      return { ...state, phase: state.next };
+
+    case 'beat':
+      if (state.phase !== 'count-in') return state;
+      return state.beatsLeft > 1
+        ? { ...state, beatsLeft: state.beatsLeft - 1 }
+        : { ...state, phase: 'recording', beatsLeft: 0 };
+
+    case 'record-elapsed':
+      return state.phase === 'recording' ? { ...state, phase: 'processing' } : state;
+
+    case 'take-ready':
+      return state.phase === 'processing' ? { ...state, phase: 'take' } : state;
+
+    case 'take-ended':
+      if (state.phase !== 'take') return state;
+      if (state.repetition >= state.settings.repetitions) {
+        return { ...initialState, settings: state.settings, completed: true };
+      }
+      return {
+        ...state,
+        phase: 'gap',
+        gapMs: state.settings.gapAfterTakeMs,
+        next: 'target',
+        repetition: state.repetition + 1,
+      };
+
+    case 'stop':
+      return { ...initialState, settings: state.settings };
+  }
+}
+
+// Give up waiting for the recorder after this long and move on to the next repetition
+const PROCESSING_TIMEOUT_MS = 5000;
+// Give up on target or take playback that was asked for but never began
+const PLAYBACK_START_TIMEOUT_MS = 3000;
+
+// Short metronome click for the count-in; the last beat is pitched higher
+function playCountInClick(accent: boolean) {
+  const context = getSharedAudioContext();
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  const now = context.currentTime;
+
+  oscillator.frequency.value = accent ? 1320 : 880;
+  gain.gain.setValueAtTime(0.3, now);
+  gain.gain.exponentialRampToValueAtTime(0.001, now + 0.08);
+  oscillator.connect(gain);
+  gain.connect(context.destination);
+  oscillator.start(now);
+  oscillator.stop(now + 0.1);
+}
+
+interface UseDrillLoopOptions {
+  recordSeconds: number | null;   // how long the target selection takes to say
+  isTargetPlaying: boolean;
+  isRecording: boolean;
+  isTakePlaying: boolean;
+  takeUrl: string | null;
+  playTarget: () => Promise<boolean>; // resolves false if playback could not be started
+  startRecording: () => void;
+  stopRecording: () => void;
+  playTake: () => Promise<boolean>; // resolves false if playback could not be started
+  stopPlayback: () => void;
+}
+
+/**
+ * Loop practice: play the target, count in, record, play the take back, repeat.
+ * Drives the page's existing play/record flows from a single state machine.
+ */
+export function useDrillLoop(options: UseDrillLoopOptions) {
+  const debug = useDebug('DrillLoop');
+  const [state, dispatch] = useReducer(drillReducer, initialState);
+  const phaseRef = useRef<DrillPhase>(state.phase);
+  phaseRef.current = state.phase;
+
+  // Callbacks and flags change every render; effects read the latest through a ref
+  const latest = useRef(options);
+  latest.current = options;
+
+  // Whether the playback we started in the current phase has actually begun
+  const sawPlaybackRef = useRef(false);
+  const takeUrlAtRecordRef = useRef<string | null>(null);
+
+  const start = useCallback((settings: DrillSettings) => {
+    if (!latest.current.recordSeconds) {
+      debug.warn('Cannot start drill without a selection');
+      return;
+    }
+    latest.current.stopPlayback();
+    debug.log(`Starting drill: ${settings.repetitions} repetitions`);
+    dispatch({ type: 'start', settings });
+  }, [debug]);
+
+  const stop = useCallback(() => {
+    debug.log('Drill stopped');
+    if (latest.current.isRecording || phaseRef.current === 'recording') {
+      latest.current.stopRecording();
+    }
+    latest.current.stopPlayback();
+    dispatch({ type: 'stop' });
+  }, [debug]);
+
+  // Side effects on entering each phase
+  useEffect(() => {
+    const { settings } = state;
+
+    switch (state.phase) {
+      case 'target': {
+        // Without the target there's nothing to imitate, so the drill stops rather than skipping ahead
+        sawPlaybackRef.current = false;
+        let cancelled = false;
+        latest.current.playTarget().then(started => {
+          if (started || cancelled) return;
+          debug.warn('Target playback failed, stopping the drill');
+          dispatch({ type: 'stop' });
+        });
+        const timer = setTimeout(() => {
+          if (sawPlaybackRef.current) return;
+          debug.warn('Target playback never started, stopping the drill');
+          dispatch({ type: 'stop' });
+        }, PLAYBACK_START_TIMEOUT_MS);
+        return () => {
+          cancelled = true;
+          clearTimeout(timer);
+        };
+      }
+
+      case 'gap': {
+        const timer = setTimeout(() => dispatch({ type: 'gap-elapsed' }), state.gapMs);
+        return () => clearTimeout(timer);
+      }
+
+      case 'count-in': {
+        playCountInClick(state.beatsLeft === 1);
+        const timer = setTimeout(() => dispatch({ type: 'beat' }), settings.beatMs);
+        return () => clearTimeout(timer);
+      }
+
+      case 'recording': {
+        takeUrlAtRecordRef.current = latest.current.takeUrl;
+        latest.current.startRecording();
+        const duration = (latest.current.recordSeconds ?? 0) * 1000 + settings.recordMarginMs;
+        const timer = setTimeout(() => {
+          latest.current.stopRecording();
+          dispatch({ type: 'record-elapsed' });
+        }, duration);
+        return () => clearTimeout(timer);
+      }
+
+      case 'processing': {
+        const timer = setTimeout(() => {
+          debug.warn('No take arrived from the recorder, skipping playback');
+          dispatch({ type: 'take-ready' });
+        }, PROCESSING_TIMEOUT_MS);
+        return () => clearTimeout(timer);
+      }
+
+      case 'take': {
+        sawPlaybackRef.current = false;
+        if (!latest.current.takeUrl || latest.current.takeUrl === takeUrlAtRecordRef.current) {
+          // The recorder failed, so there is nothing new to play back
+          dispatch({ type: 'take-ended' });
+          return;
+        }
+
+        let cancelled = false;
+        latest.current.playTake().then(started => {
+          if (started || cancelled) return;
+          debug.warn('Take playback failed, skipping to the next repetition');
+          dispatch({ type: 'take-ended' });
+        });
+        const timer = setTimeout(() => {
+          if (sawPlaybackRef.current) return;
+          debug.warn('Take playback never started, skipping to the next repetition');
+          dispatch({ type: 'take-ended' });
+        }, PLAYBACK_START_TIMEOUT_MS);
+        return () => {
+          cancelled = true;
+          clearTimeout(timer);
+        };
+      }
+    }
+  }, [state.phase, state.repetition, state.beatsLeft]);
+
+  // Target playback finished
+  useEffect(() => {
+    if (state.phase !== 'target') return;
+    if (options.isTargetPlaying) {
+      sawPlaybackRef.current = true;
+    } else if (sawPlaybackRef.current) {
+      dispatch({ type: 'target-ended' });
+    }
+  }, [state.phase, options.isTargetPlaying]);
+
+  // The recorder delivered the new take
+  useEffect(() => {
+    if (state.phase === 'processing' && options.takeUrl && options.takeUrl !== takeUrlAtRecordRef.current) {
+      dispatch({ type: 'take-ready' });
+    }
+  }, [state.phase, options.takeUrl]);
+
+  // Take playback finished
+  useEffect(() => {
+    if (state.phase !== 'take') return;
+    if (options.isTakePlaying) {
+      sawPlaybackRef.current = true;
+    } else if (sawPlaybackRef.current) {
+      dispatch({ type: 'take-ended' });
+    }
+  }, [state.phase, options.isTakePlaying]);
+
+  // Stop key
+  const isActive = state.phase !== 'idle';
+  useEffect(() => {
+    if (!isActive) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === state.settings.stopKey) {
+        e.preventDefault();
+        stop();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isActive, state.settings.stopKey, stop]);
+
+  return { state, isActive, start, stop };
+}
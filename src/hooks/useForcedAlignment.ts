@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toMono } from '../utils/audioFeatures';
+import { alignTranscript, AlignmentRequest, AlignmentResponse, AlignmentResult } from '../utils/forcedAlignment';
+
+// One worker serves every alignment on the page; replies are matched to requests by id
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (result: AlignmentResult) => void; reject: (error: Error) => void }>();
+
+// A worker that failed to load or crashed can't answer anything it was sent, so every waiting
+// request fails and the next one starts a fresh worker
+function failWorker(error: Error): void {
+  worker?.terminate();
+  worker = null;
+  pending.forEach(({ reject }) => reject(error));
+  pending.clear();
+}
+
+function getWorker(): Worker | null {
+  if (!worker && typeof Worker !== 'undefined') {
+    worker = new Worker(new URL('../workers/alignment.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<AlignmentResponse>) => {
+      const request = pending.get(event.data.id);
+      pending.delete(event.data.id);
+      if ('error' in event.data) {
+        request?.reject(new Error(event.data.error));
+      } else {
+        request?.resolve(event.data.result);
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      failWorker(new Error(event.message || 'Alignment worker failed'));
+    };
+    worker.onmessageerror = () => failWorker(new Error('Alignment worker sent an unreadable reply'));
+  }
+  return worker;
+}
+
+function requestAlignment(samples: Float32Array, sampleRate: number, fullText: string): Promise<AlignmentResult> {
+  const target = getWorker();
+  if (!target) {
+    return new Promise(resolve => resolve(alignTranscript({ samples, sampleRate }, fullText)));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request: AlignmentRequest = { id: nextRequestId++, samples, sampleRate, fullText };
+    pending.set(request.id, { resolve, reject });
+    target.postMessage(request, [samples.buffer]);
+  });
+}
+
+/**
+ * Forced alignment of a sample's text to its audio, computed in a worker
+ */
+export function useForcedAlignment() {
+  const [isAligning, setIsAligning] = useState<boolean>(false);
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const align = useCallback(async (buffer: AudioBuffer, fullText: string): Promise<AlignmentResult> => {
+    setIsAligning(true);
+    try {
+      const { samples, sampleRate } = toMono(buffer);
+      return await requestAlignment(samples, sampleRate, fullText);
+    } finally {
+      if (mountedRef.current) setIsAligning(false);
+    }
+  }, []);
+
+  return { align, isAligning };
+}
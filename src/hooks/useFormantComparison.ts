@@ -0,0 +1,53 @@
+import { useMemo } from 'react';
+import { toMono } from '../utils/audioFeatures';
+import { FormantPoint, formantsByWord, trackFormants, WordFormants } from '../utils/formants';
+import { WordAlignment } from '../utils/alignment';
+import { trackBufferPitch } from '../utils/pitch';
+import { SelectionRange } from '../components/AudioVisualizer';
+
+interface FormantComparisonOptions {
+  targetBuffer: AudioBuffer | null;
+  takeBuffer: AudioBuffer | null;
+  selection: SelectionRange | null;
+  wordAlignments: WordAlignment[];
+}
+
+interface FormantComparison {
+  targetPoints: FormantPoint[];
+  takePoints: FormantPoint[];
+  targetWords: WordFormants[];  // indexed by position in the selection
+  takeWords: WordFormants[];    // same indices, so each can be paired with its target word
+}
+
+/**
+ * F1/F2 for the target selection and the latest take, summarised per word
+ */
+export function useFormantComparison({ targetBuffer, takeBuffer, selection, wordAlignments }: FormantComparisonOptions): FormantComparison {
+  const targetPoints = useMemo(() => {
+    if (!targetBuffer || !selection) return [];
+    const { startTime, endTime } = selection;
+    return trackFormants(toMono(targetBuffer, startTime, endTime), trackBufferPitch(targetBuffer, startTime, endTime))
+      .map(point => ({ ...point, time: point.time + startTime }));
+  }, [targetBuffer, selection?.startTime, selection?.endTime]);
+
+  const targetWords = useMemo(
+    () => (selection ? formantsByWord(targetPoints, selection.words) : []),
+    [targetPoints, selection],
+  );
+
+  const takePoints = useMemo(
+    () => (takeBuffer ? trackFormants(toMono(takeBuffer), trackBufferPitch(takeBuffer)) : []),
+    [takeBuffer],
+  );
+
+  const takeWords = useMemo(() => {
+    if (!selection) return [];
+    return formantsByWord(takePoints, wordAlignments.map(({ word, takeStart, takeStop }) => ({
+      word: word.word,
+      start: takeStart,
+      stop: takeStop,
+    }))).map(summary => ({ ...summary, index: selection.words.indexOf(wordAlignments[summary.index].word) }));
+  }, [takePoints, wordAlignments, selection]);
+
+  return { targetPoints, takePoints, targetWords, takeWords };
+}
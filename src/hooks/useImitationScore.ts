@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { decodeAudioBlob, toMono } from '../utils/audioFeatures';
+import { scoreImitation, ImitationScore } from '../utils/scoring';
+import { trackBufferPitch } from '../utils/pitch';
+import { useDebug } from './useDebug';
+
+interface ImitationScoreOptions {
+  recordingUrl: string | null;
+  getTargetBuffer: () => Promise<AudioBuffer | null>;
+  startTime?: number;
+  endTime?: number;
+}
+
+interface ImitationScoreState {
+  score: ImitationScore | null;
+  takeBuffer: AudioBuffer | null;
+  isScoring: boolean;
+  error: string | null;
+}
+
+/**
+ * Score each new recording against the target slice it was recorded for
+ */
+export function useImitationScore({ recordingUrl, getTargetBuffer, startTime, endTime }: ImitationScoreOptions) {
+  const debug = useDebug('ImitationScore');
+  const [state, setState] = useState<ImitationScoreState>({
+    score: null,
+    takeBuffer: null,
+    isScoring: false,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!recordingUrl) {
+      setState({ score: null, takeBuffer: null, isScoring: false, error: null });
+      return;
+    }
+
+    let cancelled = false;
+
+    const runScoring = async () => {
+      setState({ score: null, takeBuffer: null, isScoring: true, error: null });
+
+      try {
+        const targetBuffer = await getTargetBuffer();
+        if (!targetBuffer) {
+          throw new Error('Target audio is not loaded yet');
+        }
+
+        const response = await fetch(recordingUrl);
+        const takeBuffer = await decodeAudioBlob(await response.blob());
+
+        const targetStart = startTime ?? 0;
+        const targetEnd = endTime ?? targetBuffer.duration;
+        // The tracks are cached, so the pitch comparison and word feedback reuse them
+        const score = scoreImitation(
+          toMono(targetBuffer, targetStart, targetEnd),
+          toMono(takeBuffer),
+          trackBufferPitch(targetBuffer, targetStart, targetEnd),
+          trackBufferPitch(takeBuffer),
+        );
+
+        debug.track('Take scored', score);
+        if (!cancelled) {
+          setState({ score, takeBuffer, isScoring: false, error: null });
+        }
+      } catch (err) {
+        debug.error('Failed to score recording:', err);
+        if (!cancelled) {
+          setState({
+            score: null,
+            takeBuffer: null,
+            isScoring: false,
+            error: `Failed to score recording: ${err instanceof Error ? err.message : 'Unknown error'}`,
+          });
+        }
+      }
+    };
+
+    runScoring();
+
+    return () => {
+      cancelled = true;
+    };
+    // Only re-score when a new take arrives; the range is captured when recording starts
+  }, [recordingUrl]);
+
+  return state;
+}
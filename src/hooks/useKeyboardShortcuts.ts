@@ -0,0 +1,53 @@
+import { useEffect, useRef } from 'react';
+
+export interface Shortcut {
+  key: string;          // KeyboardEvent.key, compared case-insensitively
+  shift?: boolean;      // require (true) or forbid (false) Shift; either when left out
+  mod?: boolean;        // require Ctrl (or Cmd on a Mac); without it, Ctrl/Cmd chords are left to the browser
+  label: string;        // how the key is shown in the cheat sheet
+  description: string;
+  action: () => void;
+}
+
+/**
+ * Whether a key event comes from somewhere the user is typing
+ */
+export const isTypingTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  const tag = target.tagName;
+  return target.isContentEditable || tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT';
+};
+
+const matches = (shortcut: Shortcut, e: KeyboardEvent) =>
+  e.key.toLowerCase() === shortcut.key.toLowerCase() &&
+  (shortcut.shift === undefined || shortcut.shift === e.shiftKey) &&
+  !!shortcut.mod === (e.ctrlKey || e.metaKey);
+
+/**
+ * Page-wide keyboard shortcuts, ignored while typing or with Alt held. Ctrl/Cmd chords only
+ * trigger shortcuts marked `mod`.
+ */
+export function useKeyboardShortcuts(shortcuts: Shortcut[], enabled: boolean = true) {
+  // Handlers close over page state, so always run the latest ones
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.repeat || e.altKey) return;
+      if (isTypingTarget(e.target)) return;
+
+      const shortcut = shortcutsRef.current.find(s => matches(s, e));
+      if (!shortcut) return;
+
+      // Stop Space scrolling the page or pressing a focused button as well
+      e.preventDefault();
+      shortcut.action();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { microphoneConstraints } from './useVoiceRecorder';
+
+/**
+ * Opens the chosen microphone while `active` is true, e.g. to test levels before recording
+ */
+export function useMicrophoneStream(deviceId: string, active: boolean) {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!active) {
+      setStream(null);
+      return;
+    }
+
+    let cancelled = false;
+    let opened: MediaStream | null = null;
+    setError(null);
+
+    navigator.mediaDevices.getUserMedia({ audio: microphoneConstraints(deviceId) })
+      .then(result => {
+        opened = result;
+        if (cancelled) {
+          result.getTracks().forEach(track => track.stop());
+          return;
+        }
+        setStream(result);
+      })
+      .catch(err => {
+        console.error('Microphone test error:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not open the microphone');
+      });
+
+    return () => {
+      cancelled = true;
+      opened?.getTracks().forEach(track => track.stop());
+      setStream(null);
+    };
+  }, [deviceId, active]);
+
+  return { stream, error };
+}
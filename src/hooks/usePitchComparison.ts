@@ -0,0 +1,40 @@
+import { useMemo } from 'react';
+import { trackBufferPitch, PitchPoint } from '../utils/pitch';
+import { TakeAlignment, mapTakeTime } from '../utils/alignment';
+
+interface PitchComparisonOptions {
+  targetBuffer: AudioBuffer | null;
+  takeBuffer: AudioBuffer | null;
+  alignment: TakeAlignment | null;
+  startTime: number;
+  endTime: number;
+}
+
+interface PitchComparison {
+  targetContour: PitchPoint[]; // times in seconds on the target clip
+  takeContour: PitchPoint[];   // take times warped onto the target clip
+}
+
+/**
+ * Pitch contours for the target slice and the latest take, on a shared time axis.
+ * The take is warped onto the target using its DTW alignment.
+ */
+export function usePitchComparison({ targetBuffer, takeBuffer, alignment, startTime, endTime }: PitchComparisonOptions): PitchComparison {
+  const targetContour = useMemo(() => {
+    if (!targetBuffer || endTime <= startTime) return [];
+
+    return trackBufferPitch(targetBuffer, startTime, endTime)
+      .map(point => ({ ...point, time: point.time + startTime }));
+  }, [targetBuffer, startTime, endTime]);
+
+  const takeContour = useMemo(() => {
+    if (!takeBuffer || !alignment) return [];
+
+    return trackBufferPitch(takeBuffer).flatMap(point => {
+      const targetTime = mapTakeTime(alignment, point.time);
+      return targetTime === null ? [] : [{ ...point, time: targetTime + startTime }];
+    });
+  }, [takeBuffer, alignment, startTime]);
+
+  return { targetContour, takeContour };
+}
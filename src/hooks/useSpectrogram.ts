@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { toMono } from '../utils/audioFeatures';
+import {
+  computeSpectrogram,
+  FrequencyScale,
+  Spectrogram,
+  SpectrogramOptions,
+  SpectrogramRequest,
+  SpectrogramResponse,
+} from '../utils/spectrogram';
+
+// One worker serves every spectrogram on the page; replies are matched to requests by id
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (spectrogram: Spectrogram) => void; reject: (error: Error) => void }>();
+
+// A worker that failed to load or crashed can't answer anything it was sent, so every waiting
+// request fails and the next one starts a fresh worker
+function failWorker(error: Error): void {
+  worker?.terminate();
+  worker = null;
+  pending.forEach(({ reject }) => reject(error));
+  pending.clear();
+}
+
+function getWorker(): Worker | null {
+  if (!worker && typeof Worker !== 'undefined') {
+    worker = new Worker(new URL('../workers/spectrogram.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<SpectrogramResponse>) => {
+      const request = pending.get(event.data.id);
+      pending.delete(event.data.id);
+      if ('error' in event.data) {
+        request?.reject(new Error(event.data.error));
+      } else {
+        request?.resolve(event.data.spectrogram);
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      failWorker(new Error(event.message || 'Spectrogram worker failed'));
+    };
+    worker.onmessageerror = () => failWorker(new Error('Spectrogram worker sent an unreadable reply'));
+  }
+  return worker;
+}
+
+function requestSpectrogram(samples: Float32Array, sampleRate: number, options: SpectrogramOptions): Promise<Spectrogram> {
+  const target = getWorker();
+  if (!target) {
+    return new Promise(resolve => resolve(computeSpectrogram(samples, sampleRate, options)));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request: SpectrogramRequest = { id: nextRequestId++, samples, sampleRate, options };
+    pending.set(request.id, { resolve, reject });
+    target.postMessage(request, [samples.buffer]);
+  });
+}
+
+interface SpectrogramHookOptions {
+  buffer: AudioBuffer | null;
+  scale: FrequencyScale;
+  startTime?: number; // slice of the buffer to analyse; the whole buffer by default
+  endTime?: number;
+  enabled?: boolean;
+}
+
+/**
+ * Spectrogram of a buffer (or a slice of it), computed in a worker
+ */
+export function useSpectrogram({ buffer, scale, startTime, endTime, enabled = true }: SpectrogramHookOptions) {
+  const [spectrogram, setSpectrogram] = useState<Spectrogram | null>(null);
+  const [isComputing, setIsComputing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!buffer || !enabled) {
+      setSpectrogram(null);
+      setIsComputing(false);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const { samples, sampleRate } = toMono(buffer, startTime ?? 0, endTime ?? buffer.duration);
+    setIsComputing(true);
+    setError(null);
+
+    requestSpectrogram(samples, sampleRate, { scale })
+      .then(result => {
+        if (cancelled) return;
+        setSpectrogram(result);
+        setIsComputing(false);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Spectrogram failed:', err);
+        setSpectrogram(null);
+        setIsComputing(false);
+        setError(`Spectrogram failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [buffer, scale, startTime, endTime, enabled]);
+
+  return { spectrogram, isComputing, error };
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { getSharedAudioContext } from '../utils/audioPlayback';
+
+/**
+ * AnalyserNode fed by a live mic stream, for meters and live displays.
+ * It isn't connected to the speakers, so the mic is never played back.
+ */
+export function useStreamAnalyser(stream: MediaStream | null, fftSize: number = 2048): AnalyserNode | null {
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+
+  useEffect(() => {
+    if (!stream) {
+      setAnalyser(null);
+      return;
+    }
+
+    const context = getSharedAudioContext();
+    if (context.state === 'suspended') context.resume();
+    const source = context.createMediaStreamSource(stream);
+    const node = context.createAnalyser();
+    node.fftSize = fftSize;
+    source.connect(node);
+    setAnalyser(node);
+
+    return () => {
+      source.disconnect();
+      setAnalyser(null);
+    };
+  }, [stream, fftSize]);
+
+  return analyser;
+}
@@ -0,0 +1,32 @@
+import { useMemo } from 'react';
+import { toMono } from '../utils/audioFeatures';
+import { alignTake, alignWords, TakeAlignment, WordAlignment } from '../utils/alignment';
+import { SelectionRange } from '../components/AudioVisualizer';
+
+interface TakeAlignmentOptions {
+  targetBuffer: AudioBuffer | null;
+  takeBuffer: AudioBuffer | null;
+  selection: SelectionRange | null;
+}
+
+interface TakeAlignmentResult {
+  alignment: TakeAlignment | null;
+  wordAlignments: WordAlignment[];
+}
+
+/**
+ * DTW alignment of the latest take to the selected target words
+ */
+export function useTakeAlignment({ targetBuffer, takeBuffer, selection }: TakeAlignmentOptions): TakeAlignmentResult {
+  const alignment = useMemo(() => {
+    if (!targetBuffer || !takeBuffer || !selection) return null;
+    return alignTake(toMono(targetBuffer, selection.startTime, selection.endTime), toMono(takeBuffer));
+  }, [targetBuffer, takeBuffer, selection?.startTime, selection?.endTime]);
+
+  const wordAlignments = useMemo(() => {
+    if (!alignment || !selection) return [];
+    return alignWords(alignment, selection.words, selection.startTime);
+  }, [alignment, selection]);
+
+  return { alignment, wordAlignments };
+}
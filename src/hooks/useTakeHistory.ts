@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from 'react';
+import { TakeRecord, TakeUpdate, saveTake, listTakes, updateTake, deleteTake } from '../utils/takeStore';
+import { useDebug } from './useDebug';
+
+/**
+ * Takes stored for the current person and sample, with helpers to manage them
+ */
+export function useTakeHistory(personId: string, sampleId: string) {
+  const debug = useDebug('TakeHistory');
+  const [takes, setTakes] = useState<TakeRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const reportError = useCallback((action: string, err: unknown) => {
+    debug.error(`Failed to ${action}:`, err);
+    setError(`Failed to ${action}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }, [debug]);
+
+  // Load the stored takes whenever the sample changes
+  useEffect(() => {
+    let cancelled = false;
+
+    listTakes(personId, sampleId)
+      .then(stored => {
+        if (!cancelled) {
+          setTakes(stored);
+          setError(null);
+          debug.log(`Loaded ${stored.length} takes for ${personId}/${sampleId}`);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) reportError('load takes', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [personId, sampleId]);
+
+  const addTake = useCallback(async (take: Omit<TakeRecord, 'id' | 'personId' | 'sampleId' | 'name' | 'starred'>) => {
+    try {
+      const record = await saveTake({
+        ...take,
+        personId,
+        sampleId,
+        name: `Take ${new Date(take.createdAt).toLocaleString()}`,
+        starred: false,
+      });
+      setTakes(prev => [record, ...prev]);
+      return record;
+    } catch (err) {
+      reportError('save take', err);
+      return null;
+    }
+  }, [personId, sampleId, reportError]);
+
+  const editTake = useCallback(async (id: string, update: TakeUpdate) => {
+    try {
+      const updated = await updateTake(id, update);
+      if (updated) {
+        // Merge only this update's fields, so concurrent edits of the same take all survive
+        setTakes(prev => prev.map(take => (take.id === id ? { ...take, ...update } : take)));
+      }
+    } catch (err) {
+      reportError('update take', err);
+    }
+  }, [reportError]);
+
+  const removeTake = useCallback(async (id: string) => {
+    try {
+      await deleteTake(id);
+      setTakes(prev => prev.filter(take => take.id !== id));
+    } catch (err) {
+      reportError('delete take', err);
+    }
+  }, [reportError]);
+
+  return {
+    takes,
+    error,
+    addTake,
+    renameTake: (id: string, name: string) => editTake(id, { name }),
+    toggleStar: (id: string, starred: boolean) => editTake(id, { starred }),
+    editTake,
+    removeTake,
+  };
+}
@@ -0,0 +1,108 @@
+import { useCallback, useState } from 'react';
+import { TimeStamp } from '../utils/parseTimestamps';
+import { BoundaryEdge, moveBoundary } from '../utils/timestampEdits';
+
+interface EditHistory {
+  past: TimeStamp[][];
+  present: TimeStamp[];
+  future: TimeStamp[][];
+  dragOrigin: TimeStamp[] | null; // words as they were when the current drag began
+}
+
+// Older edits are dropped beyond this many undo steps
+const MAX_UNDO_STEPS = 200;
+
+export interface TimestampEditorControls {
+  words: TimeStamp[];
+  selectedIndex: number | null;
+  setSelectedIndex: (index: number | null) => void;
+  reset: (words: TimeStamp[]) => void;
+  apply: (edit: (words: TimeStamp[]) => TimeStamp[], select?: number | null) => void;
+  dragBoundary: (index: number, edge: BoundaryEdge, time: number, done: boolean) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  isDirty: boolean;
+}
+
+const record = (history: EditHistory, words: TimeStamp[]): EditHistory =>
+  words === history.present
+    ? history
+    : { past: [...history.past, history.present].slice(-MAX_UNDO_STEPS), present: words, future: [], dragOrigin: null };
+
+const sameWords = (a: TimeStamp[], b: TimeStamp[]) =>
+  a.length === b.length && a.every((word, i) => word.start === b[i].start && word.stop === b[i].stop && word.word === b[i].word);
+
+/**
+ * Working copy of a transcript's words with undo and redo. A boundary drag updates the words
+ * as it goes and counts as one step once it ends.
+ */
+export function useTimestampEditor(duration: number = Infinity): TimestampEditorControls {
+  const [history, setHistory] = useState<EditHistory>({ past: [], present: [], future: [], dragOrigin: null });
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  // Start over from a transcript, forgetting any history
+  const reset = useCallback((words: TimeStamp[]) => {
+    setHistory({
+      past: [],
+      present: words.map(({ start, stop, word, confidence }) => ({ start, stop, word, confidence })),
+      future: [],
+      dragOrigin: null,
+    });
+    setSelectedIndex(null);
+  }, []);
+
+  // Apply an edit as one undo step; `select` picks the word to select afterwards
+  const apply = useCallback((edit: (words: TimeStamp[]) => TimeStamp[], select?: number | null) => {
+    setHistory(prev => record(prev, edit(prev.present)));
+    if (select !== undefined) setSelectedIndex(select);
+  }, []);
+
+  const dragBoundary = useCallback((index: number, edge: BoundaryEdge, time: number, done: boolean) => {
+    setHistory(prev => {
+      const origin = prev.dragOrigin ?? prev.present;
+      const words = moveBoundary(prev.present, index, edge, time, duration);
+      if (!done) return { ...prev, present: words, dragOrigin: origin };
+      // A drag that ends where it began changes nothing, so it isn't an undo step either
+      if (sameWords(words, origin)) return { ...prev, present: origin, dragOrigin: null };
+      // The whole drag becomes a single step back to where it started
+      return { past: [...prev.past, origin].slice(-MAX_UNDO_STEPS), present: words, future: [], dragOrigin: null };
+    });
+  }, [duration]);
+
+  const undo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+        dragOrigin: null,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      return { past: [...prev.past, prev.present], present: prev.future[0], future: prev.future.slice(1), dragOrigin: null };
+    });
+  }, []);
+
+  const words = history.present;
+
+  return {
+    words,
+    selectedIndex: selectedIndex !== null && selectedIndex < words.length ? selectedIndex : null,
+    setSelectedIndex,
+    reset,
+    apply,
+    dragBoundary,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    isDirty: history.past.length > 0,
+  };
+}
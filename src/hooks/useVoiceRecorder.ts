@@ -1,24 +1,75 @@
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { getSharedAudioContext, loadWorkletModule } from '../utils/audioPlayback'
+import { encodeWav, concatenateChunks, WavMetadata } from '../utils/wav'
+import { decodeAudioBlob, toMono } from '../utils/audioFeatures'
+import { createSilenceDetector, SilenceDetector, SilenceTrim, trimSilence } from '../utils/vad'
 
 interface VoiceRecorderState {
   isRecording: boolean
   audioURL: string | null
+  audioBlob: Blob | null
+  stream: MediaStream | null  // live mic stream while recording, for metering
+  trim: SilenceTrim | null  // set when silence was cut from audioBlob
+  originalBlob: Blob | null  // the untrimmed take, when it was trimmed
   error: string | null
 }
 
 interface VoiceRecorderOptions {
   deviceId?: string
+  trimSilence?: boolean
+  autoStopSilenceMs?: number | null  // stop once the speaker has been quiet this long
 }
 
+// Active capture: either raw PCM through an AudioWorklet, or a MediaRecorder fallback
+type RecordingSession =
+  | {
+      kind: 'pcm'
+      stream: MediaStream
+      source: MediaStreamAudioSourceNode
+      node: AudioWorkletNode
+      sink: GainNode
+      chunks: Float32Array[]
+      sampleRate: number
+      metadata: WavMetadata
+      detector: SilenceDetector | null
+    }
+  | {
+      kind: 'media-recorder'
+      stream: MediaStream
+      recorder: MediaRecorder
+    }
+
+const WORKLET_URL = '/worklets/pcm-recorder-processor.js'
+const WORKLET_NAME = 'pcm-recorder-processor'
+
+const supportsPcmCapture = () =>
+  typeof window !== 'undefined' && 'AudioWorkletNode' in window
+
+/**
+ * Mic constraints used for takes, so a mic test hears what a recording would
+ */
+export const microphoneConstraints = (deviceId?: string): MediaTrackConstraints => ({
+  deviceId: deviceId ? { exact: deviceId } : undefined,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+})
+
 export function useVoiceRecorder(options: VoiceRecorderOptions = {}) {
+  const trimEnabled = options.trimSilence ?? false
   const [state, setState] = useState<VoiceRecorderState>({
     isRecording: false,
     audioURL: null,
+    audioBlob: null,
+    stream: null,
+    trim: null,
+    originalBlob: null,
     error: null,
   })
-  const [mediaRecorder, setMediaRecorder] = useState<MediaRecorder | null>(null)
+  const sessionRef = useRef<RecordingSession | null>(null)
+  const stopRecordingRef = useRef<() => void>(() => {})
   const [isIOS, setIsIOS] = useState(false)
-  
+
   // Detect iOS on mount
   useEffect(() => {
     const iOS = /iPad|iPhone|iPod/.test(navigator.userAgent) && !(window as any).MSStream;
@@ -26,100 +77,181 @@ export function useVoiceRecorder(options: VoiceRecorderOptions = {}) {
     console.log(`Device detected: ${iOS ? 'iOS' : 'non-iOS'}`);
   }, [])
 
-  const startRecording = useCallback(async () => {
+  const finishRecording = useCallback((blob: Blob, trim: SilenceTrim | null = null, originalBlob: Blob | null = null) => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          deviceId: options.deviceId ? { exact: options.deviceId } : undefined,
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        } 
-      })
-      
-      // Try different mimeTypes for better iOS compatibility
-      let recorder: MediaRecorder;
-      const mimeTypes = isIOS 
-        ? ['audio/mp4', 'audio/aac', 'audio/x-m4a', ''] // iOS preferred formats
-        : ['audio/webm', 'audio/ogg', '']; // Other browsers
-      
-      // Try formats in order until one works
-      let usedMimeType = '';
-      for (const mimeType of mimeTypes) {
-        try {
-          if (mimeType && MediaRecorder.isTypeSupported(mimeType)) {
-            recorder = new MediaRecorder(stream, { mimeType });
-            usedMimeType = mimeType;
-            console.log(`Using supported mimeType: ${mimeType}`);
-            break;
-          } else if (!mimeType) {
-            // Last resort - let browser choose format
-            recorder = new MediaRecorder(stream);
-            console.log('Using default MediaRecorder without mimeType');
-            break;
-          }
-        } catch (e) {
-          console.log(`MimeType ${mimeType} not supported, trying next...`);
-          continue;
+      const url = URL.createObjectURL(blob)
+      console.log(`Blob created, type: ${blob.type}, size: ${blob.size} bytes, URL: ${url.slice(0, 30)}...`);
+      setState(prev => ({ ...prev, audioURL: url, audioBlob: blob, trim, originalBlob, isRecording: false }))
+    } catch (e) {
+      console.error('Error creating blob:', e);
+      setState(prev => ({
+        ...prev,
+        error: `Failed to process recording: ${e instanceof Error ? e.message : 'Unknown error'}`,
+        isRecording: false
+      }))
+    }
+  }, [])
+
+  // Capture raw PCM through an AudioWorklet so the take can be saved as a real WAV
+  const startPcmCapture = useCallback(async (stream: MediaStream, metadata: WavMetadata) => {
+    const context = getSharedAudioContext()
+    if (context.state === 'suspended') {
+      await context.resume()
+    }
+
+    await loadWorkletModule(context, WORKLET_URL)
+
+    const source = context.createMediaStreamSource(stream)
+    const node = new AudioWorkletNode(context, WORKLET_NAME)
+    const chunks: Float32Array[] = []
+
+    const detector = options.autoStopSilenceMs
+      ? createSilenceDetector(context.sampleRate, options.autoStopSilenceMs)
+      : null
+
+    node.port.onmessage = (event) => {
+      if (event.data.type === 'samples') {
+        chunks.push(event.data.samples)
+        if (detector?.push(event.data.samples)) {
+          console.log(`Auto-stopping after ${options.autoStopSilenceMs}ms of silence`);
+          stopRecordingRef.current()
         }
       }
-      
-      if (!recorder!) {
-        // Fallback if all else fails
-        recorder = new MediaRecorder(stream);
-        console.log('Fallback: using default MediaRecorder');
+    }
+
+    // The worklet must be connected to the destination to be pulled; keep it silent
+    const sink = context.createGain()
+    sink.gain.value = 0
+    source.connect(node)
+    node.connect(sink)
+    sink.connect(context.destination)
+
+    sessionRef.current = { kind: 'pcm', stream, source, node, sink, chunks, sampleRate: context.sampleRate, metadata, detector }
+    console.log(`PCM capture started at ${context.sampleRate}Hz`);
+  }, [options.autoStopSilenceMs])
+
+  const startMediaRecorder = useCallback((stream: MediaStream, metadata: WavMetadata) => {
+    // Try different mimeTypes for better iOS compatibility
+    const mimeTypes = isIOS
+      ? ['audio/mp4', 'audio/aac', 'audio/x-m4a'] // iOS preferred formats
+      : ['audio/webm', 'audio/ogg']; // Other browsers
+    const mimeType = mimeTypes.find(type => MediaRecorder.isTypeSupported(type))
+    const recorder = mimeType ? new MediaRecorder(stream, { mimeType }) : new MediaRecorder(stream)
+    console.log(`Using MediaRecorder fallback with mimeType: ${recorder.mimeType || 'browser default'}`);
+
+    const chunks: Blob[] = []
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) {
+        chunks.push(e.data)
+        console.log(`Recording chunk received: ${e.data.size} bytes`);
       }
-      
-      const chunks: BlobPart[] = []
+    }
 
-      recorder.ondataavailable = (e) => {
-        if (e.data.size > 0) {
-          chunks.push(e.data)
-          console.log(`Recording chunk received: ${e.data.size} bytes`);
-        }
+    recorder.onstop = () => {
+      // Use the type the recorder actually produced rather than guessing from the platform
+      const blobType = recorder.mimeType || chunks[0]?.type || (isIOS ? 'audio/mp4' : 'audio/webm')
+      const blob = new Blob(chunks, { type: blobType })
+      if (!trimEnabled) {
+        finishRecording(blob)
+        return
       }
-      
-      recorder.onstop = () => {
-        // Choose blob type based on platform
-        const blobType = isIOS ? 'audio/mp4' : 'audio/webm';
-        console.log(`Creating blob with type: ${blobType}`);
-        
+
+      // Compressed takes are decoded to trim them, so the trimmed copy is saved as WAV
+      decodeAudioBlob(blob)
+        .then(buffer => {
+          const { samples, sampleRate } = toMono(buffer)
+          const trimmed = trimSilence(samples, sampleRate)
+          finishRecording(encodeWav(trimmed.samples, sampleRate, metadata), trimmed.trim, blob)
+        })
+        .catch(error => {
+          console.error('Failed to trim recording, keeping it whole:', error);
+          finishRecording(blob)
+        })
+    }
+
+    recorder.start()
+    sessionRef.current = { kind: 'media-recorder', stream, recorder }
+  }, [isIOS, trimEnabled, finishRecording])
+
+  const startRecording = useCallback(async (metadata: WavMetadata = {}) => {
+    let stream: MediaStream | null = null
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: microphoneConstraints(options.deviceId)
+      })
+
+      const takeMetadata: WavMetadata = {
+        software: 'Impersonator',
+        date: new Date().toISOString(),
+        ...metadata,
+      }
+
+      let pcmStarted = false
+      if (supportsPcmCapture()) {
         try {
-          const blob = new Blob(chunks, { type: blobType })
-          const url = URL.createObjectURL(blob)
-          console.log(`Blob created, size: ${blob.size} bytes, URL: ${url.slice(0, 30)}...`);
-          setState(prev => ({ ...prev, audioURL: url, isRecording: false }))
-        } catch (e) {
-          console.error('Error creating blob:', e);
-          setState(prev => ({ 
-            ...prev, 
-            error: `Failed to process recording: ${e instanceof Error ? e.message : 'Unknown error'}`,
-            isRecording: false 
-          }))
+          await startPcmCapture(stream, takeMetadata)
+          pcmStarted = true
+        } catch (error) {
+          // A worklet that won't load or a context that won't resume still leaves MediaRecorder
+          console.error('PCM capture failed, falling back to MediaRecorder:', error);
         }
       }
+      if (!pcmStarted) {
+        startMediaRecorder(stream, takeMetadata)
+      }
 
-      recorder.start()
-      console.log('MediaRecorder started');
-      setMediaRecorder(recorder)
-      setState(prev => ({ ...prev, isRecording: true, error: null }))
+      setState(prev => ({ ...prev, isRecording: true, stream, error: null }))
     } catch (error) {
       console.error('Recording error:', error);
-      setState(prev => ({ 
-        ...prev, 
+      // Release the mic so the browser's recording indicator goes off
+      stream?.getTracks().forEach(track => track.stop())
+      setState(prev => ({
+        ...prev,
         error: `Failed to access microphone: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        isRecording: false 
+        isRecording: false
       }))
     }
-  }, [options.deviceId, isIOS])
+  }, [options.deviceId, startPcmCapture, startMediaRecorder])
 
   const stopRecording = useCallback(() => {
-    if (mediaRecorder && mediaRecorder.state !== 'inactive') {
-      mediaRecorder.stop()
+    const session = sessionRef.current
+    if (!session) return
+    sessionRef.current = null
+
+    if (session.kind === 'pcm') {
+      // Wait for the worklet to confirm so every sample it captured has been delivered
+      session.node.port.onmessage = (event) => {
+        if (event.data.type === 'samples') {
+          session.chunks.push(event.data.samples)
+        } else if (event.data.type === 'stopped') {
+          session.source.disconnect()
+          session.node.disconnect()
+          session.sink.disconnect()
+          const samples = concatenateChunks(session.chunks)
+          if (trimEnabled) {
+            const trimmed = trimSilence(samples, session.sampleRate)
+            finishRecording(
+              encodeWav(trimmed.samples, session.sampleRate, session.metadata),
+              trimmed.trim,
+              encodeWav(samples, session.sampleRate, session.metadata),
+            )
+          } else {
+            finishRecording(encodeWav(samples, session.sampleRate, session.metadata))
+          }
+        }
+      }
+      session.node.port.postMessage('stop')
+      console.log('PCM capture stopped');
+    } else if (session.recorder.state !== 'inactive') {
+      session.recorder.stop()
       console.log('MediaRecorder stopped');
-      mediaRecorder.stream.getTracks().forEach(track => track.stop())
     }
-  }, [mediaRecorder])
+
+    session.stream.getTracks().forEach(track => track.stop())
+    setState(prev => ({ ...prev, stream: null }))
+  }, [trimEnabled, finishRecording])
+  stopRecordingRef.current = stopRecording
 
   return {
     ...state,
@@ -127,4 +259,4 @@ export function useVoiceRecorder(options: VoiceRecorderOptions = {}) {
     stopRecording,
     isIOS
   }
-} 
\ No newline at end of file
+}
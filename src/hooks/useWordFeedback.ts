@@ -0,0 +1,33 @@
+import { useMemo } from 'react';
+import { toMono } from '../utils/audioFeatures';
+import { WordAlignment } from '../utils/alignment';
+import { computeWordFeedback, WordFeedback } from '../utils/wordFeedback';
+import { trackBufferPitch } from '../utils/pitch';
+import { SelectionRange } from '../components/AudioVisualizer';
+
+interface WordFeedbackOptions {
+  targetBuffer: AudioBuffer | null;
+  takeBuffer: AudioBuffer | null;
+  selection: SelectionRange | null;
+  wordAlignments: WordAlignment[];
+  tips?: string[];
+}
+
+/**
+ * Per-word comparison of the latest take against the selected target words
+ */
+export function useWordFeedback({ targetBuffer, takeBuffer, selection, wordAlignments, tips }: WordFeedbackOptions): WordFeedback[] {
+  return useMemo(() => {
+    if (!targetBuffer || !takeBuffer || !selection || wordAlignments.length === 0) return [];
+
+    return computeWordFeedback(
+      toMono(targetBuffer, selection.startTime, selection.endTime),
+      toMono(takeBuffer),
+      wordAlignments,
+      selection.startTime,
+      tips ?? [],
+      trackBufferPitch(targetBuffer, selection.startTime, selection.endTime),
+      trackBufferPitch(takeBuffer),
+    );
+  }, [targetBuffer, takeBuffer, selection, wordAlignments, tips]);
+}
@@ -1,11 +1,46 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { AudioVisualizer, TimeStamp, SelectionRange, AudioVisualizerHandle } from '../components/AudioVisualizer';
-import { parseTimestampsCSV } from '../utils/parseTimestamps';
+import { loadTranscript, TranscriptFormat } from '../utils/transcripts';
+import { TranscriptDiagnostic, validateTranscript } from '../utils/transcriptValidation';
+import { TranscriptWarnings } from '../components/TranscriptWarnings';
+import { useTimestampEditor } from '../hooks/useTimestampEditor';
+import { TimestampEditor } from '../components/TimestampEditor';
 import { useVoiceRecorder } from '../hooks/useVoiceRecorder';
 import { logger, createTimer, trackRender } from '../utils/debug';
 import { AudioWaveform } from '../components/AudioWaveform';
+import { WaveformMode } from '../utils/waveformRenderer';
 import { useDebug } from '../hooks/useDebug';
+import { useImitationScore } from '../hooks/useImitationScore';
+import { ScoreBadge } from '../components/ScoreBadge';
+import { usePitchComparison } from '../hooks/usePitchComparison';
+import { PitchGraph } from '../components/PitchGraph';
+import { useFormantComparison } from '../hooks/useFormantComparison';
+import { VowelChart } from '../components/VowelChart';
+import { LivePitchTrace } from '../components/LivePitchTrace';
+import { Teleprompter } from '../components/Teleprompter';
+import { useStreamAnalyser } from '../hooks/useStreamAnalyser';
+import { useTakeAlignment } from '../hooks/useTakeAlignment';
+import { TakeWordStrip } from '../components/TakeWordStrip';
+import { useWordFeedback } from '../hooks/useWordFeedback';
+import { WordFeedbackReport } from '../components/WordFeedbackReport';
+import { WordGrade } from '../utils/wordFeedback';
+import { useTakeHistory } from '../hooks/useTakeHistory';
+import { TakesPanel } from '../components/TakesPanel';
+import { extensionForMimeType } from '../utils/wav';
+import { useDrillLoop } from '../hooks/useDrillLoop';
+import { DrillPanel } from '../components/DrillPanel';
+import { OverlayMixer } from '../components/OverlayMixer';
+import { SpectrogramComparison } from '../components/SpectrogramComparison';
+import { ShortcutCheatSheet } from '../components/ShortcutCheatSheet';
+import { Shortcut, useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { speechOnsetOffset } from '../utils/alignment';
+import { useAudioTransport } from '../hooks/useAudioTransport';
+import { getSharedAudioContext } from '../utils/audioPlayback';
+import { decodeAudioBlob, toMono } from '../utils/audioFeatures';
+import { LOUDNESS_ADVICE, LoudnessSummary, summarizeLoudness } from '../utils/loudness';
+import { InputLevelMeter } from '../components/InputLevelMeter';
+import { useMicrophoneStream } from '../hooks/useMicrophoneStream';
 
 interface AudioDevice {
   deviceId: string;
@@ -21,6 +56,7 @@ interface Sample {
   duration: number;
   audioFile: string;
   transcriptFile: string;
+  transcriptFormat?: TranscriptFormat; // otherwise taken from the file extension
   fullText: string;
   tags: string[];
   tips: string[];
@@ -40,6 +76,22 @@ interface Person {
   samples: Sample[];
 }
 
+// Transport tag for the most recent recording, as opposed to stored takes played from the panel
+const LATEST_TAKE_TAG = 'latest';
+
+const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5];
+
+// Display modes for the live waveform panel
+const WAVEFORM_MODES: Array<{ mode: WaveformMode; label: string }> = [
+  { mode: 'oscilloscope', label: 'Scope' },
+  { mode: 'spectrum', label: 'Spectrum' },
+  { mode: 'history', label: 'History' },
+  { mode: 'lissajous', label: 'Lissajous' },
+];
+
+// Silence lengths offered for auto-stop, in milliseconds
+const AUTO_STOP_OPTIONS = [500, 1000, 1500, 2000, 3000];
+
 export const Training = () => {
   // Debug logger
   const debug = useDebug('Training');
@@ -56,44 +108,183 @@ export const Training = () => {
   // Audio state
   const [audioDevices, setAudioDevices] = useState<AudioDevice[]>([]);
   const [selectedDevice, setSelectedDevice] = useState<string>('');
-  const [playbackRate, setPlaybackRate] = useState<number>(1.0);
-  const [volume, setVolume] = useState<number>(1.0);
   const [showVolumeSlider, setShowVolumeSlider] = useState<boolean>(false);
   const [showPlaybackRateMenu, setShowPlaybackRateMenu] = useState<boolean>(false);
+  const [showShortcuts, setShowShortcuts] = useState<boolean>(false);
   const [currentSelection, setCurrentSelection] = useState<SelectionRange | null>(null);
-  const [selectionPlayheadTime, setSelectionPlayheadTime] = useState<number>(0);
-  const [isTargetPlaying, setIsTargetPlaying] = useState<boolean>(false);
-  const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const [timestamps, setTimestamps] = useState<TimeStamp[]>([]);
-  const [isRecordingPlaying, setIsRecordingPlaying] = useState<boolean>(false);
+  // Phone tier, when the transcript has one
+  const [phones, setPhones] = useState<TimeStamp[]>([]);
+  // Problems the transcript loader ran into (bad rows, missing file)
+  const [transcriptIssues, setTranscriptIssues] = useState<TranscriptDiagnostic[]>([]);
   const [error, setError] = useState<Error | null>(null);
   const [isHoveringRecordButton, setIsHoveringRecordButton] = useState<boolean>(false);
   const [recordingSaved, setRecordingSaved] = useState<boolean>(false);
   const [transcriptFile, setTranscriptFile] = useState<string>('');
   const [audioUrl, setAudioUrl] = useState<string>('');
+  // Selection that was active when the current take was recorded
+  const [recordedSelection, setRecordedSelection] = useState<SelectionRange | null>(null);
+  // Decoded target clip, shared by the analysis views
+  const [targetBuffer, setTargetBuffer] = useState<AudioBuffer | null>(null);
+
+  // All playback (full clip, selection, takes) goes through one transport, so sources never overlap
+  const { transport, state: transportState } = useAudioTransport();
+  const isPlaying = transportState.mode === 'playing-main';
+  const isTargetPlaying = transportState.mode === 'playing-selection';
+  const isRecordingPlaying = transportState.mode === 'playing-take' && transportState.tag === LATEST_TAKE_TAG;
+  const isOverlayPlaying = transportState.mode === 'playing-overlay';
+  const { playbackRate, volume } = transportState;
 
   // Refs
   const visualizerRef = useRef<AudioVisualizerHandle>(null);
-  const targetVisualizerRef = useRef<AudioVisualizerHandle>(null);
-  const recordingAudioRef = useRef<HTMLAudioElement | null>(null);
   const volumeSliderRef = useRef<HTMLDivElement>(null);
   const volumeControlRef = useRef<HTMLDivElement>(null);
   const playbackRateControlRef = useRef<HTMLDivElement>(null);
   
   // Recording state
-  const { audioURL, isRecording, startRecording, stopRecording, isIOS } = useVoiceRecorder({
-    deviceId: selectedDevice
+  // Silence handling: trim lead-in/tail from takes and optionally stop once the speaker goes quiet
+  const [trimTakeSilence, setTrimTakeSilence] = useState<boolean>(true);
+  const [autoStopSilenceMs, setAutoStopSilenceMs] = useState<number | null>(null);
+
+  const {
+    audioURL,
+    audioBlob,
+    isRecording,
+    stream: recordingStream,
+    trim: takeTrim,
+    originalBlob: untrimmedBlob,
+    startRecording,
+    stopRecording,
+  } = useVoiceRecorder({
+    deviceId: selectedDevice,
+    trimSilence: trimTakeSilence,
+    autoStopSilenceMs,
+  });
+
+  // Mic test: meter the input before recording; the recorder's own stream takes over while recording
+  const [isTestingMic, setIsTestingMic] = useState<boolean>(false);
+  const [showTeleprompter, setShowTeleprompter] = useState<boolean>(false);
+  const [waveformMode, setWaveformMode] = useState<WaveformMode>('oscilloscope');
+  const { stream: testStream, error: micTestError } = useMicrophoneStream(selectedDevice, isTestingMic && !isRecording);
+  const meterStream = isRecording ? recordingStream : testStream;
+
+  // Live input for the waveform and pitch trace while recording; long enough to hold a low-pitch frame
+  const liveAnalyser = useStreamAnalyser(isRecording ? recordingStream : null, 4096);
+
+  // Score each take against the selection it was recorded for (or the whole clip)
+  const { score: takeScore, takeBuffer, isScoring, error: scoreError } = useImitationScore({
+    recordingUrl: audioURL,
+    getTargetBuffer: async () => visualizerRef.current ? visualizerRef.current.getAudioBuffer() : null,
+    startTime: recordedSelection?.startTime,
+    endTime: recordedSelection?.endTime,
+  });
+
+  // Every take is stored so it survives reloads and can be compared later
+  const { takes, error: takesError, addTake, renameTake, toggleStar, editTake, removeTake } = useTakeHistory(personId, sampleId);
+  const [latestTakeId, setLatestTakeId] = useState<string | null>(null);
+  const [latestLoudness, setLatestLoudness] = useState<LoudnessSummary | null>(null);
+  const latestBlobRef = useRef<Blob | null>(null);
+  latestBlobRef.current = audioBlob;
+
+  useEffect(() => {
+    if (!audioBlob) return;
+
+    setLatestTakeId(null);
+    addTake({
+      createdAt: Date.now(),
+      selection: recordedSelection ? {
+        startTime: recordedSelection.startTime,
+        endTime: recordedSelection.endTime,
+        words: recordedSelection.words.map(w => w.word),
+      } : null,
+      deviceId: selectedDevice,
+      deviceLabel: audioDevices.find(d => d.deviceId === selectedDevice)?.label || '',
+      playbackRate,
+      score: null,
+      blob: audioBlob,
+      trim: takeTrim,
+      originalBlob: untrimmedBlob,
+    }).then(record => {
+      if (record) setLatestTakeId(record.id);
+    });
+
+    // Flag takes that clipped or were too quiet to analyse well
+    setLatestLoudness(null);
+    const blob = audioBlob;
+    decodeAudioBlob(blob)
+      .then(buffer => {
+        const { samples, sampleRate } = toMono(buffer);
+        return summarizeLoudness(samples, sampleRate);
+      })
+      .then(summary => {
+        if (blob !== latestBlobRef.current) return;
+        setLatestLoudness(summary);
+      })
+      .catch(err => console.error('Loudness measurement error:', err));
+  }, [audioBlob]);
+
+  // Attach the loudness summary to the stored take once both are ready
+  useEffect(() => {
+    if (latestTakeId && latestLoudness) {
+      editTake(latestTakeId, { loudness: latestLoudness });
+    }
+  }, [latestTakeId, latestLoudness]);
+
+  // Attach the score to the stored take once scoring finishes
+  useEffect(() => {
+    if (latestTakeId && takeScore) {
+      editTake(latestTakeId, { score: takeScore });
+    }
+  }, [latestTakeId, takeScore]);
+
+  // Only overlay the take when it was recorded for the selection being shown
+  const takeMatchesSelection = !!currentSelection && !!recordedSelection &&
+    recordedSelection.startTime === currentSelection.startTime &&
+    recordedSelection.endTime === currentSelection.endTime;
+
+  // Map each selected word onto the matching range of the take
+  const { alignment, wordAlignments } = useTakeAlignment({
+    targetBuffer,
+    takeBuffer: takeMatchesSelection ? takeBuffer : null,
+    selection: currentSelection,
+  });
+
+  // Per-word breakdown of the take, with the words called out in the tips flagged
+  const wordFeedback = useWordFeedback({
+    targetBuffer,
+    takeBuffer: takeMatchesSelection ? takeBuffer : null,
+    selection: currentSelection,
+    wordAlignments,
+    tips: currentSample?.tips,
+  });
+
+  // Feedback grades keyed by the word's index in the full transcript, for the word strip
+  const wordGrades = useMemo(() => {
+    const grades: Record<number, WordGrade> = {};
+    wordFeedback.forEach(({ word, grade }) => {
+      const index = timestamps.findIndex(ts => ts.start === word.start && ts.stop === word.stop);
+      if (index !== -1) grades[index] = grade;
+    });
+    return grades;
+  }, [wordFeedback, timestamps]);
+
+  const { targetContour, takeContour } = usePitchComparison({
+    targetBuffer,
+    takeBuffer: takeMatchesSelection ? takeBuffer : null,
+    alignment,
+    startTime: currentSelection?.startTime ?? 0,
+    endTime: currentSelection?.endTime ?? 0,
   });
   
-  // Timing references
-  const playbackStartTimeRef = useRef<number>(0);
-  const playheadStartPositionRef = useRef<number>(0);
+  // Vowel placement per word, for accent work
+  const formants = useFormantComparison({
+    targetBuffer,
+    takeBuffer: takeMatchesSelection ? takeBuffer : null,
+    selection: currentSelection,
+    wordAlignments,
+  });
   
-  // Add a persistent audio element reference at the top of the component
-  const [persistentAudioElement, setPersistentAudioElement] = useState<HTMLAudioElement | null>(null);
   const [basePath, setBasePath] = useState<string>('');
-  // Add a flag to track if audio has been initialized
-  const [audioInitialized, setAudioInitialized] = useState<boolean>(false);
   
   // Load person data
   useEffect(() => {
@@ -151,53 +342,6 @@ export const Training = () => {
     }
   }, [person, sampleId, personId, basePath]);
 
-  // Add a new effect to initialize audio when audioUrl is set
-  useEffect(() => {
-    if (!audioUrl) return;
-    
-    // Create a temporary audio element to preload the audio
-    const tempAudio = new Audio(audioUrl);
-    
-    // Force audio context initialization
-    const initAudio = async () => {
-      try {
-        // Create and resume an audio context to ensure it's active
-        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-        if (audioContext.state === 'suspended') {
-          await audioContext.resume();
-        }
-        
-        // Set up event listeners
-        tempAudio.addEventListener('canplaythrough', () => {
-          debug.success('Audio preloaded and ready to play');
-          setPersistentAudioElement(tempAudio);
-          setAudioInitialized(true);
-        });
-        
-        tempAudio.addEventListener('error', (e) => {
-          const error = tempAudio.error;
-          if (error) {
-            debug.error(`Failed to preload audio: ${error.code}`);
-          } else {
-            debug.log('Audio element error event triggered but no error details available');
-          }
-        });
-        
-        // Start loading the audio
-        tempAudio.load();
-      } catch (err) {
-        debug.error('Error initializing audio:', err);
-      }
-    };
-    
-    initAudio();
-    
-    return () => {
-      // Clean up the temporary audio element
-      tempAudio.src = '';
-    };
-  }, [audioUrl]);
-
   // Debug current sample
   useEffect(() => {
     if (currentSample) {
@@ -217,8 +361,8 @@ export const Training = () => {
     // Create a function to initialize the audio context
     const initAudioContext = async () => {
       try {
-        // Create a new audio context
-        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+        // Warm up the shared context the transport plays through
+        const audioContext = getSharedAudioContext();
         
         // Resume the audio context if it's suspended
         if (audioContext.state === 'suspended') {
@@ -274,22 +418,51 @@ export const Training = () => {
 
   // Load timestamps
   useEffect(() => {
-    debug.log(`Loading timestamps from CSV file: ${transcriptFile}`);
+    debug.log(`Loading timestamps from transcript file: ${transcriptFile}`);
     const timer = createTimer('Load Timestamps');
+    // A slow load for a sample the user has already left must not replace the new one's words
+    let cancelled = false;
     
-    parseTimestampsCSV(transcriptFile)
-      .then(data => {
-        setTimestamps(data);
-        debug.success(`Loaded ${data.length} timestamps`);
+    loadTranscript(transcriptFile, currentSample?.transcriptFormat)
+      .then(({ words, phones, diagnostics }) => {
+        if (cancelled) return;
+        setTimestamps(words);
+        setPhones(phones);
+        setTranscriptIssues(diagnostics);
+        debug.success(`Loaded ${words.length} timestamps${phones.length > 0 ? ` and ${phones.length} phones` : ''}`);
         timer.stop();
       })
       .catch(err => {
+        if (cancelled) return;
         const errorObj = err instanceof Error ? err : new Error(String(err));
         setError(errorObj);
         debug.error('Failed to load timestamps:', errorObj);
       });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [transcriptFile, currentSample?.transcriptFormat]);
+
+  // Correcting word timings by hand; the visualizer shows the working copy while it's open
+  const [isEditingTimestamps, setIsEditingTimestamps] = useState<boolean>(false);
+  const timestampEditor = useTimestampEditor(targetBuffer?.duration);
+  const shownTimestamps: TimeStamp[] = isEditingTimestamps ? timestampEditor.words : timestamps;
+
+  // A new sample closes the editor without keeping its changes
+  useEffect(() => {
+    setIsEditingTimestamps(false);
   }, [transcriptFile]);
 
+  // Timing and text checks need the decoded clip's length, so they run once it's here
+  const transcriptDiagnostics = useMemo(() => [
+    ...transcriptIssues,
+    ...validateTranscript(shownTimestamps, {
+      audioDuration: targetBuffer?.duration,
+      fullText: currentSample?.fullText,
+    }),
+  ], [transcriptIssues, shownTimestamps, targetBuffer, currentSample?.fullText]);
+
   // Load audio devices
   useEffect(() => {
     debug.log('Loading audio input devices');
@@ -333,13 +506,7 @@ export const Training = () => {
 
   const handlePlaybackRateChange = (rate: number) => {
     debug.log(`Playback rate changed to ${rate}x`);
-    setPlaybackRate(rate);
-    if (visualizerRef.current) {
-      visualizerRef.current.setPlaybackRate(rate);
-    }
-    if (targetVisualizerRef.current) {
-      targetVisualizerRef.current.setPlaybackRate(rate);
-    }
+    transport.setPlaybackRate(rate);
   };
 
   const handleSelectionChange = (selection: SelectionRange | null) => {
@@ -348,331 +515,66 @@ export const Training = () => {
       'cleared'}`);
     
     setCurrentSelection(selection);
-    
-    // Reset playhead position when selection changes
-    if (selection) {
-      setSelectionPlayheadTime(selection.startTime);
-    }
   };
 
   // Play button for main sample audio
   const handleMainPlayButton = () => {
-    debug.log('Main play button clicked');
-    debug.log(`Current state - isPlaying: ${isPlaying}, isTargetPlaying: ${isTargetPlaying}, isRecordingPlaying: ${isRecordingPlaying}`);
-    debug.log(`Audio element status - ${visualizerRef.current?.getAudioElement() ? 'main audio exists' : 'no main audio'}`);
-    debug.log(`Audio initialized: ${audioInitialized}, Persistent audio element: ${persistentAudioElement ? 'available' : 'not available'}`);
+    debug.log(`Main play button clicked, transport: ${transportState.mode}`);
     
     if (isPlaying) {
-      // If currently playing, pause main audio
       debug.log('Pausing main audio playback');
-      
-      // Try to use visualizer first, fall back to persistent audio element
-      if (visualizerRef.current?.getAudioElement()) {
-        visualizerRef.current.pause();
-      } else if (persistentAudioElement) {
-        persistentAudioElement.pause();
-      }
-      
-      setIsPlaying(false);
-    } else {
-      // If starting playback, make sure other sources are stopped
-      if (isTargetPlaying) {
-        debug.log('Stopping target playback before starting main audio');
-        setIsTargetPlaying(false);
-        targetVisualizerRef.current?.pause();
-      }
-      
-      if (isRecordingPlaying) {
-        debug.log('Stopping recording playback before starting main audio');
-        setIsRecordingPlaying(false);
-        if (recordingAudioRef.current) {
-          recordingAudioRef.current.pause();
-        }
-      }
-      
-      // Start main audio playback
+      transport.pause();
+    } else if (transport.getMainBuffer()) {
+      // Starting the clip replaces whatever else is playing
       debug.log('Starting main audio playback');
-      
-      // Try to use visualizer first
-      const mainAudio = visualizerRef.current?.getAudioElement();
-      
-      if (mainAudio) {
-        // If main audio has ended, reset it to the beginning
-        if (mainAudio.ended) {
-          debug.log('Main audio was at end, resetting to beginning');
-          mainAudio.currentTime = 0;
-        }
-        
-        // Play using the visualizer's play method
-        visualizerRef.current?.play();
-        setIsPlaying(true);
-      } 
-      // Fall back to persistent audio element if visualizer isn't ready
-      else if (persistentAudioElement && audioInitialized) {
-        debug.log('Using persistent audio element for playback');
-        
-        // Reset to beginning if needed
-        if (persistentAudioElement.ended) {
-          persistentAudioElement.currentTime = 0;
-        }
-        
-        // Play the persistent audio element directly
-        persistentAudioElement.play()
-          .then(() => {
-            debug.success('Started playback using persistent audio element');
-            setIsPlaying(true);
-          })
-          .catch(err => {
-            debug.error('Error playing persistent audio:', err);
-          });
-      } else {
-        debug.error('No audio element available for playback');
-      }
+      transport.playMain();
+    } else {
+      debug.error('Main audio is not loaded yet');
     }
   };
 
-  // Handle target audio play button click
-  const handleTargetPlayButton = () => {
+  // Handle target audio play button click; returns whether playback was started
+  const handleTargetPlayButton = (): boolean => {
     debug.log('Target play button clicked');
     
     if (isTargetPlaying) {
-      // If already playing, just pause the playback
       debug.log('Stopping target playback');
-      targetVisualizerRef.current?.pause();
-      setIsTargetPlaying(false);
+      transport.stop();
+    } else if (!transport.getMainBuffer()) {
+      debug.error('Cannot play target: Main audio is not loaded yet');
+    } else if (currentSelection) {
+      debug.log(`Playing selection ${currentSelection.startTime.toFixed(2)}s - ${currentSelection.endTime.toFixed(2)}s`);
+      transport.playSelection(currentSelection.startTime, currentSelection.endTime);
+      return true;
     } else {
-      debug.log('Starting target playback');
-      
-      // If recording is playing, stop it
-      if (isRecordingPlaying) {
-        debug.log('Stopping recording playback before playing target audio');
-        setIsRecordingPlaying(false);
-        if (recordingAudioRef.current) {
-          recordingAudioRef.current.pause();
-        }
-      }
-      
-      if (currentSelection && targetVisualizerRef.current) {
-        // If we're at the end of the selection, reset to the beginning
-        if (selectionPlayheadTime >= currentSelection.endTime - 0.1) {
-          debug.log('Resetting selection playhead to start for replay');
-          setSelectionPlayheadTime(currentSelection.startTime);
-        }
-        
-        // Set up tracking variables
-        playheadStartPositionRef.current = selectionPlayheadTime;
-        playbackStartTimeRef.current = performance.now();
-        
-        // Seek to the current selection start time and play
-        targetVisualizerRef.current.seek(selectionPlayheadTime);
-        targetVisualizerRef.current.play();
-        setIsTargetPlaying(true);
-        
-        // Don't change the main isPlaying state
-        // Just make sure audio context is maintained separately
-      } else {
-        debug.warn('Cannot play target: No selection or visualizer reference');
-      }
+      debug.warn('Cannot play target: No selection');
     }
+    return false;
   };
 
-  // Set crosshair position based on current selection
-  useEffect(() => {
-    if (currentSelection && !isTargetPlaying) {
-      debug.log(`Setting crosshair to start position: ${currentSelection.startTime.toFixed(2)}s`);
-      setSelectionPlayheadTime(currentSelection.startTime);
-    }
-  }, [currentSelection, isTargetPlaying]);
-
-  // Track target audio playback position
-  useEffect(() => {
-    if (!isTargetPlaying || !currentSelection || !targetVisualizerRef.current) {
-      return;
-    }
-    
-    debug.log(`Starting target audio tracking from ${playheadStartPositionRef.current.toFixed(2)}s`);
-    
-    // Track playback position using performance.now() for accuracy
-    const startTime = playbackStartTimeRef.current;
-    const startPosition = playheadStartPositionRef.current;
-    const endTime = currentSelection.endTime;
-    
-    const interval = setInterval(() => {
-      // Calculate elapsed time based on performance.now()
-      const elapsedMs = performance.now() - startTime;
-      const elapsedSec = elapsedMs / 1000 * playbackRate;
-      
-      // Calculate current position
-      const currentPosition = startPosition + elapsedSec;
-      
-      // Debug log for tracking (but not too frequently)
-      if (Math.round(currentPosition * 10) % 10 === 0) {
-        debug.log(`Target playback position: ${currentPosition.toFixed(2)}s / ${endTime.toFixed(2)}s`);
-      }
-      
-      // Update playhead position
-      setSelectionPlayheadTime(currentPosition);
-      
-      // Check if we've reached the end of the selection
-      if (currentPosition >= endTime - 0.01) {
-        debug.log(`Reached end of selection (${endTime.toFixed(2)}s), stopping playback`);
-        
-        // Set to exact end position before stopping
-        setSelectionPlayheadTime(endTime);
-        
-        // Stop target playback without affecting main audio
-        const targetAudio = targetVisualizerRef.current?.getAudioElement();
-        if (targetAudio) {
-          targetAudio.pause();
-          
-          // ONLY update the target playing state, not the main playing state
-          debug.log('Target playback ended - NOT affecting main audio state');
-          setIsTargetPlaying(false);
-        }
-        
-        clearInterval(interval);
-      }
-    }, 16); // ~60fps updates
-    
-    return () => {
-      debug.log('Cleaning up target audio tracking');
-      clearInterval(interval);
-    };
-  }, [isTargetPlaying, currentSelection, playbackRate, targetVisualizerRef]);
-
-  // Updated handleRecordingPlayback with more robust iOS handling
-  const handleRecordingPlayback = () => {
-    if (!audioURL) {
+  // Play the latest take, decoding it if scoring has not finished yet; resolves whether playback was started
+  const handleRecordingPlayback = async (): Promise<boolean> => {
+    if (!audioURL || !audioBlob) {
       console.log('No recording available to play');
-      return;
+      return false;
     }
     
     if (isRecordingPlaying) {
-      // Stop playback
       console.log('Stopping recording playback');
-      if (recordingAudioRef.current) {
-        recordingAudioRef.current.pause();
-      }
-      setIsRecordingPlaying(false);
-    } else {
-      // Start playback with special focus on iOS compatibility
-      console.log(`Attempting to play recording`);
-      
-      try {
-        // Special fix for iOS
-        if (isIOS) {
-          // The key fix: Create an audio element the iOS-friendly way
-          const audioElement = new Audio();
-          
-          // Set source AFTER attaching event listeners for iOS
-          audioElement.addEventListener('canplay', () => {
-            console.log('Audio can play event fired');
-            
-            // iOS requires play to be called directly from a user event handler
-            // or very soon after, so we play immediately when canplay fires
-            const playPromise = audioElement.play();
-            
-            if (playPromise !== undefined) {
-              playPromise.then(() => {
-                console.log('Play promise resolved - playback started');
-                setIsRecordingPlaying(true);
-              }).catch(err => {
-                console.error(`iOS play failed: ${err.message}`);
-                setIsRecordingPlaying(false);
-              });
-            }
-          });
-          
-          // Rest of the event listeners
-          audioElement.addEventListener('playing', () => {
-            setIsRecordingPlaying(true);
-          });
-          
-          audioElement.addEventListener('ended', () => {
-            setIsRecordingPlaying(false);
-          });
-          
-          audioElement.addEventListener('error', (e) => {
-            const error = audioElement.error;
-            // Handle SyntheticBaseEvent by checking if error exists
-            if (error) {
-              console.error(`Audio error: ${error.code}`);
-            } else {
-              // Don't log errors for SyntheticBaseEvents without actual error data
-              console.log('Audio element error event triggered but no error details available');
-            }
-            setIsRecordingPlaying(false);
-          });
-          
-          // For iOS, explicitly set these properties
-          audioElement.controls = false;
-          audioElement.volume = volume;
-          audioElement.preload = 'auto';
-          
-          // CRITICAL: Set source AFTER event listeners for iOS
-          audioElement.src = audioURL;
-          
-          // CRITICAL: Force load before play for iOS
-          audioElement.load();
-          
-          // Store reference for pause/stop functionality
-          recordingAudioRef.current = audioElement;
-          
-        } else {
-          // Non-iOS approach (simpler)
-          const audioElement = new Audio(audioURL);
-          audioElement.volume = volume; 
-          const playPromise = audioElement.play();
-          
-          if (playPromise !== undefined) {
-            playPromise
-              .then(() => {
-                setIsRecordingPlaying(true);
-              })
-              .catch(err => {
-                console.error(`Play error: ${err.message}`);
-                setIsRecordingPlaying(false);
-              });
-          } else {
-            setIsRecordingPlaying(true);
-          }
-          
-          // Event listeners
-          audioElement.addEventListener('ended', () => {
-            setIsRecordingPlaying(false);
-          });
-          
-          // Store reference
-          recordingAudioRef.current = audioElement;
-        }
-      } catch (err) {
-        console.error(`Audio error: ${err instanceof Error ? err.message : 'Unknown'}`);
-        setError(err instanceof Error ? err : new Error("Playback error"));
-      }
+      transport.stop();
+      return false;
     }
-  };
-
-  // Update recording playback rate with a smoother transition
-  useEffect(() => {
-    if (recordingAudioRef.current) {
-      console.log(`Setting recording playback rate to ${playbackRate}x`);
-      
-      // Apply playback rate change smoothly
-      try {
-        // TypeScript doesn't know about preservesPitch as it's not standard yet
-        // Use a type assertion to avoid TypeScript errors
-        const audioEl = recordingAudioRef.current as any;
-        if ('preservesPitch' in audioEl) {
-          audioEl.preservesPitch = true; // Maintain pitch when changing rate
-        }
-        recordingAudioRef.current.playbackRate = playbackRate;
-      } catch (err) {
-        // Fallback for browsers that don't support preservesPitch
-        recordingAudioRef.current.playbackRate = playbackRate;
-        console.warn('Browser might not support preservesPitch for audio playback');
-      }
+    
+    try {
+      const buffer = takeBuffer ?? await decodeAudioBlob(audioBlob);
+      transport.playTake(buffer, LATEST_TAKE_TAG);
+      return true;
+    } catch (err) {
+      console.error(`Audio error: ${err instanceof Error ? err.message : 'Unknown'}`);
+      setError(err instanceof Error ? err : new Error("Playback error"));
+      return false;
     }
-  }, [playbackRate]);
+  };
 
   // Calculate playhead position as percentage
   const calculatePlayheadPosition = (time: number): number => {
@@ -699,23 +601,6 @@ export const Training = () => {
     return position;
   };
 
-  // Handle word click in target visualizer
-  const handleWordClick = (timestamp: TimeStamp, index: number) => {
-    console.log(`Word clicked in target visualizer: "${timestamp.word}" at ${timestamp.start.toFixed(2)}s (index ${index})`);
-    
-    if (isTargetPlaying) {
-      console.log('Stopping playback before seeking');
-      setIsTargetPlaying(false);
-    }
-    
-    // Set the playhead to the clicked word's start time
-    const clickedWordStart = timestamp.start;
-    setSelectionPlayheadTime(clickedWordStart);
-    
-    // Update refs for tracking
-    playheadStartPositionRef.current = clickedWordStart;
-  };
-
   // Reset audio visualizers when audio URLs change
   useEffect(() => {
     // Add a small delay to ensure the DOM is ready
@@ -728,12 +613,6 @@ export const Training = () => {
         visualizerRef.current.seek(0);
       }
       
-      // Force refresh target visualizer if there's a selection
-      if (targetVisualizerRef.current && currentSelection) {
-        console.log('Refreshing target visualizer');
-        targetVisualizerRef.current.seek(currentSelection.startTime);
-        setSelectionPlayheadTime(currentSelection.startTime);
-      }
     }, 500);
     
     return () => clearTimeout(timer);
@@ -787,22 +666,7 @@ export const Training = () => {
   // Handle volume change 
   const handleVolumeChange = (newVolume: number) => {
     console.log(`Volume changed to ${newVolume.toFixed(2)}`);
-    
-    setVolume(newVolume);
-    
-    // Update volume in both visualizers
-    if (visualizerRef.current) {
-      visualizerRef.current.setVolume(newVolume);
-    }
-    
-    if (targetVisualizerRef.current) {
-      targetVisualizerRef.current.setVolume(newVolume);
-    }
-    
-    // Also update recording audio volume if present
-    if (recordingAudioRef.current) {
-      recordingAudioRef.current.volume = newVolume;
-    }
+    transport.setVolume(newVolume);
   };
   
   // Volume adjustment functions
@@ -884,208 +748,13 @@ export const Training = () => {
     };
   }, [showVolumeSlider, showPlaybackRateMenu]);
 
-  // Debug helper for audio elements
-  useEffect(() => {
-    if (recordingAudioRef.current) {
-      console.log('Recording audio element available');
-    }
-  }, [recordingAudioRef.current, audioURL]);
-
   // Debug rendering
   console.log('Rendering Training component');
 
-  // When audioURL changes, update the recording audio element
-  useEffect(() => {
-    if (audioURL) {
-      console.log(`Creating recording audio element for URL: ${audioURL.substring(0, 30)}...`);
-      
-      // Create audio element
-      try {
-        // Create fresh Audio element each time for better iOS compatibility
-        const audioEl = new Audio(audioURL);
-        
-        // Set volume
-        audioEl.volume = volume;
-        
-        // Set playback rate
-        audioEl.playbackRate = playbackRate;
-        
-        // Try to preserve pitch if supported
-        try {
-          if ('preservesPitch' in audioEl) {
-            audioEl.preservesPitch = true;
-            console.log('Enabled preservesPitch for recording audio');
-          }
-        } catch (err) {
-          // Ignore errors for browsers that don't support this
-        }
-        
-        // Set up event listeners for better cross-device compatibility
-        audioEl.addEventListener('ended', () => {
-          console.log('Recording audio playback ended');
-          setIsRecordingPlaying(false);
-        });
-        
-        audioEl.addEventListener('canplaythrough', () => {
-          console.log('Recording audio can play through');
-        });
-        
-        audioEl.addEventListener('error', (e) => {
-          const error = audioEl.error;
-          // Handle SyntheticBaseEvent by checking if error exists
-          if (error) {
-            console.error(`Audio error: ${error.code}`);
-          } else {
-            // Don't log errors for SyntheticBaseEvents without actual error data
-            console.log('Audio element error event triggered but no error details available');
-          }
-          setIsRecordingPlaying(false);
-        });
-        
-        // Handle iOS specific needs
-        if (isIOS) {
-          // iOS sometimes needs a user gesture to enable audio
-          // We'll preload the audio to improve playback responsiveness
-          audioEl.preload = 'auto';
-          
-          // Force load for iOS
-          audioEl.load();
-        }
-        
-        // Update ref
-        recordingAudioRef.current = audioEl;
-        
-        console.log(`Recording audio element created: ${audioURL.substring(0, 30)}...`);
-      } catch (error) {
-        console.error('Error creating audio element:', error);
-        recordingAudioRef.current = null;
-      }
-    } else if (!audioURL && recordingAudioRef.current) {
-      console.log('Cleaning up recording audio element');
-      // Clean up previous audio
-      recordingAudioRef.current = null;
-    }
-  }, [audioURL, volume, playbackRate, isIOS]);
-
-  // Update the useEffect that handles recording ended event
-  useEffect(() => {
-    if (recordingAudioRef.current) {
-      const handleEnded = () => {
-        console.log('Recording playback ended');
-        console.log(`Current state - isPlaying: ${isPlaying}, isTargetPlaying: ${isTargetPlaying}, isRecordingPlaying: ${isRecordingPlaying}`);
-        
-        // Only set the recording playing flag to false
-        // Do NOT affect the main audio isPlaying state
-        setIsRecordingPlaying(false);
-        
-        console.log('Recording playback ended - main audio state remains unchanged');
-      };
-      
-      recordingAudioRef.current.addEventListener('ended', handleEnded);
-      console.log('Adding ended listener to recording audio element');
-      
-      return () => {
-        if (recordingAudioRef.current) {
-          recordingAudioRef.current.removeEventListener('ended', handleEnded);
-          console.log('Removing ended listener from recording audio element');
-        }
-      };
-    }
-  }, [recordingAudioRef.current, isRecordingPlaying]);
-
-  // Determine which audio source to use for visualization
-  const determineAudioSource = () => {
-    console.log('==== AUDIO SOURCE DETERMINATION ====');
-    console.log(`State flags - isPlaying: ${isPlaying}, isTargetPlaying: ${isTargetPlaying}, isRecordingPlaying: ${isRecordingPlaying}`);
-    
-    let selectedSource = 'none';
-    let audioElement: HTMLAudioElement | null = null;
-    
-    // Check if recording is available and playing
-    const recordingAvailable = !!(isRecordingPlaying && recordingAudioRef.current);
-    
-    // Check if target selection is available and playing
-    const targetAudioElement = targetVisualizerRef.current?.getAudioElement();
-    const targetAvailable = !!(isTargetPlaying && targetAudioElement);
-    
-    // Check if main audio is available and playing
-    const mainAudioElement = visualizerRef.current?.getAudioElement();
-    const mainAvailable = !!(isPlaying && mainAudioElement);
-    
-    // Check if persistent audio is available
-    const persistentAvailable = !!(persistentAudioElement && audioInitialized);
-    
-    console.log(`Source availability - recording: ${recordingAvailable}, target: ${targetAvailable}, main: ${mainAvailable}, persistent: ${persistentAvailable}`);
-    
-    // Priority: recording > target > main
-    if (recordingAvailable) {
-      selectedSource = 'recording';
-      audioElement = recordingAudioRef.current;
-    } else if (targetAvailable && targetAudioElement) {
-      selectedSource = 'target';
-      audioElement = targetAudioElement;
-    } else if (mainAvailable && mainAudioElement) {
-      selectedSource = 'main';
-      audioElement = mainAudioElement;
-    } else if (persistentAvailable) {
-      selectedSource = 'persistent';
-      audioElement = persistentAudioElement;
-    }
-    
-    if (selectedSource !== 'none') {
-      console.log(`Selected source: ${selectedSource}`);
-    }
-    
-    return { source: selectedSource, element: audioElement };
-  };
-  
-  // Update the useEffect to set up the persistent audio element when component mounts
+  // Recording takes over the transport so nothing plays into the microphone
   useEffect(() => {
-    // Set up persistent audio element from the main visualizer
-    const mainAudio = visualizerRef.current?.getAudioElement();
-    
-    if (mainAudio) {
-      if (!persistentAudioElement) {
-        console.log('Setting main audio as persistent audio element for the first time');
-        setPersistentAudioElement(mainAudio);
-      } else if (persistentAudioElement !== mainAudio) {
-        console.log('Updating persistent audio element reference');
-        setPersistentAudioElement(mainAudio);
-      } else {
-        console.log('Persistent audio element already set and up to date');
-      }
-    } else {
-      console.log('Main audio element not available yet for persistent reference');
-      
-      // Schedule a retry after a short delay
-      const retryTimer = setTimeout(() => {
-        const retryAudio = visualizerRef.current?.getAudioElement();
-        if (retryAudio && !persistentAudioElement) {
-          console.log('Setting persistent audio element after retry');
-          setPersistentAudioElement(retryAudio);
-        }
-      }, 500);
-      
-      return () => clearTimeout(retryTimer);
-    }
-  }, [visualizerRef.current, audioURL]);
-
-  // Fix the handleTargetReachedEnd function
-  const handleTargetReachedEnd = () => {
-    if (!currentSelection) return;
-    
-    console.log(`Reached end of selection (${currentSelection.endTime.toFixed(2)}s), stopping playback`);
-    
-    // Just stop the target playback without affecting main audio
-    const targetAudio = targetVisualizerRef.current?.getAudioElement();
-    if (targetAudio) {
-      targetAudio.pause();
-      
-      // Update the target playing state only
-      console.log('✅ Target playback ended - keeping this independent from main audio');
-      setIsTargetPlaying(false);
-    }
-  };
+    transport.setRecording(isRecording);
+  }, [isRecording]);
 
   // Add CSS for recording indicator animation
   useEffect(() => {
@@ -1123,7 +792,15 @@ export const Training = () => {
     }
     
     try {
-      await startRecording();
+      setRecordedSelection(currentSelection);
+      // Embedded in the WAV's LIST/INFO chunk so exported takes stay identifiable
+      await startRecording({
+        title: currentSample ? `${currentSample.title} (${sampleId})` : sampleId,
+        artist: person?.name || personId,
+        comment: currentSelection
+          ? `Selection ${currentSelection.startTime.toFixed(2)}s-${currentSelection.endTime.toFixed(2)}s: "${currentSelection.words.map(w => w.word).join(' ')}"`
+          : 'Full clip',
+      });
     } catch (err) {
       setError(err instanceof Error ? err : new Error("Recording failed"));
     }
@@ -1139,18 +816,138 @@ export const Training = () => {
     setTimeout(() => {
       setRecordingSaved(false);
     }, 3000);
-    
-    // On iOS, we'll explicitly clear the audio ref after stopping
-    if (isIOS && recordingAudioRef.current) {
-      setTimeout(() => {
-        recordingAudioRef.current = null;
-      }, 100);
+  };
+
+  // Loop practice orchestrates the play-selection, record and play-recording flows
+  const drill = useDrillLoop({
+    // Record for as long as the selection took to hear at the current rate
+    recordSeconds: currentSelection ? (currentSelection.endTime - currentSelection.startTime) / playbackRate : null,
+    isTargetPlaying,
+    isRecording,
+    isTakePlaying: isRecordingPlaying,
+    takeUrl: audioURL,
+    playTarget: async () => isTargetPlaying || handleTargetPlayButton(),
+    startRecording: () => {
+      startRecordingWithDebug();
+    },
+    stopRecording: stopRecordingWithDebug,
+    playTake: async () => isRecordingPlaying || handleRecordingPlayback(),
+    stopPlayback: transport.stop,
+  });
+
+  const startEditingTimestamps = () => {
+    transport.stop();
+    visualizerRef.current?.clearSelection();
+    timestampEditor.reset(timestamps);
+    setIsEditingTimestamps(true);
+  };
+
+  const finishEditingTimestamps = (words: TimeStamp[] | null) => {
+    // The selection points at words from before the edit
+    visualizerRef.current?.clearSelection();
+    if (words) setTimestamps(words);
+    setIsEditingTimestamps(false);
+  };
+
+  const handleClearSelection = () => {
+    if (isEditingTimestamps) timestampEditor.setSelectedIndex(null);
+    if (visualizerRef.current && currentSelection) {
+      console.log('Clearing word selection');
+      
+      visualizerRef.current.clearSelection();
+      
+      // Make sure to update the current selection state
+      setCurrentSelection(null);
+    }
+  };
+
+  // Index range of the selected words in the words on screen (the editor's while editing), or null
+  // without a whole-word selection
+  const selectedWordRange = (): { first: number; last: number } | null => {
+    if (!currentSelection || currentSelection.words.length === 0) return null;
+    const indices = currentSelection.words
+      .map(word => shownTimestamps.findIndex(ts => ts.start === word.start && ts.stop === word.stop))
+      .filter(index => index !== -1);
+    return indices.length > 0 ? { first: Math.min(...indices), last: Math.max(...indices) } : null;
+  };
+
+  // Arrow keys step the selection a word at a time; with Shift they grow it instead.
+  // While editing, a single word stepped to also becomes the editor's selected word.
+  const moveWordSelection = (direction: -1 | 1, extend: boolean) => {
+    const visualizer = visualizerRef.current;
+    if (!visualizer || shownTimestamps.length === 0) return;
+
+    const selectWord = (index: number) => {
+      visualizer.selectWords(index, index);
+      if (isEditingTimestamps) timestampEditor.setSelectedIndex(index);
+    };
+
+    // The editor's word stays put through edits that move the selected range's times
+    const editorIndex = isEditingTimestamps ? timestampEditor.selectedIndex : null;
+    const range = selectedWordRange() ?? (editorIndex !== null ? { first: editorIndex, last: editorIndex } : null);
+    if (range) {
+      if (extend) {
+        visualizer.selectWords(range.first + Math.min(0, direction), range.last + Math.max(0, direction));
+      } else {
+        const next = Math.max(0, Math.min(shownTimestamps.length - 1, direction > 0 ? range.last + 1 : range.first - 1));
+        selectWord(next);
+      }
+      return;
     }
+
+    // A range between words steps to the word either side of it
+    let next = direction > 0 ? 0 : shownTimestamps.length - 1;
+    if (currentSelection) {
+      next = direction > 0
+        ? shownTimestamps.findIndex(ts => ts.start >= currentSelection.endTime - 0.001)
+        : shownTimestamps.map(ts => ts.stop <= currentSelection.startTime + 0.001).lastIndexOf(true);
+      if (next === -1) return;
+    }
+    selectWord(next);
+  };
+
+  const stepPlaybackRate = (direction: -1 | 1) => {
+    const index = PLAYBACK_RATES.indexOf(playbackRate);
+    const next = PLAYBACK_RATES[Math.max(0, Math.min(PLAYBACK_RATES.length - 1, (index === -1 ? PLAYBACK_RATES.indexOf(1) : index) + direction))];
+    if (next !== playbackRate) handlePlaybackRateChange(next);
   };
 
+  const shortcuts: Shortcut[] = [
+    { key: ' ', label: 'Space', description: 'Play / pause the full clip', action: handleMainPlayButton },
+    { key: 's', label: 'S', description: 'Play / stop the selection', action: handleTargetPlayButton },
+    {
+      key: 'r',
+      label: 'R',
+      description: 'Start / stop recording',
+      action: () => (isRecording ? stopRecordingWithDebug() : startRecordingWithDebug()),
+    },
+    { key: 't', label: 'T', description: 'Play / stop your latest take', action: handleRecordingPlayback },
+    { key: 'ArrowLeft', shift: false, label: '←', description: 'Select the previous word', action: () => moveWordSelection(-1, false) },
+    { key: 'ArrowRight', shift: false, label: '→', description: 'Select the next word', action: () => moveWordSelection(1, false) },
+    { key: 'ArrowLeft', shift: true, label: 'Shift + ←', description: 'Extend the selection left', action: () => moveWordSelection(-1, true) },
+    { key: 'ArrowRight', shift: true, label: 'Shift + →', description: 'Extend the selection right', action: () => moveWordSelection(1, true) },
+    { key: 'c', label: 'C', description: 'Clear the selection', action: handleClearSelection },
+    { key: '[', label: '[', description: 'Slower playback', action: () => stepPlaybackRate(-1) },
+    { key: ']', label: ']', description: 'Faster playback', action: () => stepPlaybackRate(1) },
+    { key: '-', label: '-', description: 'Volume down', action: decreaseVolume },
+    { key: '=', label: '=', description: 'Volume up', action: increaseVolume },
+    { key: '?', label: '?', description: 'Show / hide this list', action: () => setShowShortcuts(prev => !prev) },
+    ...(isEditingTimestamps ? [
+      { key: 'z', mod: true, shift: false, label: 'Ctrl/⌘ + Z', description: 'Undo a timestamp edit', action: timestampEditor.undo },
+      { key: 'z', mod: true, shift: true, label: 'Ctrl/⌘ + Shift + Z', description: 'Redo a timestamp edit', action: timestampEditor.redo },
+    ] : []),
+  ];
+
+  // The drill owns the transport and the recorder while it runs
+  useKeyboardShortcuts(shortcuts, !drill.isActive);
+
   return (
     <div className="container mx-auto p-4 bg-white">
       
+      {showShortcuts && (
+        <ShortcutCheatSheet shortcuts={shortcuts} onClose={() => setShowShortcuts(false)} />
+      )}
+      
       {/* Person info section */}
       {person && currentSample && (
         <div className="mb-6 bg-gradient-to-r from-blue-600 to-indigo-700 text-white rounded-lg overflow-hidden shadow-md">
@@ -1226,27 +1023,54 @@ export const Training = () => {
       
       {/* Target audio section */}
       <div className="mb-8 p-4 bg-slate-100 rounded-lg">
-        <h2 className="text-xl font-bold mb-2">Target Audio</h2>
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold">Target Audio</h2>
+          {!isEditingTimestamps && (timestamps.length > 0 || currentSample?.fullText) && (
+            <button
+              className="text-sm px-3 py-1 rounded border border-gray-300 bg-white hover:bg-gray-100 text-gray-700"
+              onClick={startEditingTimestamps}
+              title="Fix word boundaries and export a corrected CSV"
+            >
+              Edit Timestamps
+            </button>
+          )}
+        </div>
+        <TranscriptWarnings
+          key={transcriptFile}
+          diagnostics={transcriptDiagnostics}
+          fileName={transcriptFile.split('/').pop()}
+        />
         <div className="mb-4">
           <AudioVisualizer 
             ref={visualizerRef}
             audioUrl={audioUrl}
-            timestamps={timestamps}
+            timestamps={shownTimestamps}
+            phones={phones}
             onSelectionChange={handleSelectionChange}
             onPlaybackRateChange={handlePlaybackRateChange}
-            onPlayingChange={(playing) => {
-              // This is called when the main audio playing state changes
-              // Only update the main isPlaying state
-              if (isPlaying !== playing) {
-                console.log(`Main audio playing state changed to: ${playing}`);
-                setIsPlaying(playing);
-              }
-            }}
-            isPlaying={isPlaying}
+            onAudioLoaded={setTargetBuffer}
+            // Grades are per word index, which edits shift
+            wordGrades={isEditingTimestamps ? {} : wordGrades}
+            editable={isEditingTimestamps}
+            onBoundaryDrag={isEditingTimestamps ? timestampEditor.dragBoundary : undefined}
+            onTimestampClick={isEditingTimestamps ? (_, index) => timestampEditor.setSelectedIndex(index) : undefined}
             debugName="main-visualizer"
           />
         </div>
         
+        {isEditingTimestamps && (
+          <TimestampEditor
+            editor={timestampEditor}
+            phones={phones}
+            fileName={`${(transcriptFile.split('/').pop() ?? 'transcript').replace(/\.[^.]*$/, '')}.csv`}
+            getPlayheadTime={() => visualizerRef.current?.getCurrentTime() ?? 0}
+            audioBuffer={targetBuffer}
+            fullText={currentSample?.fullText}
+            onApply={(words) => finishEditingTimestamps(words)}
+            onClose={() => finishEditingTimestamps(null)}
+          />
+        )}
+        
         <div className="flex space-x-4 mb-4">
           {/* Audio controls section */}
           <div className="flex space-x-3 items-center mt-4">
@@ -1273,28 +1097,21 @@ export const Training = () => {
             {/* Clear selection button - moved from selected words section */}
               <button
               className={`px-3 py-2 rounded text-sm ${currentSelection ? 'bg-gray-200 hover:bg-gray-300 text-gray-700' : 'bg-gray-100 text-gray-400 cursor-not-allowed'}`}
-              onClick={() => {
-                if (visualizerRef.current && currentSelection) {
-                  console.log('Clearing word selection');
-                  
-                  // Clear selection in both visualizers
-                  visualizerRef.current.clearSelection();
-                  
-                  // Also reset the target visualizer if it exists
-                  if (targetVisualizerRef.current) {
-                    targetVisualizerRef.current.clearSelection();
-                  }
-                  
-                  // Make sure to update the current selection state
-                  setCurrentSelection(null);
-                  setSelectionPlayheadTime(0);
-                }
-              }}
+              onClick={handleClearSelection}
               disabled={!currentSelection}
             >
               Clear Selection
               </button>
             
+            {/* Keyboard shortcut cheat sheet */}
+            <button
+              className="px-3 py-2 rounded text-sm bg-gray-200 hover:bg-gray-300 text-gray-700"
+              onClick={() => setShowShortcuts(true)}
+              title="Keyboard shortcuts (?)"
+            >
+              ?
+            </button>
+            
             {/* Playback rate dropdown button */}
             <div className="relative" ref={playbackRateControlRef}>
               <button
@@ -1313,7 +1130,7 @@ export const Training = () => {
                 <div className="absolute p-2 bg-white shadow-md rounded-md z-10 border border-gray-300" 
                      style={{ left: 'calc(100% + 4px)', top: '0' }}>
                   <div className="flex flex-col">
-                    {[0.5, 0.75, 1, 1.25, 1.5].map((rate) => (
+                    {PLAYBACK_RATES.map((rate) => (
                       <button 
                         key={rate}
                         className={`px-3 py-1 text-left hover:bg-blue-100 rounded-sm transition-colors ${rate === playbackRate ? 'bg-blue-100 font-medium' : ''}`}
@@ -1463,24 +1280,48 @@ export const Training = () => {
               </span>
               {isRecordingPlaying ? 'Pause' : 'Play Recording'}
                         </button>
+
+            {/* Download the latest take */}
+            {audioURL && audioBlob && (
+              <a
+                className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-colors flex items-center justify-center"
+                href={audioURL}
+                download={`${personId}-${sampleId}-${Date.now()}.${extensionForMimeType(audioBlob.type)}`}
+                title="Download take"
+              >
+                Download
+              </a>
+            )}
+
+            {/* Score for the latest take */}
+            <ScoreBadge score={takeScore} isScoring={isScoring} error={scoreError} />
                     </div>
                   </div>
         
         {/* Audio Waveform Visualization */}
         <div className="mt-4 mb-4 max-w-[800px] w-full">
           
-          {/* Render the waveform component with explicit element determination */}
+          <div className="flex justify-end mb-1" style={{ gap: '4px' }}>
+            {WAVEFORM_MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                className={`border rounded px-2 text-xs ${waveformMode === mode ? 'bg-gray-800 text-white' : 'text-gray-700 bg-white hover:bg-gray-100'}`}
+                onClick={() => setWaveformMode(mode)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          
+          {/* Live waveform of whatever the transport is playing, or of the mic while recording */}
           {(() => {
-            // Determine which audio element to use
-            const { source, element } = determineAudioSource();
-            
             // Determine if audio is playing
-            const isAudioPlaying = isTargetPlaying || isRecordingPlaying || isPlaying;
+            const isAudioPlaying = isTargetPlaying || isRecordingPlaying || isOverlayPlaying || isPlaying || !!liveAnalyser;
             
             // Determine the color based on playing state and hover state
             const waveformColor = isTargetPlaying 
               ? '#00ff00'  // Bright neon green for sample audio
-              : isRecordingPlaying || isHoveringRecordButton 
+              : isRecordingPlaying || isHoveringRecordButton || liveAnalyser
                 ? '#00bfff'  // Bright cyan blue for recording or when hovering over recording button
                 : '#00ff00';  // Default to neon green when idle
             
@@ -1491,7 +1332,8 @@ export const Training = () => {
             
             return (
               <AudioWaveform 
-                audioElement={element}
+                analyser={liveAnalyser ?? transport.getAnalyser()}
+                mode={waveformMode}
                 isPlaying={isAudioPlaying}
                 color={waveformColor}
                 backgroundColor={waveformBackgroundColor}
@@ -1502,6 +1344,95 @@ export const Training = () => {
           })()}
               </div>
         
+        {/* Live pitch while recording, following the selection's contour */}
+        {isRecording && liveAnalyser && (
+          <div className="mt-4 mb-4 max-w-[800px] w-full">
+            <h3 className="text-sm font-semibold text-gray-700 mb-1">Live Pitch</h3>
+            <LivePitchTrace
+              analyser={liveAnalyser}
+              guideContour={targetContour}
+              guideStart={currentSelection?.startTime ?? 0}
+              guideRate={playbackRate}
+              words={currentSelection?.words ?? []}
+            />
+          </div>
+        )}
+        
+        {/* Pitch contour of the selection with the latest take overlaid */}
+        {currentSelection && targetContour.length > 0 && (
+          <div className="mt-4 mb-4 max-w-[800px] w-full">
+            <h3 className="text-sm font-semibold text-gray-700 mb-1">Pitch</h3>
+            <PitchGraph
+              targetContour={targetContour}
+              takeContour={takeContour}
+              words={currentSelection.words}
+              startTime={currentSelection.startTime}
+              endTime={currentSelection.endTime}
+            />
+          </div>
+        )}
+        
+        {/* Vowel space of the selection's words, with the take's beside them */}
+        {currentSelection && formants.targetWords.length > 0 && (
+          <div className="mt-4 mb-4 max-w-[800px] w-full">
+            <h3 className="text-sm font-semibold text-gray-700 mb-1">Vowel Space</h3>
+            <VowelChart
+              targetWords={formants.targetWords}
+              takeWords={formants.takeWords}
+              targetPoints={formants.targetPoints}
+              takePoints={formants.takePoints}
+            />
+          </div>
+        )}
+        
+        {/* Spectrogram of the selection, with the latest take's underneath */}
+        {currentSelection && targetBuffer && (
+          <div className="mt-4 mb-4 max-w-[800px] w-full">
+            <h3 className="text-sm font-semibold text-gray-700 mb-1">Spectrogram</h3>
+            <SpectrogramComparison
+              targetBuffer={targetBuffer}
+              selection={currentSelection}
+              takeBuffer={takeMatchesSelection ? takeBuffer : null}
+              wordAlignments={wordAlignments}
+              isTargetPlaying={isTargetPlaying || isOverlayPlaying}
+              isTakePlaying={isRecordingPlaying}
+            />
+          </div>
+        )}
+        
+        {/* Per-word feedback for the latest take */}
+        {wordFeedback.length > 0 && (
+          <div className="mt-4 mb-4 max-w-[800px] w-full">
+            <h3 className="text-sm font-semibold text-gray-700 mb-1">Word Feedback</h3>
+            <WordFeedbackReport feedback={wordFeedback} />
+          </div>
+        )}
+        
+        {/* Latest take with the selected words aligned onto it */}
+        {takeBuffer && targetBuffer && wordAlignments.length > 0 && (
+          <div className="mt-4 mb-4 max-w-[800px] w-full">
+            <h3 className="text-sm font-semibold text-gray-700 mb-1">Your Take</h3>
+            <TakeWordStrip
+              takeBuffer={takeBuffer}
+              targetBuffer={targetBuffer}
+              wordAlignments={wordAlignments}
+            />
+          </div>
+        )}
+        
+        {/* Target and take played together, each with its own level and pan */}
+        {takeMatchesSelection && takeBuffer && targetBuffer && currentSelection && alignment && (
+          <div className="mt-4 mb-4 max-w-[800px] w-full">
+            <OverlayMixer
+              targetBuffer={targetBuffer}
+              takeBuffer={takeBuffer}
+              startTime={currentSelection.startTime}
+              endTime={currentSelection.endTime}
+              alignOffset={speechOnsetOffset(alignment)}
+            />
+          </div>
+        )}
+        
         {/* Microphone and recording controls - moved here */}
         <div className="mb-4 mt-6">
           <div className="flex space-x-4 items-center">
@@ -1523,6 +1454,16 @@ export const Training = () => {
                 {isRecording ? 'Stop Recording' : 'New Recording'}
               </button>
               
+              {currentSample?.fullText && (
+                <button
+                  className={`ml-3 px-3 py-2 rounded-lg text-sm ${showTeleprompter ? 'bg-yellow-400 text-gray-900 hover:bg-yellow-500' : 'bg-gray-200 text-gray-800 hover:bg-gray-300'}`}
+                  onClick={() => setShowTeleprompter(prev => !prev)}
+                  title="Show the full text in large print, highlighted as it is spoken"
+                >
+                  Teleprompter
+                </button>
+              )}
+              
               {/* Pulsing recording indicator */}
               {isRecording && (
                 <div className="ml-3 flex items-center">
@@ -1547,6 +1488,32 @@ export const Training = () => {
               )}
             </div>
           </div>
+          {latestLoudness && latestLoudness.verdict !== 'ok' && !isRecording && (
+            <p className={`text-sm mt-2 ${latestLoudness.verdict === 'clipped' ? 'text-red-600' : 'text-yellow-700'}`}>
+              Last take: {LOUDNESS_ADVICE[latestLoudness.verdict]}
+              {` (peak ${latestLoudness.peakDb.toFixed(1)} dBFS, level ${latestLoudness.rmsDb.toFixed(1)} dBFS)`}
+            </p>
+          )}
+          {showTeleprompter && currentSample?.fullText && (
+            <div className="mt-3 max-w-[800px] w-full">
+              <Teleprompter
+                fullText={currentSample.fullText}
+                words={timestamps}
+                pace={isRecording ? { start: currentSelection?.startTime ?? 0, rate: playbackRate } : null}
+              />
+            </div>
+          )}
+        </div>
+        
+        {/* Automatic listen / record / play back loop over the selection */}
+        <div className="mb-4 max-w-[800px] w-full">
+          <DrillPanel
+            state={drill.state}
+            isActive={drill.isActive}
+            canStart={!!currentSelection && !!selectedDevice && !isRecording}
+            onStart={drill.start}
+            onStop={drill.stop}
+          />
         </div>
         
         {/* Selected audio transcript section removed as requested */}
@@ -1574,45 +1541,63 @@ export const Training = () => {
               ))}
             </select>
           </label>
+          <button
+            className={`ml-3 px-3 py-2 rounded text-sm ${isTestingMic ? 'bg-blue-500 text-white hover:bg-blue-600' : 'bg-gray-200 text-gray-800 hover:bg-gray-300'}`}
+            onClick={() => setIsTestingMic(prev => !prev)}
+            title="Show the input level without recording"
+          >
+            {isTestingMic ? 'Stop Test' : 'Test Mic'}
+          </button>
             </div>
+        {(meterStream || isTestingMic) && (
+          <div className="mt-3 max-w-md">
+            <InputLevelMeter stream={meterStream} />
+          </div>
+        )}
+        {micTestError && (
+          <p className="text-xs text-red-600 mt-1">Microphone test failed: {micTestError}</p>
+        )}
+        <div className="flex flex-wrap items-center gap-4 mt-3 text-sm">
+          <label className="flex items-center" title="Cut the silence before and after you speak; the untrimmed take is kept">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={trimTakeSilence}
+              disabled={isRecording}
+              onChange={(e) => setTrimTakeSilence(e.target.checked)}
+            />
+            Trim silence from takes
+          </label>
+          <label className="flex items-center">
+            <span className="mr-2">Auto-stop after silence:</span>
+            <select
+              className="border rounded p-1 bg-white text-gray-800"
+              value={autoStopSilenceMs ?? ''}
+              disabled={isRecording}
+              onChange={(e) => setAutoStopSilenceMs(e.target.value ? Number(e.target.value) : null)}
+            >
+              <option value="">Off</option>
+              {AUTO_STOP_OPTIONS.map(ms => (
+                <option key={ms} value={ms}>{ms / 1000}s</option>
+              ))}
+            </select>
+          </label>
+        </div>
           </div>
 
-          
-      {/* Hide target visualizer but keep it in the DOM for audio functionality */}
-      <div style={{ display: 'none', height: 0, overflow: 'hidden' }}>
-              <AudioVisualizer 
-          ref={targetVisualizerRef}
-          audioUrl={audioUrl}
-          timestamps={currentSelection ? currentSelection.words : []}
-          isPlaying={isTargetPlaying}
-          currentTime={selectionPlayheadTime}
-          onTimestampClick={handleWordClick}
-          onPlayingChange={(playing) => {
-            // This is called when the target audio ends naturally
-            // We only update isTargetPlaying, NOT the main isPlaying state
-            if (!playing && isTargetPlaying) {
-              console.log('Target audio ended naturally, keeping main audio state unchanged');
-              setIsTargetPlaying(false);
-            }
-          }}
-          readOnly={true}
-          debugName="selection-visualizer"
-        />
-              </div>
-
+      {/* Stored takes for this sample */}
+      <TakesPanel
+        takes={takes}
+        onRename={renameTake}
+        onRestoreUntrimmed={(take) => {
+          if (take.originalBlob) editTake(take.id, { blob: take.originalBlob, originalBlob: null, trim: null });
+        }}
+        onToggleStar={toggleStar}
+        onDelete={removeTake}
+        error={takesError}
+      />
 
-      {/* Hidden div for audio element and other non-visual elements */}
-      <div style={{ display: 'none' }}>
-        {/* Hidden div to render timestamp boxes for clicking */}
-        {timestamps.map((timestamp, index) => (
-          <div 
-            key={index}
-            onClick={() => handleWordClick(timestamp, index)}
-          >
-            {timestamp.word}
-              </div>
-        ))}
-      </div>
+          
       {/* Tips section moved to bottom of target audio as requested */}
       {person && currentSample && currentSample.tips.length > 0 && (
         <div className="mt-6 p-4 bg-yellow-50 rounded-lg border border-yellow-100">
@@ -0,0 +1,183 @@
+import { MonoSignal, FRAME_SECONDS, HOP_SECONDS, loudnessEnvelope, findSpeechBounds } from './audioFeatures';
+import { computeMfcc } from './mfcc';
+import { TimeStamp } from './parseTimestamps';
+
+// Pairs of [targetFrame, takeFrame] from the start of both speech regions to the end
+export type WarpPath = Array<[number, number]>;
+
+export interface TakeAlignment {
+  path: WarpPath;
+  cost: number;             // average frame distance along the path
+  targetStartFrame: number; // first speech frame of the target slice
+  takeStartFrame: number;   // first speech frame of the take
+  takeMin: Int32Array;      // earliest take frame matched to each target frame
+  takeMax: Int32Array;      // latest take frame matched to each target frame
+  targetForTake: Float32Array; // average target frame matched to each take frame
+}
+
+// Frame i covers i * HOP .. i * HOP + FRAME, so its centre is the time it represents
+const frameForTime = (time: number) => Math.round((time - FRAME_SECONDS / 2) / HOP_SECONDS);
+const timeForFrame = (frame: number) => frame * HOP_SECONDS + FRAME_SECONDS / 2;
+
+export interface WordAlignment {
+  word: TimeStamp;
+  takeStart: number; // seconds from the start of the take
+  takeStop: number;
+}
+
+function frameDistance(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const delta = a[i] - b[i];
+    sum += delta * delta;
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * Classic dynamic time warping with symmetric steps.
+ * Returns the lowest-cost path through both sequences.
+ */
+export function dtw(a: Float32Array[], b: Float32Array[]): { path: WarpPath; cost: number } {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0) return { path: [], cost: Infinity };
+
+  const cost = new Float32Array(n * m);
+  // 0 = diagonal, 1 = from above (i - 1), 2 = from the left (j - 1)
+  const step = new Uint8Array(n * m);
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < m; j++) {
+      const distance = frameDistance(a[i], b[j]);
+      const index = i * m + j;
+
+      if (i === 0 && j === 0) {
+        cost[index] = distance;
+        continue;
+      }
+
+      const diagonal = i > 0 && j > 0 ? cost[(i - 1) * m + (j - 1)] : Infinity;
+      const above = i > 0 ? cost[(i - 1) * m + j] : Infinity;
+      const left = j > 0 ? cost[i * m + (j - 1)] : Infinity;
+
+      if (diagonal <= above && diagonal <= left) {
+        cost[index] = distance + diagonal;
+        step[index] = 0;
+      } else if (above <= left) {
+        cost[index] = distance + above;
+        step[index] = 1;
+      } else {
+        cost[index] = distance + left;
+        step[index] = 2;
+      }
+    }
+  }
+
+  const path: WarpPath = [];
+  let i = n - 1;
+  let j = m - 1;
+  while (i > 0 || j > 0) {
+    path.push([i, j]);
+    const direction = step[i * m + j];
+    if (direction === 0) {
+      i--;
+      j--;
+    } else if (direction === 1) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+  path.push([0, 0]);
+  path.reverse();
+
+  return { path, cost: cost[n * m - 1] / path.length };
+}
+
+/**
+ * Align the speech in a take to the speech in the target slice.
+ * Leading and trailing silence is ignored on both sides, so the take may
+ * start at any offset and run at a different speed.
+ */
+export function alignTake(target: MonoSignal, take: MonoSignal): TakeAlignment | null {
+  const targetBounds = findSpeechBounds(loudnessEnvelope(target));
+  const takeBounds = findSpeechBounds(loudnessEnvelope(take));
+  if (!targetBounds || !takeBounds) return null;
+
+  const targetFeatures = computeMfcc(target).slice(targetBounds.startFrame, targetBounds.endFrame + 1);
+  const takeFeatures = computeMfcc(take).slice(takeBounds.startFrame, takeBounds.endFrame + 1);
+  const { path, cost } = dtw(targetFeatures, takeFeatures);
+  if (path.length === 0) return null;
+
+  const takeMin = new Int32Array(targetFeatures.length).fill(takeFeatures.length);
+  const takeMax = new Int32Array(targetFeatures.length).fill(-1);
+  const targetSums = new Float32Array(takeFeatures.length);
+  const targetCounts = new Float32Array(takeFeatures.length);
+  path.forEach(([i, j]) => {
+    if (j < takeMin[i]) takeMin[i] = j;
+    if (j > takeMax[i]) takeMax[i] = j;
+    targetSums[j] += i;
+    targetCounts[j]++;
+  });
+
+  return {
+    path,
+    cost,
+    targetStartFrame: targetBounds.startFrame,
+    takeStartFrame: takeBounds.startFrame,
+    takeMin,
+    takeMax,
+    targetForTake: targetSums.map((sum, j) => sum / Math.max(1, targetCounts[j])),
+  };
+}
+
+/**
+ * Map a time in the target slice (seconds from its start) to the matching time in the take.
+ * 'start' picks the earliest matching take frame, 'stop' the latest.
+ */
+export function mapTargetTime(alignment: TakeAlignment, targetTime: number, edge: 'start' | 'stop' | 'centre' = 'centre'): number {
+  const lastFrame = alignment.takeMin.length - 1;
+  // A stop time belongs to the frame just before it, a start time to the frame just after it
+  const edgeOffset = edge === 'start' ? HOP_SECONDS / 2 : edge === 'stop' ? -HOP_SECONDS / 2 : 0;
+  const frame = Math.max(0, Math.min(lastFrame, frameForTime(targetTime + edgeOffset) - alignment.targetStartFrame));
+  const takeFrame = edge === 'start'
+    ? alignment.takeMin[frame]
+    : edge === 'stop'
+      ? alignment.takeMax[frame]
+      : (alignment.takeMin[frame] + alignment.takeMax[frame]) / 2;
+
+  return Math.max(0, timeForFrame(alignment.takeStartFrame + takeFrame) - edgeOffset);
+}
+
+/**
+ * Map a time in the take to the matching time in the target slice (seconds from its start).
+ * Returns null outside the take's speech region.
+ */
+export function mapTakeTime(alignment: TakeAlignment, takeTime: number): number | null {
+  const frame = frameForTime(takeTime) - alignment.takeStartFrame;
+  if (frame < 0 || frame >= alignment.targetForTake.length) return null;
+  return timeForFrame(alignment.targetStartFrame + alignment.targetForTake[frame]);
+}
+
+/**
+ * Seconds the take's speech starts after the target slice's speech, for lining the two up
+ */
+export function speechOnsetOffset(alignment: TakeAlignment): number {
+  return (alignment.takeStartFrame - alignment.targetStartFrame) * HOP_SECONDS;
+}
+
+/**
+ * Find where each selected word was spoken in the take
+ */
+export function alignWords(alignment: TakeAlignment, words: TimeStamp[], selectionStart: number): WordAlignment[] {
+  return words.map(word => {
+    const takeStart = mapTargetTime(alignment, word.start - selectionStart, 'start');
+    const takeStop = mapTargetTime(alignment, word.stop - selectionStart, 'stop');
+    return {
+      word,
+      takeStart,
+      takeStop: Math.max(takeStart + HOP_SECONDS, takeStop),
+    };
+  });
+}
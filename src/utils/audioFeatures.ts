@@ -0,0 +1,151 @@
+import { getSharedAudioContext } from './audioPlayback';
+
+// Low-level feature extraction shared by the scoring and analysis modules
+
+export interface MonoSignal {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+// Analysis frame settings (seconds) used across the feature extractors
+export const FRAME_SECONDS = 0.04;
+export const HOP_SECONDS = 0.01;
+
+// Frames quieter than this (relative to the loudest frame) count as silence
+const SILENCE_THRESHOLD_DB = -35;
+
+/**
+ * Decode a recorded blob (webm/mp4/wav) into an AudioBuffer
+ */
+export async function decodeAudioBlob(blob: Blob): Promise<AudioBuffer> {
+  const arrayBuffer = await blob.arrayBuffer();
+  return getSharedAudioContext().decodeAudioData(arrayBuffer);
+}
+
+/**
+ * Mix an AudioBuffer (or a time slice of it) down to a single channel
+ */
+export function toMono(buffer: AudioBuffer, startTime: number = 0, endTime: number = buffer.duration): MonoSignal {
+  const sampleRate = buffer.sampleRate;
+  const startIndex = Math.max(0, Math.floor(startTime * sampleRate));
+  const endIndex = Math.min(buffer.length, Math.ceil(endTime * sampleRate));
+  const length = Math.max(0, endIndex - startIndex);
+  const samples = new Float32Array(length);
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      samples[i] += data[startIndex + i] / buffer.numberOfChannels;
+    }
+  }
+
+  return { samples, sampleRate };
+}
+
+/**
+ * Cut a time range out of a mono signal
+ */
+export function sliceSignal(signal: MonoSignal, startTime: number, endTime: number): MonoSignal {
+  const startIndex = Math.max(0, Math.floor(startTime * signal.sampleRate));
+  const endIndex = Math.min(signal.samples.length, Math.ceil(endTime * signal.sampleRate));
+  return {
+    samples: signal.samples.subarray(startIndex, Math.max(startIndex, endIndex)),
+    sampleRate: signal.sampleRate,
+  };
+}
+
+/**
+ * Number of analysis frames a signal produces at the shared hop size
+ */
+export function frameCount(signal: MonoSignal): number {
+  const frameSize = Math.round(FRAME_SECONDS * signal.sampleRate);
+  const hop = Math.round(HOP_SECONDS * signal.sampleRate);
+  if (signal.samples.length < frameSize) return signal.samples.length > 0 ? 1 : 0;
+  return Math.floor((signal.samples.length - frameSize) / hop) + 1;
+}
+
+/**
+ * RMS energy per frame, in decibels (full scale)
+ */
+export function loudnessEnvelope(signal: MonoSignal): Float32Array {
+  const frameSize = Math.round(FRAME_SECONDS * signal.sampleRate);
+  const hop = Math.round(HOP_SECONDS * signal.sampleRate);
+  const frames = frameCount(signal);
+  const envelope = new Float32Array(frames);
+
+  for (let f = 0; f < frames; f++) {
+    const offset = f * hop;
+    const end = Math.min(offset + frameSize, signal.samples.length);
+    let sum = 0;
+    for (let i = offset; i < end; i++) {
+      sum += signal.samples[i] * signal.samples[i];
+    }
+    const rms = Math.sqrt(sum / Math.max(1, end - offset));
+    envelope[f] = 20 * Math.log10(rms + 1e-8);
+  }
+
+  return envelope;
+}
+
+/**
+ * Find the first and last frames that rise above the silence threshold
+ */
+export function findSpeechBounds(envelope: Float32Array): { startFrame: number; endFrame: number } | null {
+  if (envelope.length === 0) return null;
+
+  let peak = -Infinity;
+  for (const value of envelope) {
+    if (value > peak) peak = value;
+  }
+
+  const threshold = peak + SILENCE_THRESHOLD_DB;
+  let startFrame = -1;
+  let endFrame = -1;
+
+  for (let i = 0; i < envelope.length; i++) {
+    if (envelope[i] >= threshold) {
+      if (startFrame === -1) startFrame = i;
+      endFrame = i;
+    }
+  }
+
+  return startFrame === -1 ? null : { startFrame, endFrame };
+}
+
+/**
+ * Reduce the sample rate by an integer factor, averaging as a crude low-pass filter
+ */
+export function downsample(signal: MonoSignal, targetRate: number): MonoSignal {
+  const factor = Math.floor(signal.sampleRate / targetRate);
+  if (factor <= 1) return signal;
+
+  const samples = new Float32Array(Math.floor(signal.samples.length / factor));
+  for (let i = 0; i < samples.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) {
+      sum += signal.samples[i * factor + j];
+    }
+    samples[i] = sum / factor;
+  }
+
+  return { samples, sampleRate: signal.sampleRate / factor };
+}
+
+/**
+ * Linearly resample a numeric series to a new length
+ */
+export function resampleSeries(series: ArrayLike<number>, length: number): Float32Array {
+  const result = new Float32Array(length);
+  if (series.length === 0 || length === 0) return result;
+  if (series.length === 1) return result.fill(series[0]);
+
+  for (let i = 0; i < length; i++) {
+    const position = (i / Math.max(1, length - 1)) * (series.length - 1);
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const next = Math.min(index + 1, series.length - 1);
+    result[i] = series[index] * (1 - fraction) + series[next] * fraction;
+  }
+
+  return result;
+}
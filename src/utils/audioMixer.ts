@@ -0,0 +1,56 @@
+// Channel strips for mixing several sources into the transport's output
+
+export interface ChannelSettings {
+  gain: number; // 0..1.5
+  pan: number;  // -1 (left) .. 1 (right)
+}
+
+export interface MixerChannel {
+  input: AudioNode;
+  apply: (settings: ChannelSettings) => void;
+  disconnect: () => void;
+}
+
+// Smoothing for live slider moves, so changes don't click
+const RAMP_SECONDS = 0.02;
+
+export const MAX_CHANNEL_GAIN = 1.5;
+
+/**
+ * Gain followed by a stereo panner, feeding `destination`.
+ * Falls back to gain only where StereoPannerNode is missing.
+ */
+export function createMixerChannel(
+  context: BaseAudioContext,
+  destination: AudioNode,
+  settings: ChannelSettings,
+): MixerChannel {
+  const gain = context.createGain();
+  const panner = typeof context.createStereoPanner === 'function' ? context.createStereoPanner() : null;
+
+  if (panner) {
+    gain.connect(panner);
+    panner.connect(destination);
+  } else {
+    gain.connect(destination);
+  }
+
+  const apply = ({ gain: level, pan }: ChannelSettings) => {
+    const now = context.currentTime;
+    gain.gain.setTargetAtTime(Math.min(MAX_CHANNEL_GAIN, Math.max(0, level)), now, RAMP_SECONDS);
+    panner?.pan.setTargetAtTime(Math.min(1, Math.max(-1, pan)), now, RAMP_SECONDS);
+  };
+
+  // Start at the requested levels rather than ramping up from the defaults
+  gain.gain.value = Math.min(MAX_CHANNEL_GAIN, Math.max(0, settings.gain));
+  if (panner) panner.pan.value = Math.min(1, Math.max(-1, settings.pan));
+
+  return {
+    input: gain,
+    apply,
+    disconnect: () => {
+      gain.disconnect();
+      panner?.disconnect();
+    },
+  };
+}
@@ -0,0 +1,42 @@
+// Shared AudioContext and the buffer range type used for playback
+
+export interface PlaybackSegment {
+  buffer: AudioBuffer;
+  start: number; // seconds into the buffer
+  end: number;
+}
+
+let sharedContext: AudioContext | null = null;
+
+/**
+ * Lazily create the AudioContext shared by decoding and buffer playback
+ */
+export function getSharedAudioContext(): AudioContext {
+  if (!sharedContext || sharedContext.state === 'closed') {
+    sharedContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  }
+  return sharedContext;
+}
+
+// Worklet modules already added (or being added) to each context, by URL
+const workletModules = new WeakMap<BaseAudioContext, Map<string, Promise<void>>>();
+
+/**
+ * Add an AudioWorklet module to a context once, however many callers need it
+ */
+export function loadWorkletModule(context: BaseAudioContext, url: string): Promise<void> {
+  let modules = workletModules.get(context);
+  if (!modules) {
+    modules = new Map();
+    workletModules.set(context, modules);
+  }
+
+  let loading = modules.get(url);
+  if (!loading) {
+    loading = context.audioWorklet.addModule(url);
+    // Allow a retry if loading failed
+    loading.catch(() => modules!.delete(url));
+    modules.set(url, loading);
+  }
+  return loading;
+}
@@ -0,0 +1,416 @@
+import { getSharedAudioContext, PlaybackSegment } from './audioPlayback';
+import { createStretchSource, isTimeStretchReady, loadTimeStretch, supportsTimeStretch } from './timeStretch';
+
+// Single playback engine for the page: every source goes through here, so only one plays at a time
+
+export type TransportMode = 'idle' | 'playing-main' | 'playing-selection' | 'playing-take' | 'playing-overlay' | 'recording';
+
+export interface TransportState {
+  mode: TransportMode;
+  tag: string | null;          // what is playing within the mode, e.g. a stored take's id
+  mainPosition: number;        // where the full clip resumes from, in seconds
+  selection: { start: number; end: number } | null; // range being played in playing-selection
+  loop: boolean;               // the selection starts over when it ends
+  playbackRate: number;
+  volume: number;
+}
+
+// One layer of an overlay: starts `delay` seconds (clip time) after the overlay begins
+export interface OverlayTrack extends PlaybackSegment {
+  delay: number;
+  output?: AudioNode; // mixer channel to play through, instead of straight into the master gain
+}
+
+export interface AudioTransport {
+  getState: () => TransportState;
+  subscribe: (listener: () => void) => () => void;
+  getPosition: () => number;
+  getAnalyser: () => AnalyserNode;
+  getOutput: () => AudioNode;
+  setMainBuffer: (buffer: AudioBuffer | null) => void;
+  getMainBuffer: () => AudioBuffer | null;
+  playMain: (from?: number) => void;
+  playSelection: (start: number, end: number, loop?: boolean) => void;
+  playTake: (buffer: AudioBuffer, tag?: string) => void;
+  playSegments: (segments: PlaybackSegment[], tag: string) => void;
+  playOverlay: (tracks: OverlayTrack[], tag: string) => void;
+  seekMain: (time: number) => void;
+  pause: () => void;
+  stop: () => void;
+  setPlaybackRate: (rate: number) => void;
+  setVolume: (volume: number) => void;
+  setRecording: (active: boolean) => void;
+}
+
+// A source scheduled on the context timeline: a plain buffer source at 1x, or the time-stretcher
+interface ScheduledSource {
+  node: AudioNode;
+  buffer: AudioBuffer;
+  when: number;    // context time the source starts
+  offset: number;  // buffer time it starts from
+  end: number;     // buffer time it stops at
+  stop: () => void;
+  onEnded: (callback: (() => void) | null) => void;
+}
+
+interface ActivePlayback {
+  sources: ScheduledSource[];
+  rate: number;
+  layout: Layout;
+}
+
+// Segments play one after another, or all together from a common start
+type Layout = 'sequence' | 'overlay';
+
+type ScheduledSegment = PlaybackSegment & { delay?: number; output?: AudioNode };
+
+// Small lead so the first sample lands exactly on the scheduled time
+const START_LATENCY_SECONDS = 0.02;
+
+// Pause between consecutive segments so they read as separate sounds
+const SEGMENT_GAP_SECONDS = 0.25;
+
+/**
+ * Create a transport bound to an AudioContext (the shared one by default)
+ */
+export function createAudioTransport(getContext: () => AudioContext = getSharedAudioContext): AudioTransport {
+  let state: TransportState = {
+    mode: 'idle',
+    tag: null,
+    mainPosition: 0,
+    selection: null,
+    loop: false,
+    playbackRate: 1,
+    volume: 1,
+  };
+  const listeners = new Set<() => void>();
+
+  let mainBuffer: AudioBuffer | null = null;
+  let active: ActivePlayback | null = null;
+  // Bumped whenever playback is stopped, so a start waiting on the worklet can tell it was cancelled
+  let scheduleToken = 0;
+
+  // Output chain, rebuilt if the context is ever replaced
+  let graph: { context: AudioContext; gain: GainNode; analyser: AnalyserNode } | null = null;
+
+  const getGraph = () => {
+    const context = getContext();
+    if (!graph || graph.context !== context) {
+      const gain = context.createGain();
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 2048;
+      gain.gain.value = state.volume;
+      gain.connect(analyser);
+      analyser.connect(context.destination);
+      graph = { context, gain, analyser };
+
+      // Load the time-stretcher up front so slowed playback can start immediately
+      if (supportsTimeStretch()) {
+        loadTimeStretch(context).catch(() => {
+          // Playback falls back to resampling, which shifts pitch
+        });
+      }
+    }
+    return graph;
+  };
+
+  const setState = (update: Partial<TransportState>) => {
+    state = { ...state, ...update };
+    listeners.forEach(listener => listener());
+  };
+
+  // Buffer time of the active playback, following whichever source is sounding now
+  const currentPosition = (): number => {
+    if (!active || !graph) return state.mainPosition;
+    const now = graph.context.currentTime;
+    // An overlay reports the position of its first track
+    const current = active.layout === 'overlay'
+      ? active.sources[0]
+      : [...active.sources].reverse().find(source => source.when <= now) ?? active.sources[0];
+    const elapsed = Math.max(0, now - current.when) * active.rate;
+    return Math.min(current.end, current.offset + elapsed);
+  };
+
+  const stopSources = () => {
+    scheduleToken++;
+    if (!active) return;
+    const stopping = active;
+    active = null;
+    stopping.sources.forEach(source => {
+      source.onEnded(null);
+      try {
+        source.stop();
+      } catch (e) {
+        // Source has already stopped
+      }
+      source.node.disconnect();
+    });
+  };
+
+  const createSource = (
+    context: AudioContext,
+    buffer: AudioBuffer,
+    offset: number,
+    end: number,
+    rate: number,
+    when: number,
+  ): ScheduledSource => {
+    // Anything but 1x goes through the time-stretcher so the pitch stays put
+    if (rate !== 1 && isTimeStretchReady(context)) {
+      const stretch = createStretchSource(context, buffer, offset, end, rate, when);
+      return { node: stretch.node, buffer, when, offset, end, stop: stretch.stop, onEnded: stretch.onEnded };
+    }
+
+    const node = context.createBufferSource();
+    node.buffer = buffer;
+    node.playbackRate.value = rate;
+    node.start(when, offset, end - offset);
+    return {
+      node,
+      buffer,
+      when,
+      offset,
+      end,
+      stop: () => node.stop(),
+      onEnded: (callback) => {
+        node.onended = callback;
+      },
+    };
+  };
+
+  // Create and start the sources for a playback; returns false if there was nothing to play
+  const startSources = (segments: ScheduledSegment[], layout: Layout, gap: number, rate: number): boolean => {
+    const { context, gain } = getGraph();
+    const sources: ScheduledSource[] = [];
+    const startTime = context.currentTime + START_LATENCY_SECONDS;
+    let when = startTime;
+
+    segments.forEach(({ buffer, start, end, delay = 0, output }) => {
+      const offset = Math.max(0, Math.min(start, buffer.duration));
+      const stop = Math.max(offset, Math.min(end, buffer.duration));
+      if (stop - offset <= 0) return;
+
+      if (layout === 'overlay') {
+        when = startTime + delay / rate;
+      }
+      const source = createSource(context, buffer, offset, stop, rate, when);
+      source.node.connect(output ?? gain);
+      sources.push(source);
+      when += (stop - offset) / rate + gap;
+    });
+
+    if (sources.length === 0) {
+      setState({ mode: 'idle', tag: null, selection: null });
+      return false;
+    }
+
+    const playback: ActivePlayback = { sources, rate, layout };
+    active = playback;
+
+    // Natural end of the last source to finish returns the transport to idle
+    const finish = (source: ScheduledSource) => source.when + (source.end - source.offset) / rate;
+    const last = sources.reduce((latest, source) => (finish(source) >= finish(latest) ? source : latest));
+    last.onEnded(() => {
+      if (active !== playback) return;
+      active = null;
+      if (state.mode === 'playing-selection' && state.loop && state.selection) {
+        transport.playSelection(state.selection.start, state.selection.end, true);
+        return;
+      }
+      setState({
+        mode: 'idle',
+        tag: null,
+        selection: null,
+        mainPosition: state.mode === 'playing-main' ? last.end : state.mainPosition,
+      });
+    });
+    return true;
+  };
+
+  // Schedule ranges back to back on the context timeline and enter the given mode
+  const schedule = (segments: ScheduledSegment[], layout: Layout, gap: number, update: Partial<TransportState>) => {
+    stopSources();
+    const token = scheduleToken;
+
+    const { context } = getGraph();
+    if (context.state === 'suspended') {
+      context.resume();
+    }
+
+    const rate = state.playbackRate;
+
+    // Slowed or sped-up playback waits for the time-stretcher if it is still loading
+    if (rate !== 1 && supportsTimeStretch() && !isTimeStretchReady(context)) {
+      setState(update);
+      loadTimeStretch(context)
+        .catch(() => {
+          // Start anyway with resampling
+        })
+        .then(() => {
+          if (token === scheduleToken) startSources(segments, layout, gap, rate);
+        });
+      return;
+    }
+
+    if (startSources(segments, layout, gap, rate)) {
+      setState(update);
+    }
+  };
+
+  const transport: AudioTransport = {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getPosition: currentPosition,
+
+    getAnalyser: () => getGraph().analyser,
+
+    getOutput: () => getGraph().gain,
+
+    setMainBuffer: (buffer) => {
+      if (buffer === mainBuffer) return;
+      if (state.mode === 'playing-main' || state.mode === 'playing-selection') {
+        stopSources();
+      }
+      mainBuffer = buffer;
+      setState({
+        mode: state.mode === 'recording' || state.mode === 'playing-take' ? state.mode : 'idle',
+        mainPosition: 0,
+        selection: null,
+      });
+    },
+
+    getMainBuffer: () => mainBuffer,
+
+    playMain: (from) => {
+      if (!mainBuffer) return;
+      let start = from ?? state.mainPosition;
+      // Restart from the top once the clip has played to the end
+      if (start >= mainBuffer.duration - 0.01) start = 0;
+      schedule([{ buffer: mainBuffer, start, end: mainBuffer.duration }], 'sequence', 0, {
+        mode: 'playing-main',
+        tag: null,
+        selection: null,
+        mainPosition: start,
+      });
+    },
+
+    playSelection: (start, end, loop = false) => {
+      if (!mainBuffer) return;
+      schedule([{ buffer: mainBuffer, start, end }], 'sequence', 0, {
+        mode: 'playing-selection',
+        tag: null,
+        selection: { start, end },
+        loop,
+      });
+    },
+
+    playTake: (buffer, tag = 'latest') => {
+      schedule([{ buffer, start: 0, end: buffer.duration }], 'sequence', 0, {
+        mode: 'playing-take',
+        tag,
+        selection: null,
+      });
+    },
+
+    playSegments: (segments, tag) => {
+      schedule(segments, 'sequence', SEGMENT_GAP_SECONDS, {
+        mode: 'playing-take',
+        tag,
+        selection: null,
+      });
+    },
+
+    playOverlay: (tracks, tag) => {
+      // A track that comes in before the others is started part way through instead
+      const segments = tracks.map(({ buffer, start, end, delay, output }) => ({
+        buffer,
+        start: start + Math.max(0, -delay),
+        end,
+        delay: Math.max(0, delay),
+        output,
+      }));
+      schedule(segments, 'overlay', 0, {
+        mode: 'playing-overlay',
+        tag,
+        selection: null,
+      });
+    },
+
+    seekMain: (time) => {
+      if (state.mode === 'playing-main') {
+        transport.playMain(time);
+      } else {
+        setState({ mainPosition: time });
+      }
+    },
+
+    pause: () => {
+      if (state.mode === 'playing-main') {
+        const position = currentPosition();
+        stopSources();
+        setState({ mode: 'idle', mainPosition: position });
+      } else {
+        transport.stop();
+      }
+    },
+
+    stop: () => {
+      stopSources();
+      if (state.mode !== 'idle') {
+        setState({ mode: 'idle', tag: null, selection: null });
+      }
+    },
+
+    setPlaybackRate: (rate) => {
+      if (rate === state.playbackRate) return;
+
+      // Source timing is fixed at schedule time, so a single range is rescheduled from where it is now
+      if (active && active.sources.length === 1) {
+        const { buffer, end } = active.sources[0];
+        const position = currentPosition();
+        state = { ...state, playbackRate: rate };
+        schedule([{ buffer, start: position, end }], 'sequence', 0, {});
+      } else {
+        setState({ playbackRate: rate });
+      }
+    },
+
+    setVolume: (volume) => {
+      const clamped = Math.min(1, Math.max(0, volume));
+      if (graph) {
+        graph.gain.gain.value = clamped;
+      }
+      setState({ volume: clamped });
+    },
+
+    setRecording: (isRecording) => {
+      if (isRecording) {
+        stopSources();
+        setState({ mode: 'recording', tag: null, selection: null });
+      } else if (state.mode === 'recording') {
+        setState({ mode: 'idle' });
+      }
+    },
+  };
+
+  return transport;
+}
+
+let sharedTransport: AudioTransport | null = null;
+
+/**
+ * The transport shared by the Training page, its visualizers and the take players
+ */
+export function getAudioTransport(): AudioTransport {
+  if (!sharedTransport) {
+    sharedTransport = createAudioTransport();
+  }
+  return sharedTransport;
+}
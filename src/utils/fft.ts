@@ -0,0 +1,86 @@
+// Minimal radix-2 FFT used by the spectral feature extractors
+
+/**
+ * Smallest power of two that is >= n
+ */
+export function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) size <<= 1;
+  return size;
+}
+
+/**
+ * Hann window of the given length
+ */
+export function hannWindow(length: number): Float32Array {
+  const window = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / Math.max(1, length - 1));
+  }
+  return window;
+}
+
+/**
+ * In-place iterative FFT. Both arrays must share a power-of-two length.
+ */
+export function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let twiddleReal = 1;
+      let twiddleImag = 0;
+
+      for (let k = 0; k < size / 2; k++) {
+        const even = start + k;
+        const odd = even + size / 2;
+        const oddReal = real[odd] * twiddleReal - imag[odd] * twiddleImag;
+        const oddImag = real[odd] * twiddleImag + imag[odd] * twiddleReal;
+
+        real[odd] = real[even] - oddReal;
+        imag[odd] = imag[even] - oddImag;
+        real[even] += oddReal;
+        imag[even] += oddImag;
+
+        const nextReal = twiddleReal * stepReal - twiddleImag * stepImag;
+        twiddleImag = twiddleReal * stepImag + twiddleImag * stepReal;
+        twiddleReal = nextReal;
+      }
+    }
+  }
+}
+
+/**
+ * Power spectrum (|X|^2) of a windowed frame, bins 0..size/2
+ */
+export function powerSpectrum(frame: Float32Array, window: Float32Array, size: number): Float32Array {
+  const real = new Float32Array(size);
+  const imag = new Float32Array(size);
+  const length = Math.min(frame.length, window.length, size);
+  for (let i = 0; i < length; i++) {
+    real[i] = frame[i] * window[i];
+  }
+
+  fft(real, imag);
+
+  const power = new Float32Array(size / 2 + 1);
+  for (let i = 0; i < power.length; i++) {
+    power[i] = real[i] * real[i] + imag[i] * imag[i];
+  }
+  return power;
+}
@@ -0,0 +1,243 @@
+import { MonoSignal, FRAME_SECONDS, HOP_SECONDS, loudnessEnvelope } from './audioFeatures';
+import { TimeStamp } from './parseTimestamps';
+import { normalizeWord } from './wordTiming';
+
+// Word timings for a sample's text without an acoustic model. There's no knowledge of what
+// the words sound like: the text only says how many words there are and roughly how long each
+// should take, and the loudness envelope says where the pauses and dips between words are.
+
+export interface AlignedWord extends TimeStamp {
+  confidence: number; // 0..1, how well the audio supported this word's boundaries
+}
+
+// Why no words could be placed
+export type AlignmentFailure = 'no-text' | 'no-speech' | 'too-short';
+
+export interface AlignmentResult {
+  words: AlignedWord[];
+  failure: AlignmentFailure | null; // set when words is empty
+}
+
+// Messages to and from the alignment worker
+export interface AlignmentRequest {
+  id: number;
+  samples: Float32Array;
+  sampleRate: number;
+  fullText: string;
+}
+
+export type AlignmentResponse =
+  | { id: number; result: AlignmentResult }
+  | { id: number; error: string };
+
+// How far above the noise floor a frame must be to count as speech
+const SPEECH_MARGIN_DB = 12;
+const NOISE_PERCENTILE = 0.1;
+
+// Weights of the segmentation cost
+const DURATION_WEIGHT = 4;     // per unit of squared log-ratio to the expected length
+const SILENCE_IN_WORD = 0.15;  // per silent frame inside a word (stop closures are short, pauses aren't)
+const SPEECH_IN_GAP = 1.5;     // per speech frame left out of every word
+const EDGE_WEIGHT = 2;         // per word edge, scaled by how loud the audio is there
+
+// Pauses between words up to this long are free; longer ones are allowed but cost this much per
+// extra second, so a word isn't pushed into the middle of a long silence without reason
+const FREE_GAP_SECONDS = 1.5;
+const LONG_GAP_PER_SECOND = 2;
+// Longest a word may stretch to its expectation (speech beyond that is left in the gaps, at a cost)
+const MAX_STRETCH = 4;
+const MIN_WORD_FRAMES = 3;
+
+// Spread of the duration fit used for confidence (natural log units)
+const DURATION_SIGMA = 0.6;
+// Natural speaking rate per wordWeight unit, and how far a word may stray from it before it's
+// suspicious: a word that takes far too long usually means the text doesn't match the audio
+const SECONDS_PER_UNIT = 0.15;
+const RATE_SIGMA = 0.9;
+
+const timeOfFrame = (frame: number) => frame * HOP_SECONDS + FRAME_SECONDS / 2;
+
+/**
+ * Words of the text as they should be written into the transcript, with surrounding punctuation removed
+ */
+export function transcriptWords(fullText: string): string[] {
+  return fullText
+    .split(/\s+/)
+    .map(token => token.replace(/^[^\p{L}\p{N}']+|[^\p{L}\p{N}']+$/gu, ''))
+    .filter(token => normalizeWord(token));
+}
+
+/**
+ * Rough spoken length of a word, in syllable-ish units
+ */
+function wordWeight(word: string): number {
+  const normalized = normalizeWord(word);
+  if (/^\d+$/.test(normalized)) return normalized.length * 1.5; // numbers are read out digit by digit or longer
+  const vowelGroups = normalized.match(/[aeiouy]+/g)?.length ?? 0;
+  // A silent final "e" doesn't make a syllable ("make", "wall" is one either way)
+  const silentE = /[^aeiouy]e$/.test(normalized) && vowelGroups > 1 ? 1 : 0;
+  return 0.5 + Math.max(1, vowelGroups - silentE) + normalized.length * 0.05;
+}
+
+/**
+ * Place each word of `fullText` in the audio. Words are laid out in order by dynamic programming
+ * over 10ms frames: each takes a stretch of frames close to its expected length, words may be
+ * separated by silent gaps, and their edges are drawn to quiet frames.
+ */
+export function alignTranscript(signal: MonoSignal, fullText: string): AlignmentResult {
+  const words = transcriptWords(fullText);
+  if (words.length === 0) return { words: [], failure: 'no-text' };
+  const envelope = loudnessEnvelope(signal);
+  const frames = envelope.length;
+  if (frames < words.length * MIN_WORD_FRAMES) return { words: [], failure: 'too-short' };
+
+  // Loudness relative to the noise floor (0) and the loudest frame (1)
+  const sorted = Array.from(envelope).sort((a, b) => a - b);
+  const floor = sorted[Math.floor(NOISE_PERCENTILE * (frames - 1))];
+  const peak = sorted[frames - 1];
+  const range = Math.max(1, peak - floor);
+  const level = Float32Array.from(envelope, value => Math.min(1, Math.max(0, (value - floor) / range)));
+  const isSpeech = Array.from(envelope, value => value > floor + SPEECH_MARGIN_DB);
+
+  // Prefix counts of speech frames, so any stretch can be costed in constant time
+  const speechBefore = new Int32Array(frames + 1);
+  for (let f = 0; f < frames; f++) speechBefore[f + 1] = speechBefore[f] + (isSpeech[f] ? 1 : 0);
+  const speechIn = (from: number, to: number) => speechBefore[to] - speechBefore[from];
+  if (speechIn(0, frames) === 0) return { words: [], failure: 'no-speech' };
+
+  const totalSpeech = Math.max(speechIn(0, frames), words.length * MIN_WORD_FRAMES);
+  const weights = words.map(wordWeight);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const expected = weights.map(weight => Math.max(MIN_WORD_FRAMES, (weight / totalWeight) * totalSpeech));
+  const freeGap = Math.round(FREE_GAP_SECONDS / HOP_SECONDS);
+  const longGapPerFrame = LONG_GAP_PER_SECOND * HOP_SECONDS;
+
+  const wordCost = (index: number, from: number, to: number) => {
+    const speech = speechIn(from, to);
+    const ratio = Math.log(Math.max(1, speech) / expected[index]);
+    const silence = to - from - speech;
+    return DURATION_WEIGHT * ratio * ratio + SILENCE_IN_WORD * silence + EDGE_WEIGHT * (level[from] + level[to - 1]);
+  };
+
+  // ended[i][t]: best cost with the first i words placed and the last one ending at frame t
+  // ready[i][t]: the same, after any pause, with the next word starting at frame t
+  const ended = new Float64Array((words.length + 1) * (frames + 1)).fill(Infinity);
+  const ready = new Float64Array((words.length + 1) * (frames + 1)).fill(Infinity);
+  const wordStartOf = new Int32Array((words.length + 1) * (frames + 1));
+  const pauseStartOf = new Int32Array((words.length + 1) * (frames + 1));
+  const at = (i: number, t: number) => i * (frames + 1) + t;
+
+  // Speech before the first word is never part of it
+  for (let t = 0; t <= frames; t++) {
+    ready[at(0, t)] = SPEECH_IN_GAP * speechIn(0, t);
+    pauseStartOf[at(0, t)] = 0;
+  }
+
+  for (let i = 0; i < words.length; i++) {
+    const maxLength = Math.max(MIN_WORD_FRAMES, Math.ceil(expected[i] * MAX_STRETCH));
+    for (let end = MIN_WORD_FRAMES; end <= frames; end++) {
+      let best = Infinity;
+      let bestStart = -1;
+      for (let start = Math.max(0, end - maxLength); start <= end - MIN_WORD_FRAMES; start++) {
+        const before = ready[at(i, start)];
+        if (before === Infinity) continue;
+        const cost = before + wordCost(i, start, end);
+        if (cost < best) {
+          best = cost;
+          bestStart = start;
+        }
+      }
+      ended[at(i + 1, end)] = best;
+      wordStartOf[at(i + 1, end)] = bestStart;
+    }
+
+    if (i + 1 === words.length) break;
+    // Pauses longer than freeGap: the cost of one starting at `pause` and ending at `next` splits into
+    // a part that depends only on `pause` and one that depends only on `next`, so the best long pause
+    // for every `next` comes from a running minimum instead of a scan back to the start
+    let bestLong = Infinity;
+    let bestLongPause = -1;
+    for (let next = 0; next <= frames; next++) {
+      const longPause = next - freeGap - 1;
+      if (longPause >= 0) {
+        const before = ended[at(i + 1, longPause)];
+        const partial = before - SPEECH_IN_GAP * speechBefore[longPause] - longGapPerFrame * longPause;
+        if (partial < bestLong) {
+          bestLong = partial;
+          bestLongPause = longPause;
+        }
+      }
+
+      let best = bestLong + SPEECH_IN_GAP * speechBefore[next] + longGapPerFrame * (next - freeGap);
+      let bestPause = bestLongPause;
+      for (let pause = Math.max(0, next - freeGap); pause <= next; pause++) {
+        const before = ended[at(i + 1, pause)];
+        if (before === Infinity) continue;
+        const cost = before + SPEECH_IN_GAP * speechIn(pause, next);
+        if (cost < best) {
+          best = cost;
+          bestPause = pause;
+        }
+      }
+      ready[at(i + 1, next)] = best;
+      pauseStartOf[at(i + 1, next)] = bestPause;
+    }
+  }
+
+  // Speech after the last word isn't part of it either
+  let lastEnd = -1;
+  let bestTotal = Infinity;
+  for (let end = 0; end <= frames; end++) {
+    const cost = ended[at(words.length, end)] + SPEECH_IN_GAP * speechIn(end, frames);
+    if (cost < bestTotal) {
+      bestTotal = cost;
+      lastEnd = end;
+    }
+  }
+  // Gaps may be any length and may hold speech, so some layout always fits once the audio is long enough
+  if (lastEnd < 0) return { words: [], failure: 'too-short' };
+
+  // Walk back through the choices
+  const spans: Array<[number, number]> = new Array(words.length);
+  let end = lastEnd;
+  for (let i = words.length; i > 0; i--) {
+    const start = wordStartOf[at(i, end)];
+    spans[i - 1] = [start, end];
+    end = pauseStartOf[at(i - 1, start)];
+  }
+
+  const duration = signal.samples.length / signal.sampleRate;
+  const aligned = spans.map(([from, to], i): AlignedWord => {
+    // Silent frames at a word's edges belong to the pause around it
+    let first = from;
+    let last = to - 1;
+    while (first < last && !isSpeech[first]) first++;
+    while (last > first && !isSpeech[last]) last--;
+
+    const speech = speechIn(first, last + 1);
+    const fit = (actual: number, target: number, sigma: number) =>
+      Math.exp(-Math.pow(Math.log(Math.max(1, actual) / target), 2) / (2 * sigma * sigma));
+    const durationFit = fit(speech, expected[i], DURATION_SIGMA);
+    const rateFit = fit(speech, (weights[i] * SECONDS_PER_UNIT) / HOP_SECONDS, RATE_SIGMA);
+
+    // A clear word edge is a dip (or silence) well below the word's loudest frame
+    let wordPeak = 0;
+    for (let f = first; f <= last; f++) wordPeak = Math.max(wordPeak, level[f]);
+    const edgeLevel = (frame: number) => (frame < 0 || frame >= frames ? 0 : level[frame]);
+    const edgeDip = (frame: number) => Math.max(0, wordPeak - edgeLevel(frame)) / Math.max(wordPeak, 1e-3);
+    const edgeClarity = (edgeDip(first - 1) + edgeDip(last + 1)) / 2;
+
+    const voiced = speech / Math.max(1, last - first + 1);
+    // An implausible speaking rate undermines everything else, so it scales the rest
+    const support = 0.4 * durationFit + 0.4 * edgeClarity + 0.2 * voiced;
+    const confidence = Math.min(1, Math.max(0, Math.sqrt(rateFit) * support));
+
+    return {
+      start: Math.max(0, timeOfFrame(first) - HOP_SECONDS / 2),
+      stop: Math.min(duration, timeOfFrame(last) + HOP_SECONDS / 2),
+      word: words[i],
+      confidence: Math.round(confidence * 100) / 100,
+    };
+  });
+  return { words: aligned, failure: null };
+}
@@ -0,0 +1,155 @@
+import { MonoSignal, FRAME_SECONDS, downsample } from './audioFeatures';
+import { trackPitch, PitchPoint } from './pitch';
+import { TimeStamp } from './parseTimestamps';
+import { median } from './stats';
+
+// LPC formant estimation for vowel-space comparisons
+
+export interface FormantPoint {
+  time: number; // seconds from the start of the analysed signal
+  f1: number;   // Hz
+  f2: number;
+}
+
+export interface WordFormants {
+  index: number; // position of the word in the list it came from
+  word: string;
+  f1: number;    // medians over the word's voiced frames
+  f2: number;
+  frames: number;
+}
+
+// The first two formants sit below ~3kHz, so a 10kHz-ish rate and a short LPC model are enough
+const ANALYSIS_SAMPLE_RATE = 10000;
+const PRE_EMPHASIS = 0.97;
+const ENVELOPE_POINTS = 256;
+const ENVELOPE_MAX_HZ = 4000;
+
+// Where each formant can plausibly fall for adult speech
+const F1_RANGE: [number, number] = [200, 1100];
+const F2_RANGE: [number, number] = [600, 3000];
+
+/**
+ * LPC coefficients a[1..order] (a[0] = 1) by autocorrelation and Levinson-Durbin
+ */
+export function lpcCoefficients(frame: Float32Array, order: number): Float64Array | null {
+  const autocorrelation = new Float64Array(order + 1);
+  for (let lag = 0; lag <= order; lag++) {
+    let sum = 0;
+    for (let i = lag; i < frame.length; i++) sum += frame[i] * frame[i - lag];
+    autocorrelation[lag] = sum;
+  }
+  if (autocorrelation[0] <= 0) return null;
+
+  const a = new Float64Array(order + 1);
+  const previous = new Float64Array(order + 1);
+  a[0] = 1;
+  let error = autocorrelation[0];
+
+  for (let i = 1; i <= order; i++) {
+    let acc = autocorrelation[i];
+    for (let j = 1; j < i; j++) acc += a[j] * autocorrelation[i - j];
+    const reflection = -acc / error;
+
+    previous.set(a);
+    for (let j = 1; j < i; j++) a[j] = previous[j] + reflection * previous[i - j];
+    a[i] = reflection;
+
+    error *= 1 - reflection * reflection;
+    if (error <= 0) return null;
+  }
+
+  return a;
+}
+
+/**
+ * Peaks of the LPC spectral envelope, in Hz, lowest first
+ */
+function envelopePeaks(a: Float64Array, sampleRate: number): number[] {
+  const maxHz = Math.min(ENVELOPE_MAX_HZ, sampleRate / 2);
+  const envelope = new Float64Array(ENVELOPE_POINTS);
+
+  for (let k = 0; k < ENVELOPE_POINTS; k++) {
+    const omega = (2 * Math.PI * ((k / ENVELOPE_POINTS) * maxHz)) / sampleRate;
+    let real = 0;
+    let imag = 0;
+    for (let n = 0; n < a.length; n++) {
+      real += a[n] * Math.cos(omega * n);
+      imag -= a[n] * Math.sin(omega * n);
+    }
+    envelope[k] = -Math.log(real * real + imag * imag + 1e-12);
+  }
+
+  const peaks: number[] = [];
+  for (let k = 1; k < ENVELOPE_POINTS - 1; k++) {
+    if (envelope[k] > envelope[k - 1] && envelope[k] >= envelope[k + 1]) {
+      // Parabolic interpolation between grid points
+      const denominator = envelope[k - 1] - 2 * envelope[k] + envelope[k + 1];
+      const offset = denominator === 0 ? 0 : (0.5 * (envelope[k - 1] - envelope[k + 1])) / denominator;
+      peaks.push(((k + offset) / ENVELOPE_POINTS) * maxHz);
+    }
+  }
+  return peaks;
+}
+
+/**
+ * F1 and F2 of one frame, or null if the envelope doesn't show two plausible formants
+ */
+export function estimateFormants(frame: Float32Array, sampleRate: number): { f1: number; f2: number } | null {
+  // Pre-emphasis lifts the higher formants, then a Hamming window
+  const windowed = new Float32Array(frame.length);
+  for (let i = 0; i < frame.length; i++) {
+    const emphasised = frame[i] - (i > 0 ? PRE_EMPHASIS * frame[i - 1] : 0);
+    windowed[i] = emphasised * (0.54 - 0.46 * Math.cos((2 * Math.PI * i) / Math.max(1, frame.length - 1)));
+  }
+
+  // Rule of thumb: two poles per kHz, plus two
+  const order = 2 + Math.round(sampleRate / 1000);
+  const a = lpcCoefficients(windowed, order);
+  if (!a) return null;
+
+  const peaks = envelopePeaks(a, sampleRate);
+  const f1 = peaks.find(hz => hz >= F1_RANGE[0] && hz <= F1_RANGE[1]);
+  if (f1 === undefined) return null;
+  const f2 = peaks.find(hz => hz > f1 && hz >= F2_RANGE[0] && hz <= F2_RANGE[1]);
+  if (f2 === undefined) return null;
+
+  return { f1, f2 };
+}
+
+/**
+ * F1/F2 for each voiced frame of a signal (unvoiced frames have no formant structure worth plotting).
+ * The signal's pitch track decides which frames are voiced; pass it in when it's already known.
+ */
+export function trackFormants(signal: MonoSignal, pitch: PitchPoint[] = trackPitch(signal)): FormantPoint[] {
+  const analysed = downsample(signal, ANALYSIS_SAMPLE_RATE);
+  const frameSize = Math.round(FRAME_SECONDS * analysed.sampleRate);
+  const points: FormantPoint[] = [];
+
+  pitch.forEach(point => {
+    if (point.frequency === null) return;
+    const offset = Math.round(point.time * analysed.sampleRate);
+    if (offset + frameSize > analysed.samples.length) return;
+
+    const formants = estimateFormants(analysed.samples.subarray(offset, offset + frameSize), analysed.sampleRate);
+    if (formants) points.push({ time: point.time, ...formants });
+  });
+
+  return points;
+}
+
+/**
+ * Median F1/F2 inside each word; words with no voiced frames are left out
+ */
+export function formantsByWord(
+  points: FormantPoint[],
+  words: Array<Pick<TimeStamp, 'word' | 'start' | 'stop'>>,
+): WordFormants[] {
+  return words.flatMap((word, index) => {
+    const inside = points.filter(point => point.time >= word.start && point.time <= word.stop);
+    const f1 = median(inside.map(point => point.f1));
+    const f2 = median(inside.map(point => point.f2));
+    if (f1 === null || f2 === null) return [];
+    return [{ index, word: word.word, f1, f2, frames: inside.length }];
+  });
+}
@@ -0,0 +1,83 @@
+// Level measurements for mic metering and per-take loudness summaries
+
+export interface LoudnessSummary {
+  peakDb: number;        // dBFS of the loudest sample
+  rmsDb: number;         // dBFS RMS over the voiced part of the take
+  clippedSamples: number;
+  verdict: LoudnessVerdict;
+}
+
+export type LoudnessVerdict = 'ok' | 'quiet' | 'clipped' | 'silent';
+
+// Samples at or above this are treated as clipped
+export const CLIP_LEVEL = 0.99;
+// Below these the take is hard to analyse, or the wrong mic is probably selected
+export const QUIET_RMS_DB = -40;
+export const SILENT_PEAK_DB = -50;
+
+// Frames quieter than this (relative to the loudest frame) count as pauses and are left out of the RMS
+const VOICED_RANGE_DB = 30;
+const FRAME_SECONDS = 0.05;
+
+// Clipping this many samples in a take is audible
+const CLIPPED_SAMPLES_LIMIT = 10;
+
+export const levelToDb = (level: number) => 20 * Math.log10(Math.max(level, 1e-6));
+
+/**
+ * RMS and peak of a block of samples
+ */
+export function measureLevel(samples: Float32Array): { rms: number; peak: number } {
+  let sum = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.abs(samples[i]);
+    sum += value * value;
+    if (value > peak) peak = value;
+  }
+  return { rms: Math.sqrt(sum / Math.max(1, samples.length)), peak };
+}
+
+/**
+ * Peak, voiced RMS and clipping for a whole take
+ */
+export function summarizeLoudness(samples: Float32Array, sampleRate: number): LoudnessSummary {
+  const frameSize = Math.max(1, Math.round(FRAME_SECONDS * sampleRate));
+  const frameRms: number[] = [];
+  let peak = 0;
+  let clippedSamples = 0;
+
+  for (let start = 0; start < samples.length; start += frameSize) {
+    const frame = samples.subarray(start, Math.min(samples.length, start + frameSize));
+    const level = measureLevel(frame);
+    frameRms.push(level.rms);
+    if (level.peak > peak) peak = level.peak;
+    for (let i = 0; i < frame.length; i++) {
+      if (Math.abs(frame[i]) >= CLIP_LEVEL) clippedSamples++;
+    }
+  }
+
+  // Average only the frames with speech in them
+  const loudest = Math.max(0, ...frameRms);
+  const voiced = frameRms.filter(rms => levelToDb(rms) > levelToDb(loudest) - VOICED_RANGE_DB);
+  const voicedRms = Math.sqrt(voiced.reduce((sum, rms) => sum + rms * rms, 0) / Math.max(1, voiced.length));
+
+  const peakDb = levelToDb(peak);
+  const rmsDb = levelToDb(voicedRms);
+  const verdict: LoudnessVerdict = peakDb < SILENT_PEAK_DB
+    ? 'silent'
+    : clippedSamples >= CLIPPED_SAMPLES_LIMIT
+      ? 'clipped'
+      : rmsDb < QUIET_RMS_DB
+        ? 'quiet'
+        : 'ok';
+
+  return { peakDb, rmsDb, clippedSamples, verdict };
+}
+
+// What to change when a take or the live input comes out badly
+export const LOUDNESS_ADVICE: Record<Exclude<LoudnessVerdict, 'ok'>, string> = {
+  clipped: 'Input is clipping. Lower the mic gain or move back from the mic.',
+  quiet: 'Input is quiet. Move closer to the mic or raise its gain.',
+  silent: 'No signal. Check that the right microphone is selected and unmuted.',
+};
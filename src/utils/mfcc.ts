@@ -0,0 +1,93 @@
+import { MonoSignal, FRAME_SECONDS, HOP_SECONDS, frameCount, downsample } from './audioFeatures';
+import { hannWindow, nextPowerOfTwo, powerSpectrum } from './fft';
+
+// MFCCs are computed on a 16kHz copy of the signal; speech detail above 8kHz adds little for alignment
+const ANALYSIS_SAMPLE_RATE = 16000;
+const MEL_FILTERS = 26;
+const COEFFICIENTS = 13;
+
+export const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+export const melToHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+/**
+ * Triangular mel filterbank, one weight array (over FFT bins) per filter
+ */
+export function melFilterbank(filterCount: number, fftSize: number, sampleRate: number, minHz = 0, maxHz = sampleRate / 2): Float32Array[] {
+  const binCount = fftSize / 2 + 1;
+  const minMel = hzToMel(minHz);
+  const maxMel = hzToMel(maxHz);
+
+  // filterCount + 2 equally spaced mel points give the edges and centres of each triangle
+  const bins: number[] = [];
+  for (let i = 0; i < filterCount + 2; i++) {
+    const hz = melToHz(minMel + ((maxMel - minMel) * i) / (filterCount + 1));
+    bins.push(Math.floor(((fftSize + 1) * hz) / sampleRate));
+  }
+
+  const filters: Float32Array[] = [];
+  for (let m = 1; m <= filterCount; m++) {
+    const filter = new Float32Array(binCount);
+    const [left, centre, right] = [bins[m - 1], bins[m], bins[m + 1]];
+    for (let k = left; k < centre && k < binCount; k++) {
+      filter[k] = (k - left) / Math.max(1, centre - left);
+    }
+    for (let k = centre; k <= right && k < binCount; k++) {
+      filter[k] = (right - k) / Math.max(1, right - centre);
+    }
+    filters.push(filter);
+  }
+
+  return filters;
+}
+
+/**
+ * Mel-frequency cepstral coefficients per analysis frame, with cepstral mean
+ * normalisation so recordings from different microphones compare fairly.
+ */
+export function computeMfcc(signal: MonoSignal): Float32Array[] {
+  const analysed = downsample(signal, ANALYSIS_SAMPLE_RATE);
+  const frameSize = Math.round(FRAME_SECONDS * analysed.sampleRate);
+  const hop = Math.round(HOP_SECONDS * analysed.sampleRate);
+  const fftSize = nextPowerOfTwo(frameSize);
+  const window = hannWindow(frameSize);
+  const filters = melFilterbank(MEL_FILTERS, fftSize, analysed.sampleRate);
+
+  // Frame count follows the original signal so frames line up with the other features
+  const frames = frameCount(signal);
+  const coefficients: Float32Array[] = [];
+  const logEnergies = new Float32Array(MEL_FILTERS);
+
+  for (let f = 0; f < frames; f++) {
+    const frame = analysed.samples.subarray(f * hop, f * hop + frameSize);
+    const power = powerSpectrum(frame, window, fftSize);
+
+    for (let m = 0; m < MEL_FILTERS; m++) {
+      let energy = 0;
+      const filter = filters[m];
+      for (let k = 0; k < power.length; k++) {
+        energy += filter[k] * power[k];
+      }
+      logEnergies[m] = Math.log(energy + 1e-10);
+    }
+
+    // DCT-II of the log filterbank energies
+    const cepstrum = new Float32Array(COEFFICIENTS);
+    for (let c = 0; c < COEFFICIENTS; c++) {
+      let sum = 0;
+      for (let m = 0; m < MEL_FILTERS; m++) {
+        sum += logEnergies[m] * Math.cos((Math.PI * c * (m + 0.5)) / MEL_FILTERS);
+      }
+      cepstrum[c] = sum;
+    }
+    coefficients.push(cepstrum);
+  }
+
+  // Cepstral mean normalisation
+  if (coefficients.length > 0) {
+    const mean = new Float32Array(COEFFICIENTS);
+    coefficients.forEach(frame => frame.forEach((value, c) => { mean[c] += value / coefficients.length; }));
+    coefficients.forEach(frame => frame.forEach((_, c) => { frame[c] -= mean[c]; }));
+  }
+
+  return coefficients;
+}
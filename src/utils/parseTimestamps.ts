@@ -1,7 +1,208 @@
+import type { TranscriptDiagnostic } from './transcriptValidation';
+
 export interface TimeStamp {
   start: number;
   stop: number;
   word: string;
+  line?: number; // 1-based line in the source file, when the format has lines
+  confidence?: number; // 0..1, from automatic alignment
+}
+
+export interface CsvRow {
+  fields: string[];
+  line: number; // where the row starts
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may hold commas, quotes and newlines)
+ */
+export function parseCsvRows(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ fields: row, line: rowLine });
+      row = [];
+      field = '';
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push({ fields: row, line: rowLine });
+  }
+
+  // Drop blank lines
+  return rows.filter(({ fields }) => fields.some(value => value.trim()));
+}
+
+// Header names accepted for each column; files without a header are read as Start,Stop,Word
+const START_COLUMNS = ['start', 'begin', 'from', 'xmin'];
+const STOP_COLUMNS = ['stop', 'end', 'to', 'xmax'];
+const WORD_COLUMNS = ['word', 'text', 'label', 'token'];
+// Optional column saying which tier a row belongs to ("word" or "phone")
+const TIER_COLUMNS = ['tier', 'type'];
+// Optional per-word confidence written by the aligner
+const CONFIDENCE_COLUMNS = ['confidence', 'score'];
+
+export interface TieredTimestamps {
+  words: TimeStamp[];
+  phones: TimeStamp[]; // `word` holds the phone label (ARPAbet or IPA)
+}
+
+/**
+ * Parse `Start,Stop,Word` CSV text into timestamps, skipping rows without valid times.
+ * Skipped and incomplete rows are reported to `diagnostics` when it's given.
+ */
+export function parseTimestampsCSVText(text: string, diagnostics?: TranscriptDiagnostic[]): TimeStamp[] {
+  return parseTieredCSVText(text, diagnostics).words;
+}
+
+/**
+ * Like parseTimestampsCSVText, but rows whose `Tier` column says "phone" are kept as a separate phone tier
+ */
+export function parseTieredCSVText(text: string, diagnostics?: TranscriptDiagnostic[]): TieredTimestamps {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) return { words: [], phones: [] };
+
+  let columns = { start: 0, stop: 1, word: 2, tier: -1, confidence: -1 };
+  let dataRows = rows;
+  const header = rows[0].fields.map(value => value.trim().toLowerCase());
+
+  if (isNaN(parseFloat(header[0]))) {
+    const find = (names: string[], fallback: number) => {
+      const index = header.findIndex(name => names.includes(name));
+      return index >= 0 ? index : fallback;
+    };
+    columns = {
+      start: find(START_COLUMNS, 0),
+      stop: find(STOP_COLUMNS, 1),
+      word: find(WORD_COLUMNS, 2),
+      tier: find(TIER_COLUMNS, -1),
+      confidence: find(CONFIDENCE_COLUMNS, -1),
+    };
+    dataRows = rows.slice(1);
+  }
+
+  const timestamps: TimeStamp[] = [];
+  const phones: TimeStamp[] = [];
+  dataRows.forEach(({ fields, line }) => {
+    const startNum = parseFloat(fields[columns.start]);
+    const stopNum = parseFloat(fields[columns.stop]);
+
+    if (isNaN(startNum) || isNaN(stopNum)) {
+      // Instead of throwing an error, log and skip this line
+      console.warn(`Invalid timestamp values in row: ${fields.join(',')}`);
+      diagnostics?.push({
+        kind: 'invalid-row',
+        severity: 'error',
+        message: `Line ${line} was skipped: "${fields.join(',')}" doesn't have numeric start and stop times`,
+        line,
+        wordIndex: null,
+      });
+      return;
+    }
+
+    const word = fields[columns.word]?.trim();
+    if (columns.tier >= 0 && /^phon/i.test(fields[columns.tier]?.trim() ?? '')) {
+      if (word) phones.push({ start: startNum, stop: stopNum, word, line });
+      return;
+    }
+
+    if (!word) {
+      diagnostics?.push({
+        kind: 'missing-word',
+        severity: 'warning',
+        message: `Line ${line} has no word, shown as "fail"`,
+        line,
+        wordIndex: timestamps.length,
+      });
+    }
+
+    const confidence = columns.confidence >= 0 ? parseFloat(fields[columns.confidence]) : NaN;
+    timestamps.push({
+      start: startNum,
+      stop: stopNum,
+      word: word || 'fail', // fallback if word is missing
+      line,
+      ...(isNaN(confidence) ? {} : { confidence }),
+    });
+  });
+
+  return { words: timestamps, phones };
+}
+
+// Quote a field only when it needs it, doubling any quotes inside
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Timestamps as `Start,Stop,Word` CSV, the format parseTimestampsCSV reads. A phone tier is
+ * written after the words with a `Tier` column marking which rows are phones, and aligner
+ * confidences go in a `Confidence` column.
+ */
+export function formatTimestampsCSV(words: TimeStamp[], phones: TimeStamp[] = []): string {
+  const hasTiers = phones.length > 0;
+  const hasConfidence = words.some(word => word.confidence !== undefined);
+
+  const row = (timestamp: TimeStamp, tier: string) => [
+    timestamp.start.toFixed(3),
+    timestamp.stop.toFixed(3),
+    csvField(timestamp.word),
+    ...(hasTiers ? [tier] : []),
+    ...(hasConfidence ? [timestamp.confidence?.toFixed(2) ?? ''] : []),
+  ].join(',');
+
+  const header = ['Start', 'Stop', 'Word', ...(hasTiers ? ['Tier'] : []), ...(hasConfidence ? ['Confidence'] : [])];
+  const lines = [header.join(','), ...words.map(word => row(word, 'word')), ...phones.map(phone => row(phone, 'phone'))];
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Fetch a transcript file's text, or null if it couldn't be loaded
+ */
+export async function fetchTranscriptText(filePath: string): Promise<string | null> {
+  const response = await fetch(filePath);
+  if (!response.ok) {
+    console.error(`Failed to fetch transcript: ${response.status} ${response.statusText}`);
+    return null;
+  }
+
+  const text = await response.text();
+
+  // Check if response is HTML instead of the transcript
+  if (text.trim().startsWith('<!DOCTYPE') || text.trim().startsWith('<html')) {
+    console.error('Received HTML response instead of transcript data');
+    return null;
+  }
+
+  return text;
 }
 
 export async function parseTimestampsCSV(filePath: string): Promise<TimeStamp[]> {
@@ -10,50 +211,10 @@ export async function parseTimestampsCSV(filePath: string): Promise<TimeStamp[]>
   }
 
   try {
-    const response = await fetch(filePath);
-    if (!response.ok) {
-      console.error(`Failed to fetch timestamps CSV: ${response.status} ${response.statusText}`);
-      return [];
-    }
-    
-    const text = await response.text();
-    
-    // Check if response is HTML instead of CSV
-    if (text.trim().startsWith('<!DOCTYPE') || text.trim().startsWith('<html')) {
-      console.error('Received HTML response instead of CSV data');
-      return [];
-    }
-    
-    // Split the CSV into lines and remove empty lines
-    const lines = text.split('\n').filter(line => line.trim());
-    
-    // If no valid lines, return empty array
-    if (lines.length < 2) {
-      return [];
-    }
-    
-    // Skip the header row (first line)
-    const dataLines = lines.slice(1);
-    
-    return dataLines.map(line => {
-      const [start, stop, word] = line.split(',').map(val => val.trim());
-      const startNum = parseFloat(start);
-      const stopNum = parseFloat(stop);
-      
-      if (isNaN(startNum) || isNaN(stopNum)) {
-        // Instead of throwing an error, log and skip this line
-        console.warn(`Invalid timestamp values in line: ${line}`);
-        return null;
-      }
-      
-      return { 
-        start: startNum, 
-        stop: stopNum,
-        word: word || 'fail' // fallback if word is missing
-      };
-    }).filter((item): item is TimeStamp => item !== null); // Filter out null values
+    const text = await fetchTranscriptText(filePath);
+    return text === null ? [] : parseTimestampsCSVText(text);
   } catch (error) {
     console.error('Error parsing timestamps CSV:', error);
     return [];
   }
-} 
\ No newline at end of file
+}
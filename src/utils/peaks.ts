@@ -0,0 +1,108 @@
+// Min/max peaks of a clip at several resolutions, so any zoom level draws from a small array
+
+export interface PeakLevel {
+  samplesPerPeak: number;
+  min: Float32Array;
+  max: Float32Array;
+}
+
+export interface PeakPyramid {
+  data: Float32Array;   // raw samples, for zoom levels finer than the first level
+  sampleRate: number;
+  levels: PeakLevel[];  // finest first, each half the resolution of the one before
+}
+
+export interface PeakColumns {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+// Finest precomputed level, and the size below which no coarser level is worth keeping
+const BASE_SAMPLES_PER_PEAK = 32;
+const MIN_LEVEL_PEAKS = 512;
+
+// Several peaks per column keep column edges close to where they should fall
+const PEAKS_PER_COLUMN = 4;
+
+/**
+ * Precompute peaks for the first channel of a buffer
+ */
+export function buildPeakPyramid(buffer: AudioBuffer): PeakPyramid {
+  const data = buffer.getChannelData(0);
+  const count = Math.ceil(data.length / BASE_SAMPLES_PER_PEAK);
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    let low = 1;
+    let high = -1;
+    const end = Math.min(data.length, (i + 1) * BASE_SAMPLES_PER_PEAK);
+    for (let j = i * BASE_SAMPLES_PER_PEAK; j < end; j++) {
+      if (data[j] < low) low = data[j];
+      if (data[j] > high) high = data[j];
+    }
+    min[i] = low;
+    max[i] = high;
+  }
+
+  const levels: PeakLevel[] = [{ samplesPerPeak: BASE_SAMPLES_PER_PEAK, min, max }];
+
+  // Each coarser level merges pairs from the one below
+  let previous = levels[0];
+  while (previous.min.length > MIN_LEVEL_PEAKS) {
+    const size = Math.ceil(previous.min.length / 2);
+    const level: PeakLevel = {
+      samplesPerPeak: previous.samplesPerPeak * 2,
+      min: new Float32Array(size),
+      max: new Float32Array(size),
+    };
+    for (let i = 0; i < size; i++) {
+      const a = 2 * i;
+      const b = Math.min(previous.min.length - 1, a + 1);
+      level.min[i] = Math.min(previous.min[a], previous.min[b]);
+      level.max[i] = Math.max(previous.max[a], previous.max[b]);
+    }
+    levels.push(level);
+    previous = level;
+  }
+
+  return { data, sampleRate: buffer.sampleRate, levels };
+}
+
+/**
+ * Min/max for each of `columns` pixel columns spanning startTime..endTime.
+ * Reads from the coarsest level that still has a few peaks per column.
+ */
+export function readPeaks(pyramid: PeakPyramid, startTime: number, endTime: number, columns: number): PeakColumns {
+  const min = new Float32Array(columns);
+  const max = new Float32Array(columns);
+  if (columns <= 0 || endTime <= startTime) return { min, max };
+
+  const startSample = startTime * pyramid.sampleRate;
+  const samplesPerColumn = ((endTime - startTime) * pyramid.sampleRate) / columns;
+
+  // Zoomed in past the first level: read samples directly
+  let source: PeakLevel = { samplesPerPeak: 1, min: pyramid.data, max: pyramid.data };
+  for (const level of pyramid.levels) {
+    if (level.samplesPerPeak * PEAKS_PER_COLUMN > samplesPerColumn) break;
+    source = level;
+  }
+
+  const length = source.min.length;
+  for (let i = 0; i < columns; i++) {
+    const from = Math.floor((startSample + i * samplesPerColumn) / source.samplesPerPeak);
+    const to = Math.max(from + 1, Math.floor((startSample + (i + 1) * samplesPerColumn) / source.samplesPerPeak));
+    if (from >= length || to <= 0) continue;
+
+    let low = 1;
+    let high = -1;
+    for (let j = Math.max(0, from); j < Math.min(length, to); j++) {
+      if (source.min[j] < low) low = source.min[j];
+      if (source.max[j] > high) high = source.max[j];
+    }
+    min[i] = low;
+    max[i] = high;
+  }
+
+  return { min, max };
+}
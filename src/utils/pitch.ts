@@ -0,0 +1,173 @@
+import { MonoSignal, FRAME_SECONDS, HOP_SECONDS, frameCount, downsample, toMono } from './audioFeatures';
+
+export interface PitchPoint {
+  time: number;             // seconds from the start of the analysed signal
+  frequency: number | null; // Hz, null when the frame is unvoiced
+  confidence: number;       // 0-1, 1 minus the YIN aperiodicity
+}
+
+export interface PitchOptions {
+  minHz?: number;
+  maxHz?: number;
+  threshold?: number; // YIN absolute threshold on the normalised difference
+}
+
+// Speech fundamentals sit well below 8kHz, so analyse at a lower rate to keep YIN cheap
+const ANALYSIS_SAMPLE_RATE = 16000;
+
+const DEFAULT_OPTIONS: Required<PitchOptions> = {
+  minHz: 70,
+  maxHz: 400,
+  threshold: 0.15,
+};
+
+/**
+ * Estimate the fundamental of one frame with the YIN algorithm
+ * (de Cheveigné & Kawahara, 2002). Returns null for unvoiced frames.
+ */
+export function detectPitchYin(
+  samples: Float32Array,
+  offset: number,
+  windowSize: number,
+  sampleRate: number,
+  options: Required<PitchOptions>
+): { frequency: number; confidence: number } | null {
+  const minLag = Math.max(2, Math.floor(sampleRate / options.maxHz));
+  const maxLag = Math.ceil(sampleRate / options.minHz);
+  if (offset + windowSize + maxLag > samples.length) return null;
+
+  // Step 2: difference function
+  const difference = new Float32Array(maxLag + 1);
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i < windowSize; i++) {
+      const delta = samples[offset + i] - samples[offset + i + lag];
+      sum += delta * delta;
+    }
+    difference[lag] = sum;
+  }
+
+  // Step 3: cumulative mean normalised difference
+  const normalised = new Float32Array(maxLag + 1);
+  normalised[0] = 1;
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    runningSum += difference[lag];
+    normalised[lag] = runningSum === 0 ? 1 : (difference[lag] * lag) / runningSum;
+  }
+
+  // Step 4: first dip below the threshold, followed down to its local minimum
+  let bestLag = -1;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (normalised[lag] < options.threshold) {
+      while (lag + 1 <= maxLag && normalised[lag + 1] < normalised[lag]) lag++;
+      bestLag = lag;
+      break;
+    }
+  }
+  if (bestLag === -1) return null;
+
+  // Step 5: parabolic interpolation around the minimum
+  let refinedLag = bestLag;
+  if (bestLag > 1 && bestLag < maxLag) {
+    const previous = normalised[bestLag - 1];
+    const current = normalised[bestLag];
+    const next = normalised[bestLag + 1];
+    const denominator = previous + next - 2 * current;
+    if (denominator !== 0) {
+      refinedLag = bestLag + (previous - next) / (2 * denominator);
+    }
+  }
+
+  return {
+    frequency: sampleRate / refinedLag,
+    confidence: Math.max(0, Math.min(1, 1 - normalised[bestLag])),
+  };
+}
+
+/**
+ * Pitch contour of a signal, one point per analysis hop
+ */
+export function trackPitch(signal: MonoSignal, options: PitchOptions = {}): PitchPoint[] {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const analysed = downsample(signal, ANALYSIS_SAMPLE_RATE);
+  const windowSize = Math.round(FRAME_SECONDS * analysed.sampleRate);
+  const hop = Math.round(HOP_SECONDS * analysed.sampleRate);
+
+  // Frame count follows the original signal so the contour lines up with the loudness envelope
+  const frames = frameCount(signal);
+  const points: PitchPoint[] = [];
+
+  for (let f = 0; f < frames; f++) {
+    const offset = f * hop;
+
+    // Skip near-silent frames; YIN happily finds periodicity in noise
+    let energy = 0;
+    const end = Math.min(offset + windowSize, analysed.samples.length);
+    for (let i = offset; i < end; i++) energy += analysed.samples[i] * analysed.samples[i];
+    const isSilent = energy / Math.max(1, end - offset) < 1e-5;
+
+    const result = isSilent
+      ? null
+      : detectPitchYin(analysed.samples, offset, windowSize, analysed.sampleRate, settings);
+
+    points.push({
+      time: f * HOP_SECONDS,
+      frequency: result ? result.frequency : null,
+      confidence: result ? result.confidence : 0,
+    });
+  }
+
+  return points;
+}
+
+// Tracks already computed for a buffer, by analysed range. Scoring, the pitch comparison, word
+// feedback and formant tracking all want the same tracks of the target slice and of the take,
+// and YIN is the expensive part of each.
+const bufferTracks = new WeakMap<AudioBuffer, Map<string, PitchPoint[]>>();
+const TRACKS_PER_BUFFER = 8;
+
+/**
+ * Pitch contour of a buffer (or a slice of it), computed once and shared by every caller.
+ * The returned array is shared, so it must not be modified.
+ */
+export function trackBufferPitch(buffer: AudioBuffer, startTime: number = 0, endTime: number = buffer.duration): PitchPoint[] {
+  let tracks = bufferTracks.get(buffer);
+  if (!tracks) {
+    tracks = new Map();
+    bufferTracks.set(buffer, tracks);
+  }
+
+  const key = `${startTime}-${endTime}`;
+  let track = tracks.get(key);
+  if (!track) {
+    track = trackPitch(toMono(buffer, startTime, endTime));
+    tracks.set(key, track);
+    // Earlier selections are rarely revisited, so the oldest track makes way
+    const oldest = tracks.keys().next().value;
+    if (tracks.size > TRACKS_PER_BUFFER && oldest !== undefined) tracks.delete(oldest);
+  }
+  return track;
+}
+
+/**
+ * Pitch of the most recent frame of a live block (e.g. an analyser's time-domain data).
+ * The block must hold at least a frame plus the longest lag at the analysis rate.
+ */
+export function detectLatestPitch(
+  signal: MonoSignal,
+  options: PitchOptions = {}
+): { frequency: number; confidence: number } | null {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const analysed = downsample(signal, ANALYSIS_SAMPLE_RATE);
+  const windowSize = Math.round(FRAME_SECONDS * analysed.sampleRate);
+  const maxLag = Math.ceil(analysed.sampleRate / settings.minHz);
+  const offset = analysed.samples.length - windowSize - maxLag - 1;
+  if (offset < 0) return null;
+
+  let energy = 0;
+  for (let i = offset; i < offset + windowSize; i++) energy += analysed.samples[i] * analysed.samples[i];
+  if (energy / windowSize < 1e-5) return null;
+
+  return detectPitchYin(analysed.samples, offset, windowSize, analysed.sampleRate, settings);
+}
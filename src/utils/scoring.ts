@@ -0,0 +1,174 @@
+import {
+  MonoSignal,
+  HOP_SECONDS,
+  loudnessEnvelope,
+  findSpeechBounds,
+  resampleSeries,
+} from './audioFeatures';
+import { trackPitch, PitchPoint } from './pitch';
+import { median } from './stats';
+
+export interface ImitationScore {
+  overall: number;   // 0-100 weighted blend of the sub-scores
+  pitch: number;     // 0-100 similarity of the pitch contour
+  timing: number;    // 0-100 similarity of duration and rhythm
+  loudness: number;  // 0-100 similarity of the loudness envelope
+  takeOffset: number; // seconds of leading silence trimmed from the take
+  speedRatio: number; // take speech duration / target speech duration
+}
+
+// How much each sub-score contributes to the overall score
+const WEIGHTS = {
+  pitch: 0.4,
+  timing: 0.3,
+  loudness: 0.3,
+};
+
+// Average semitone error at which the pitch score reaches zero
+const MAX_SEMITONE_ERROR = 6;
+
+// Envelope values are clamped this far below their peak so background noise doesn't dominate
+const ENVELOPE_FLOOR_DB = 50;
+
+const clampScore = (value: number) => Math.round(Math.max(0, Math.min(100, value)));
+
+function pearson(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < n; i++) {
+    meanA += a[i];
+    meanB += b[i];
+  }
+  meanA /= n;
+  meanB /= n;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    covariance += da * db;
+    varianceA += da * da;
+    varianceB += db * db;
+  }
+
+  if (varianceA === 0 || varianceB === 0) return 0;
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+function normaliseEnvelope(envelope: Float32Array): Float32Array {
+  let peak = -Infinity;
+  for (const value of envelope) {
+    if (value > peak) peak = value;
+  }
+  return envelope.map(value => Math.max(value, peak - ENVELOPE_FLOOR_DB) - peak);
+}
+
+// Convert Hz to semitones relative to the contour's median so different voice ranges compare fairly
+function toRelativeSemitones(track: (number | null)[]): (number | null)[] {
+  const center = median(track.filter((hz): hz is number => hz !== null));
+  if (center === null) return track.map(() => null);
+
+  return track.map(hz => (hz === null ? null : 12 * Math.log2(hz / center)));
+}
+
+function scorePitch(target: (number | null)[], take: (number | null)[]): number {
+  const targetSemitones = toRelativeSemitones(target);
+  const takeSemitones = toRelativeSemitones(take);
+  if (targetSemitones.length === 0 || takeSemitones.length === 0) return 0;
+
+  let totalError = 0;
+  let compared = 0;
+
+  // Map each target frame onto the proportionally matching take frame
+  for (let i = 0; i < targetSemitones.length; i++) {
+    const j = Math.round((i / Math.max(1, targetSemitones.length - 1)) * (takeSemitones.length - 1));
+    const targetValue = targetSemitones[i];
+    const takeValue = takeSemitones[j];
+    if (targetValue !== null && takeValue !== null) {
+      totalError += Math.abs(targetValue - takeValue);
+      compared++;
+    }
+  }
+
+  if (compared === 0) return 0;
+  return clampScore(100 * (1 - totalError / compared / MAX_SEMITONE_ERROR));
+}
+
+function scoreTiming(target: Float32Array, take: Float32Array): number {
+  // Duration: penalise the log ratio so 2x too slow and 2x too fast are equally bad
+  const ratio = take.length / Math.max(1, target.length);
+  const durationScore = 100 * Math.exp(-2 * Math.abs(Math.log(ratio)));
+
+  // Rhythm: compare where the syllable onsets (rising energy) fall once durations are matched
+  const stretchedTake = resampleSeries(take, target.length);
+  const onsets = (envelope: ArrayLike<number>) => {
+    const result = new Float32Array(envelope.length);
+    for (let i = 1; i < envelope.length; i++) {
+      result[i] = Math.max(0, envelope[i] - envelope[i - 1]);
+    }
+    return result;
+  };
+  const rhythmScore = 100 * Math.max(0, pearson(onsets(target), onsets(stretchedTake)));
+
+  return clampScore(0.5 * durationScore + 0.5 * rhythmScore);
+}
+
+function scoreLoudness(target: Float32Array, take: Float32Array): number {
+  const stretchedTake = resampleSeries(take, target.length);
+  return clampScore(100 * Math.max(0, pearson(target, stretchedTake)));
+}
+
+/**
+ * Compare a recorded take against the target audio slice.
+ * Leading/trailing silence is trimmed from both and the take is stretched
+ * to the target's length before the contours are compared.
+ * Pitch tracks of both signals can be passed in when they're already known.
+ */
+export function scoreImitation(
+  target: MonoSignal,
+  take: MonoSignal,
+  targetTrack: PitchPoint[] = trackPitch(target),
+  takeTrack: PitchPoint[] = trackPitch(take),
+): ImitationScore {
+  const targetEnvelope = loudnessEnvelope(target);
+  const takeEnvelope = loudnessEnvelope(take);
+
+  const targetBounds = findSpeechBounds(targetEnvelope);
+  const takeBounds = findSpeechBounds(takeEnvelope);
+
+  if (!targetBounds || !takeBounds) {
+    return { overall: 0, pitch: 0, timing: 0, loudness: 0, takeOffset: 0, speedRatio: 0 };
+  }
+
+  const trimmedTargetEnvelope = normaliseEnvelope(
+    targetEnvelope.slice(targetBounds.startFrame, targetBounds.endFrame + 1)
+  );
+  const trimmedTakeEnvelope = normaliseEnvelope(
+    takeEnvelope.slice(takeBounds.startFrame, takeBounds.endFrame + 1)
+  );
+
+  const targetPitch = targetTrack
+    .slice(targetBounds.startFrame, targetBounds.endFrame + 1)
+    .map(point => point.frequency);
+  const takePitch = takeTrack
+    .slice(takeBounds.startFrame, takeBounds.endFrame + 1)
+    .map(point => point.frequency);
+
+  const pitch = scorePitch(targetPitch, takePitch);
+  const timing = scoreTiming(trimmedTargetEnvelope, trimmedTakeEnvelope);
+  const loudness = scoreLoudness(trimmedTargetEnvelope, trimmedTakeEnvelope);
+
+  return {
+    overall: clampScore(pitch * WEIGHTS.pitch + timing * WEIGHTS.timing + loudness * WEIGHTS.loudness),
+    pitch,
+    timing,
+    loudness,
+    takeOffset: takeBounds.startFrame * HOP_SECONDS,
+    speedRatio: trimmedTakeEnvelope.length / trimmedTargetEnvelope.length,
+  };
+}
@@ -0,0 +1,239 @@
+import { hannWindow, nextPowerOfTwo, powerSpectrum } from './fft';
+import { hzToMel, melToHz } from './mfcc';
+
+// Short-time Fourier transform rendered as a time/frequency image
+
+export type FrequencyScale = 'log' | 'mel';
+export type ColorMapName = 'magma' | 'viridis' | 'gray';
+
+export interface SpectrogramOptions {
+  scale: FrequencyScale;
+  bands?: number;
+  minHz?: number;
+  maxHz?: number;
+  windowSeconds?: number;
+  hopSeconds?: number;
+}
+
+export interface Spectrogram {
+  data: Float32Array;  // dB, frame-major: data[frame * bands + band], band 0 lowest
+  frames: number;
+  bands: number;
+  hopSeconds: number;  // frame f is centred on f * hopSeconds
+  minHz: number;
+  maxHz: number;
+  scale: FrequencyScale;
+  maxDb: number;
+}
+
+// Messages to and from the spectrogram worker
+export interface SpectrogramRequest {
+  id: number;
+  samples: Float32Array;
+  sampleRate: number;
+  options: SpectrogramOptions;
+}
+
+export type SpectrogramResponse =
+  | { id: number; spectrogram: Spectrogram }
+  | { id: number; error: string };
+
+const DEFAULT_BANDS = 128;
+const DEFAULT_MIN_HZ = 60;
+// Sibilants carry energy up to ~10kHz
+const DEFAULT_MAX_HZ = 12000;
+const DEFAULT_WINDOW_SECONDS = 0.025;
+const DEFAULT_HOP_SECONDS = 0.005;
+const MAX_FRAMES = 16384;
+
+// Quietest level shown, relative to the loudest cell
+export const SPECTROGRAM_RANGE_DB = 80;
+
+const toScale = (hz: number, scale: FrequencyScale) => (scale === 'mel' ? hzToMel(hz) : Math.log(hz));
+const fromScale = (value: number, scale: FrequencyScale) => (scale === 'mel' ? melToHz(value) : Math.exp(value));
+
+/**
+ * Frequency at a fraction of the way up the axis (0 = bottom, 1 = top)
+ */
+export function frequencyAt(spectrogram: Pick<Spectrogram, 'minHz' | 'maxHz' | 'scale'>, fraction: number): number {
+  const low = toScale(spectrogram.minHz, spectrogram.scale);
+  const high = toScale(spectrogram.maxHz, spectrogram.scale);
+  return fromScale(low + (high - low) * fraction, spectrogram.scale);
+}
+
+/**
+ * Position of a frequency on the axis (0 = bottom, 1 = top)
+ */
+export function frequencyFraction(spectrogram: Pick<Spectrogram, 'minHz' | 'maxHz' | 'scale'>, hz: number): number {
+  const low = toScale(spectrogram.minHz, spectrogram.scale);
+  const high = toScale(spectrogram.maxHz, spectrogram.scale);
+  return (toScale(hz, spectrogram.scale) - low) / (high - low);
+}
+
+/**
+ * STFT power in dB, resampled onto bands spaced evenly on a log or mel axis
+ */
+export function computeSpectrogram(samples: Float32Array, sampleRate: number, options: SpectrogramOptions): Spectrogram {
+  const bands = options.bands ?? DEFAULT_BANDS;
+  const minHz = options.minHz ?? DEFAULT_MIN_HZ;
+  const maxHz = Math.min(options.maxHz ?? DEFAULT_MAX_HZ, sampleRate / 2);
+  const frameSize = Math.round((options.windowSeconds ?? DEFAULT_WINDOW_SECONDS) * sampleRate);
+  const hopSeconds = options.hopSeconds ?? DEFAULT_HOP_SECONDS;
+  // Long clips get a coarser hop so the image stays within canvas size limits
+  const hop = Math.max(1, Math.round(hopSeconds * sampleRate), Math.ceil(samples.length / MAX_FRAMES));
+  const fftSize = nextPowerOfTwo(frameSize);
+  const window = hannWindow(frameSize);
+  const binHz = sampleRate / fftSize;
+
+  // Band edges in FFT bins (fractional)
+  const axis = { minHz, maxHz, scale: options.scale };
+  const edges = new Float32Array(bands + 1);
+  for (let b = 0; b <= bands; b++) {
+    edges[b] = frequencyAt(axis, b / bands) / binHz;
+  }
+
+  const frames = Math.max(0, Math.ceil(samples.length / hop));
+  const data = new Float32Array(frames * bands);
+  const frame = new Float32Array(frameSize);
+  let maxDb = -Infinity;
+
+  for (let f = 0; f < frames; f++) {
+    // Centre the window on the frame time, zero-padding past either end
+    const first = f * hop - Math.floor(frameSize / 2);
+    for (let i = 0; i < frameSize; i++) {
+      const index = first + i;
+      frame[i] = index >= 0 && index < samples.length ? samples[index] : 0;
+    }
+    const power = powerSpectrum(frame, window, fftSize);
+
+    for (let b = 0; b < bands; b++) {
+      const low = edges[b];
+      const high = edges[b + 1];
+      let energy = 0;
+
+      if (Math.floor(high) - Math.ceil(low) >= 1) {
+        // Wide band: average the bins inside it
+        let count = 0;
+        for (let k = Math.ceil(low); k < high && k < power.length; k++) {
+          energy += power[k];
+          count++;
+        }
+        energy /= Math.max(1, count);
+      } else {
+        // Narrower than a bin: interpolate at the band centre
+        const centre = Math.min(power.length - 1, (low + high) / 2);
+        const k = Math.floor(centre);
+        const t = centre - k;
+        energy = power[k] * (1 - t) + power[Math.min(power.length - 1, k + 1)] * t;
+      }
+
+      const db = 10 * Math.log10(energy + 1e-12);
+      data[f * bands + b] = db;
+      if (db > maxDb) maxDb = db;
+    }
+  }
+
+  return { data, frames, bands, hopSeconds: hop / sampleRate, minHz, maxHz, scale: options.scale, maxDb };
+}
+
+// Colour map stops from quiet to loud
+const COLOR_STOPS: Record<ColorMapName, Array<[number, number, number]>> = {
+  magma: [[0, 0, 4], [59, 15, 112], [140, 41, 129], [222, 73, 104], [254, 159, 109], [252, 253, 191]],
+  viridis: [[68, 1, 84], [59, 82, 139], [33, 145, 140], [94, 201, 98], [253, 231, 37]],
+  gray: [[0, 0, 0], [255, 255, 255]],
+};
+
+const lookupTables = new Map<ColorMapName, Uint8ClampedArray>();
+
+/**
+ * 256-entry RGB lookup table for a colour map
+ */
+export function colorMapTable(name: ColorMapName): Uint8ClampedArray {
+  let table = lookupTables.get(name);
+  if (!table) {
+    const stops = COLOR_STOPS[name];
+    table = new Uint8ClampedArray(256 * 3);
+    for (let i = 0; i < 256; i++) {
+      const position = (i / 255) * (stops.length - 1);
+      const index = Math.min(stops.length - 2, Math.floor(position));
+      const t = position - index;
+      for (let c = 0; c < 3; c++) {
+        table[i * 3 + c] = stops[index][c] * (1 - t) + stops[index + 1][c] * t;
+      }
+    }
+    lookupTables.set(name, table);
+  }
+  return table;
+}
+
+/**
+ * Paint a spectrogram into a canvas one pixel per cell: time left to right, high frequencies at the top
+ */
+export function renderSpectrogramImage(spectrogram: Spectrogram, colorMap: ColorMapName): HTMLCanvasElement {
+  const { frames, bands, data, maxDb } = spectrogram;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, frames);
+  canvas.height = bands;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || frames === 0) return canvas;
+
+  const image = ctx.createImageData(frames, bands);
+  const table = colorMapTable(colorMap);
+  const floor = maxDb - SPECTROGRAM_RANGE_DB;
+
+  for (let f = 0; f < frames; f++) {
+    for (let b = 0; b < bands; b++) {
+      const level = Math.max(0, Math.min(255, Math.round(((data[f * bands + b] - floor) / SPECTROGRAM_RANGE_DB) * 255)));
+      const pixel = ((bands - 1 - b) * frames + f) * 4;
+      image.data[pixel] = table[level * 3];
+      image.data[pixel + 1] = table[level * 3 + 1];
+      image.data[pixel + 2] = table[level * 3 + 2];
+      image.data[pixel + 3] = 255;
+    }
+  }
+
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+}
+
+// Frequency gridlines labelled on spectrogram views
+const GRID_HZ = [100, 250, 500, 1000, 2000, 4000, 8000];
+
+/**
+ * Draw the part of a rendered spectrogram between viewStart and viewEnd across the canvas.
+ * `timeOffset` is the clip time of the spectrogram's first frame.
+ */
+export function drawSpectrogram(
+  ctx: CanvasRenderingContext2D,
+  image: HTMLCanvasElement,
+  spectrogram: Spectrogram,
+  viewStart: number,
+  viewEnd: number,
+  width: number,
+  height: number,
+  timeOffset: number = 0,
+): void {
+  const sourceX = (viewStart - timeOffset) / spectrogram.hopSeconds;
+  const sourceWidth = (viewEnd - viewStart) / spectrogram.hopSeconds;
+  if (sourceWidth <= 0) return;
+
+  const smoothing = ctx.imageSmoothingEnabled;
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(image, sourceX, 0, sourceWidth, image.height, 0, 0, width, height);
+  ctx.imageSmoothingEnabled = smoothing;
+
+  // Frequency grid
+  ctx.font = '10px sans-serif';
+  ctx.lineWidth = 1;
+  GRID_HZ.forEach(hz => {
+    if (hz < spectrogram.minHz || hz > spectrogram.maxHz) return;
+    const y = Math.floor(height - frequencyFraction(spectrogram, hz) * height) + 0.5;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+    ctx.fillText(hz >= 1000 ? `${hz / 1000}k` : `${hz}`, 4, y - 2);
+  });
+}
@@ -0,0 +1,10 @@
+// Small numeric helpers shared by the analysis code
+
+/**
+ * Median of a list (the upper middle value for an even count), or null when it's empty
+ */
+export function median(values: ArrayLike<number>): number | null {
+  if (values.length === 0) return null;
+  const sorted = Array.from(values).sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
@@ -0,0 +1,143 @@
+import { ImitationScore } from './scoring';
+import { LoudnessSummary } from './loudness';
+import { SilenceTrim } from './vad';
+
+// Persistent storage for recorded takes, backed by IndexedDB
+
+export interface TakeSelection {
+  startTime: number;
+  endTime: number;
+  words: string[];
+}
+
+export interface TakeRecord {
+  id: string;
+  personId: string;
+  sampleId: string;
+  name: string;
+  createdAt: number;  // epoch milliseconds
+  selection: TakeSelection | null; // null when the whole clip was the target
+  deviceId: string;
+  deviceLabel: string;
+  playbackRate: number;
+  score: ImitationScore | null;
+  loudness?: LoudnessSummary | null; // absent on takes saved before levels were measured
+  starred: boolean;
+  blob: Blob;
+  trim?: SilenceTrim | null;  // where silence was cut from blob, if it was
+  originalBlob?: Blob | null; // the untrimmed recording, kept so a trim can be undone
+}
+
+export type TakeUpdate = Partial<Pick<TakeRecord, 'name' | 'starred' | 'score' | 'loudness' | 'blob' | 'trim' | 'originalBlob'>>;
+
+const DB_NAME = 'impersonator';
+const DB_VERSION = 1;
+const STORE_NAME = 'takes';
+const SAMPLE_INDEX = 'bySample';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex(SAMPLE_INDEX, ['personId', 'sampleId']);
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open take database'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Wrap a single IDBRequest in a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+// Settles when the transaction does: a write isn't saved until it commits, and it can still abort
+// (e.g. QuotaExceededError on a large recording) after its request has succeeded
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, mode);
+  const [result] = await Promise.all([
+    promisify(action(transaction.objectStore(STORE_NAME))),
+    transactionDone(transaction),
+  ]);
+  return result;
+}
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Store a new take and return the saved record
+ */
+export async function saveTake(take: Omit<TakeRecord, 'id'>): Promise<TakeRecord> {
+  const record: TakeRecord = { ...take, id: createId() };
+  await withStore('readwrite', store => store.put(record));
+  return record;
+}
+
+/**
+ * All takes recorded for a sample, newest first
+ */
+export async function listTakes(personId: string, sampleId: string): Promise<TakeRecord[]> {
+  const takes = await withStore<TakeRecord[]>('readonly', store =>
+    store.index(SAMPLE_INDEX).getAll(IDBKeyRange.only([personId, sampleId]))
+  );
+  return takes.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Apply a partial update (rename, star, score) to a stored take. The read and the write share one
+ * transaction, so updates to different fields of the same take can't overwrite each other.
+ */
+export async function updateTake(id: string, update: TakeUpdate): Promise<TakeRecord | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+
+  // A failed get or put aborts the transaction, which rejects below
+  let updated: TakeRecord | null = null;
+  const request = store.get(id);
+  request.onsuccess = () => {
+    const existing = request.result as TakeRecord | undefined;
+    if (!existing) return;
+    updated = { ...existing, ...update };
+    store.put(updated);
+  };
+
+  await transactionDone(transaction);
+  return updated;
+}
+
+/**
+ * Remove a take permanently
+ */
+export async function deleteTake(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
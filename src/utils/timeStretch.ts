@@ -0,0 +1,72 @@
+import { loadWorkletModule } from './audioPlayback';
+
+// Pitch-preserving playback of a buffer range through the WSOLA worklet
+
+const WORKLET_URL = '/worklets/time-stretch-processor.js';
+const WORKLET_NAME = 'time-stretch-processor';
+
+export const MIN_STRETCH_RATE = 0.25;
+export const MAX_STRETCH_RATE = 2;
+
+export interface StretchSource {
+  node: AudioWorkletNode;
+  stop: () => void;
+  onEnded: (callback: (() => void) | null) => void;
+}
+
+const readyContexts = new WeakSet<BaseAudioContext>();
+
+export const supportsTimeStretch = () =>
+  typeof window !== 'undefined' && 'AudioWorkletNode' in window;
+
+/**
+ * Load the time-stretch worklet into a context
+ */
+export async function loadTimeStretch(context: BaseAudioContext): Promise<void> {
+  await loadWorkletModule(context, WORKLET_URL);
+  readyContexts.add(context);
+}
+
+export const isTimeStretchReady = (context: BaseAudioContext) => readyContexts.has(context);
+
+/**
+ * Play buffer[start, end) at `rate` without shifting pitch, starting at context time `when`.
+ * The worklet must already be loaded with loadTimeStretch().
+ */
+export function createStretchSource(
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  start: number,
+  end: number,
+  rate: number,
+  when: number,
+): StretchSource {
+  const clampedRate = Math.min(MAX_STRETCH_RATE, Math.max(MIN_STRETCH_RATE, rate));
+  const first = Math.floor(start * buffer.sampleRate);
+  const last = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    channels.push(buffer.getChannelData(c).slice(first, last));
+  }
+
+  const node = new AudioWorkletNode(context, WORKLET_NAME, {
+    numberOfInputs: 0,
+    numberOfOutputs: 1,
+    outputChannelCount: [buffer.numberOfChannels],
+    processorOptions: { channels, rate: clampedRate, when },
+  });
+
+  let ended: (() => void) | null = null;
+  node.port.onmessage = (event) => {
+    if (event.data.type === 'ended' && ended) ended();
+  };
+
+  return {
+    node,
+    stop: () => node.port.postMessage('stop'),
+    onEnded: (callback) => {
+      ended = callback;
+    },
+  };
+}
@@ -0,0 +1,131 @@
+import { TimeStamp } from './parseTimestamps';
+
+// Edits for correcting word timestamps by hand. Each returns a new list and leaves the input alone.
+
+export type BoundaryEdge = 'start' | 'stop';
+
+// Shortest word an edit may leave behind, in seconds
+export const MIN_WORD_SECONDS = 0.02;
+
+// Boundaries this close together are treated as one and move together
+const LINKED_SECONDS = 0.001;
+
+// Text for the new half of a word that had no space to split at
+export const SPLIT_PLACEHOLDER = '?';
+
+// Aligner confidence only describes timings nobody has corrected, so edited words lose it
+const copy = (words: TimeStamp[]): TimeStamp[] =>
+  words.map(({ start, stop, word, confidence }) => (confidence === undefined ? { start, stop, word } : { start, stop, word, confidence }));
+
+const reviewed = (word: TimeStamp) => {
+  delete word.confidence;
+};
+
+/**
+ * Move one edge of a word. A boundary shared with the neighbouring word moves both words;
+ * otherwise the edge stops at the neighbour, so words never overlap.
+ */
+export function moveBoundary(
+  words: TimeStamp[],
+  index: number,
+  edge: BoundaryEdge,
+  time: number,
+  duration: number = Infinity,
+): TimeStamp[] {
+  const result = copy(words);
+  const word = result[index];
+  if (!word) return words;
+
+  if (edge === 'stop') {
+    const next = result[index + 1];
+    const linked = next && Math.abs(next.start - word.stop) < LINKED_SECONDS;
+    const limit = !next ? duration : linked ? next.stop - MIN_WORD_SECONDS : next.start;
+    word.stop = Math.min(limit, Math.max(word.start + MIN_WORD_SECONDS, time));
+    reviewed(word);
+    if (linked) {
+      next.start = word.stop;
+      reviewed(next);
+    }
+  } else {
+    const previous = result[index - 1];
+    const linked = previous && Math.abs(previous.stop - word.start) < LINKED_SECONDS;
+    const limit = !previous ? 0 : linked ? previous.start + MIN_WORD_SECONDS : previous.stop;
+    word.start = Math.max(limit, Math.min(word.stop - MIN_WORD_SECONDS, time));
+    reviewed(word);
+    if (linked) {
+      previous.stop = word.start;
+      reviewed(previous);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Split a word in two at `time` (its middle if `time` falls outside it). Text with a space is
+ * divided there; otherwise the second half gets a placeholder to retype.
+ */
+export function splitWord(words: TimeStamp[], index: number, time?: number): TimeStamp[] {
+  const word = words[index];
+  if (!word || word.stop - word.start < MIN_WORD_SECONDS * 2) return words;
+
+  const inside = time !== undefined && time > word.start + MIN_WORD_SECONDS && time < word.stop - MIN_WORD_SECONDS;
+  const at = inside ? time : (word.start + word.stop) / 2;
+
+  // Split the text at the space nearest its middle
+  const text = word.word.trim();
+  const spaces = [...text.matchAll(/\s+/g)];
+  let first = text;
+  let second = SPLIT_PLACEHOLDER;
+  if (spaces.length > 0) {
+    const middle = text.length / 2;
+    const space = spaces.reduce((best, match) =>
+      Math.abs((match.index ?? 0) - middle) < Math.abs((best.index ?? 0) - middle) ? match : best);
+    first = text.slice(0, space.index).trim();
+    second = text.slice((space.index ?? 0) + space[0].length).trim();
+  }
+
+  const result = copy(words);
+  result.splice(index, 1, { start: word.start, stop: at, word: first }, { start: at, stop: word.stop, word: second });
+  return result;
+}
+
+/**
+ * Join a word with the one after it
+ */
+export function mergeWithNext(words: TimeStamp[], index: number): TimeStamp[] {
+  const word = words[index];
+  const next = words[index + 1];
+  if (!word || !next) return words;
+
+  const result = copy(words);
+  result.splice(index, 2, {
+    start: Math.min(word.start, next.start),
+    stop: Math.max(word.stop, next.stop),
+    word: `${word.word} ${next.word}`.trim(),
+  });
+  return result;
+}
+
+export function retypeWord(words: TimeStamp[], index: number, text: string): TimeStamp[] {
+  if (!words[index]) return words;
+  const result = copy(words);
+  result[index].word = text;
+  reviewed(result[index]);
+  return result;
+}
+
+export function deleteWord(words: TimeStamp[], index: number): TimeStamp[] {
+  if (!words[index]) return words;
+  const result = copy(words);
+  result.splice(index, 1);
+  return result;
+}
+
+/**
+ * Open a pause after a word by moving every later word back by `seconds`
+ */
+export function insertPause(words: TimeStamp[], index: number, seconds: number): TimeStamp[] {
+  if (!words[index] || seconds <= 0) return words;
+  return copy(words).map((word, i) => (i > index ? { ...word, start: word.start + seconds, stop: word.stop + seconds } : word));
+}
@@ -0,0 +1,149 @@
+import { TimeStamp } from './parseTimestamps';
+import { normalizeWord } from './wordTiming';
+
+// Problems found while loading or checking a sample's transcript
+
+export type TranscriptIssueKind =
+  | 'load-error'             // the file couldn't be fetched or parsed at all
+  | 'invalid-row'            // a row was skipped because its times weren't numbers
+  | 'missing-word'           // a row had times but no word
+  | 'out-of-order'           // starts before the previous word
+  | 'overlap'                // starts before the previous word ends
+  | 'non-positive-duration'  // stop at or before start
+  | 'long-gap'               // unusually long silence between words
+  | 'beyond-audio'           // ends after the audio does
+  | 'text-mismatch';         // differs from the sample's fullText
+
+export type TranscriptIssueSeverity = 'error' | 'warning';
+
+export interface TranscriptDiagnostic {
+  kind: TranscriptIssueKind;
+  severity: TranscriptIssueSeverity;
+  message: string;
+  line: number | null;       // 1-based line in the transcript file, when known
+  wordIndex: number | null;  // index into the parsed words, when it concerns one
+}
+
+export interface TranscriptValidationOptions {
+  audioDuration?: number;
+  fullText?: string;
+  maxGapSeconds?: number;
+}
+
+const DEFAULT_MAX_GAP_SECONDS = 2;
+// Rounding in exported timestamps shouldn't count as overlap or overrun
+const TOLERANCE_SECONDS = 0.005;
+
+const at = (word: TimeStamp) => (word.line ? ` (line ${word.line})` : '');
+
+/**
+ * Timing checks between consecutive words, and against the audio length
+ */
+function checkTiming(words: TimeStamp[], options: TranscriptValidationOptions): TranscriptDiagnostic[] {
+  const maxGap = options.maxGapSeconds ?? DEFAULT_MAX_GAP_SECONDS;
+  const diagnostics: TranscriptDiagnostic[] = [];
+  const report = (kind: TranscriptIssueKind, severity: TranscriptIssueSeverity, index: number, message: string) =>
+    diagnostics.push({ kind, severity, message, line: words[index].line ?? null, wordIndex: index });
+
+  words.forEach((word, i) => {
+    if (word.stop - word.start <= 0) {
+      report('non-positive-duration', 'error', i,
+        `"${word.word}"${at(word)} has no duration (${word.start.toFixed(3)}s to ${word.stop.toFixed(3)}s)`);
+    }
+
+    if (options.audioDuration !== undefined && word.stop > options.audioDuration + TOLERANCE_SECONDS) {
+      report('beyond-audio', 'error', i,
+        `"${word.word}"${at(word)} ends at ${word.stop.toFixed(2)}s, after the audio ends at ${options.audioDuration.toFixed(2)}s`);
+    }
+
+    if (i === 0) return;
+    const previous = words[i - 1];
+    if (word.start < previous.start - TOLERANCE_SECONDS) {
+      report('out-of-order', 'error', i,
+        `"${word.word}"${at(word)} starts at ${word.start.toFixed(2)}s, before "${previous.word}" at ${previous.start.toFixed(2)}s`);
+    } else if (word.start < previous.stop - TOLERANCE_SECONDS) {
+      report('overlap', 'warning', i,
+        `"${word.word}"${at(word)} starts ${(previous.stop - word.start).toFixed(2)}s before "${previous.word}" ends`);
+    } else if (word.start - previous.stop > maxGap) {
+      report('long-gap', 'warning', i,
+        `${(word.start - previous.stop).toFixed(1)}s gap between "${previous.word}" and "${word.word}"${at(word)}`);
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Word-level diff against the sample's full text (edit-distance alignment on normalised words)
+ */
+function checkAgainstText(words: TimeStamp[], fullText: string): TranscriptDiagnostic[] {
+  const timed = words.map(word => normalizeWord(word.word));
+  const written = fullText.split(/\s+/).map(normalizeWord).filter(Boolean);
+  const writtenOriginal = fullText.split(/\s+/).filter(token => normalizeWord(token));
+  const rows = timed.length + 1;
+  const columns = written.length + 1;
+
+  // cost[i][j]: edits to turn timed[i..] into written[j..]
+  const cost = new Uint32Array(rows * columns);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      const index = i * columns + j;
+      if (i === rows - 1) cost[index] = columns - 1 - j;
+      else if (j === columns - 1) cost[index] = rows - 1 - i;
+      else if (timed[i] === written[j]) cost[index] = cost[(i + 1) * columns + j + 1];
+      else cost[index] = 1 + Math.min(cost[(i + 1) * columns + j], cost[i * columns + j + 1], cost[(i + 1) * columns + j + 1]);
+    }
+  }
+
+  const diagnostics: TranscriptDiagnostic[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < timed.length || j < written.length) {
+    const here = cost[i * columns + j];
+    if (i < timed.length && j < written.length && timed[i] === written[j]) {
+      i++;
+      j++;
+    } else if (i < timed.length && j < written.length && here === 1 + cost[(i + 1) * columns + j + 1]) {
+      diagnostics.push({
+        kind: 'text-mismatch',
+        severity: 'warning',
+        message: `"${words[i].word}"${at(words[i])} reads "${writtenOriginal[j]}" in the full text`,
+        line: words[i].line ?? null,
+        wordIndex: i,
+      });
+      i++;
+      j++;
+    } else if (i < timed.length && (j === written.length || here === 1 + cost[(i + 1) * columns + j])) {
+      diagnostics.push({
+        kind: 'text-mismatch',
+        severity: 'warning',
+        message: `"${words[i].word}"${at(words[i])} isn't in the full text`,
+        line: words[i].line ?? null,
+        wordIndex: i,
+      });
+      i++;
+    } else {
+      diagnostics.push({
+        kind: 'text-mismatch',
+        severity: 'warning',
+        message: `"${writtenOriginal[j]}" from the full text has no timestamp`,
+        line: null,
+        wordIndex: null,
+      });
+      j++;
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Check parsed words for timing problems and disagreements with the sample text
+ */
+export function validateTranscript(words: TimeStamp[], options: TranscriptValidationOptions = {}): TranscriptDiagnostic[] {
+  const diagnostics = checkTiming(words, options);
+  if (options.fullText && words.length > 0) {
+    diagnostics.push(...checkAgainstText(words, options.fullText));
+  }
+  return diagnostics;
+}
@@ -0,0 +1,324 @@
+import { fetchTranscriptText, parseTieredCSVText, TimeStamp } from './parseTimestamps';
+import type { TranscriptDiagnostic } from './transcriptValidation';
+
+// Word (and phone) timings from the transcript and alignment formats our tools produce
+
+export type TranscriptFormat = 'csv' | 'srt' | 'vtt' | 'textgrid' | 'json';
+
+export interface Transcript {
+  words: TimeStamp[];
+  phones: TimeStamp[]; // empty unless the file has a phone tier
+  diagnostics: TranscriptDiagnostic[]; // problems met while loading; see validateTranscript for timing checks
+}
+
+const emptyTranscript = (diagnostics: TranscriptDiagnostic[] = []): Transcript => ({ words: [], phones: [], diagnostics });
+
+const loadError = (message: string): TranscriptDiagnostic => ({
+  kind: 'load-error',
+  severity: 'error',
+  message,
+  line: null,
+  wordIndex: null,
+});
+
+const EXTENSION_FORMATS: Record<string, TranscriptFormat> = {
+  csv: 'csv',
+  srt: 'srt',
+  vtt: 'vtt',
+  webvtt: 'vtt',
+  textgrid: 'textgrid',
+  json: 'json',
+};
+
+// Aligner labels for silence and pauses, which aren't words
+const SILENCE_LABELS = new Set(['', 'sil', 'sp', 'spn', '<eps>', '<sil>', '#']);
+
+/**
+ * Format from a file name's extension, falling back to sniffing the contents
+ */
+export function detectTranscriptFormat(fileName: string, text: string = ''): TranscriptFormat {
+  const extension = fileName.split(/[?#]/)[0].split('.').pop()?.toLowerCase() ?? '';
+  if (EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+
+  const head = text.trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (head.includes('ooTextFile')) return 'textgrid';
+  if (head.startsWith('{') || head.startsWith('[')) return 'json';
+  if (/^\d+\s*\r?\n\s*\d{1,2}:\d{2}:\d{2}[,.]\d{3}\s*-->/.test(head)) return 'srt';
+  return 'csv';
+}
+
+/**
+ * "00:01:02,500", "01:02.500" or "62.5" as seconds
+ */
+export function parseClockTime(value: string): number {
+  const parts = value.trim().replace(',', '.').split(':');
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+const stripTags = (text: string) => text.replace(/<[^>]*>/g, '').replace(/\{[^}]*\}/g, '');
+
+/**
+ * Spread a phrase over its cue, giving each word time in proportion to its length
+ */
+function splitCue(text: string, start: number, stop: number, line: number): TimeStamp[] {
+  const words = stripTags(text).split(/\s+/).filter(Boolean);
+  const totalLength = words.reduce((sum, word) => sum + word.length, 0);
+  let time = start;
+
+  return words.map(word => {
+    const length = totalLength > 0 ? ((stop - start) * word.length) / totalLength : 0;
+    const timestamp = { start: time, stop: time + length, word, line };
+    time += length;
+    return timestamp;
+  });
+}
+
+const CUE_TIMING = /(\d[\d:.,]*)\s*-->\s*(\d[\d:.,]*)/;
+// Inline word timings inside a WebVTT cue: "<00:00:01.200><c>word</c>"
+const VTT_INLINE_TIME = /<(\d[\d:.]*)>/g;
+
+/**
+ * SRT or WebVTT cues as words. Inline WebVTT word timings are used when present;
+ * otherwise each cue's words share out its duration.
+ */
+function parseCues(text: string, diagnostics: TranscriptDiagnostic[]): TimeStamp[] {
+  // Keep the blank-line separators so each block's first line number is known
+  const parts = text.replace(/\r\n?/g, '\n').split(/(\n\s*\n)/);
+  const words: TimeStamp[] = [];
+  let firstLine = 1;
+
+  parts.forEach((block, partIndex) => {
+    const blockLine = firstLine;
+    firstLine += block.split('\n').length - 1;
+    if (partIndex % 2 === 1) return; // separator
+
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex < 0) return; // header, NOTE, STYLE or a stray block
+
+    const line = blockLine + timingIndex;
+    const [, startText, stopText] = lines[timingIndex].match(CUE_TIMING)!;
+    const start = parseClockTime(startText);
+    const stop = parseClockTime(stopText);
+    if (isNaN(start) || isNaN(stop)) {
+      console.warn(`Invalid cue timing: ${lines[timingIndex]}`);
+      diagnostics.push({
+        kind: 'invalid-row',
+        severity: 'error',
+        message: `Cue at line ${line} was skipped: can't read the timing "${lines[timingIndex].trim()}"`,
+        line,
+        wordIndex: null,
+      });
+      return;
+    }
+
+    const payload = lines.slice(timingIndex + 1).join(' ');
+    const marks = [...payload.matchAll(VTT_INLINE_TIME)];
+    if (marks.length === 0) {
+      words.push(...splitCue(payload, start, stop, line));
+      return;
+    }
+
+    // Each inline mark starts the text after it; the text before the first mark starts the cue
+    const pieces: Array<{ start: number; text: string }> = [];
+    let cursor = 0;
+    let pieceStart = start;
+    marks.forEach(mark => {
+      pieces.push({ start: pieceStart, text: payload.slice(cursor, mark.index) });
+      pieceStart = parseClockTime(mark[1]);
+      cursor = (mark.index ?? 0) + mark[0].length;
+    });
+    pieces.push({ start: pieceStart, text: payload.slice(cursor) });
+
+    pieces.forEach((piece, i) => {
+      const pieceStop = i + 1 < pieces.length ? pieces[i + 1].start : stop;
+      words.push(...splitCue(piece.text, piece.start, pieceStop, line));
+    });
+  });
+
+  return words;
+}
+
+interface TextGridTier {
+  name: string;
+  intervals: TimeStamp[];
+}
+
+interface TextGridToken {
+  value: string; // strings keep their opening quote so they can't be mistaken for numbers
+  line: number;
+}
+
+/**
+ * Quoted strings, numbers and <exists> flags from a TextGrid; labels and indices are skipped,
+ * which lets one reader handle both the long and the short text formats
+ */
+function textGridTokens(text: string): TextGridToken[] {
+  const tokens: TextGridToken[] = [];
+  let i = 0;
+  let line = 1;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"') {
+      const startLine = line;
+      let value = '';
+      i++;
+      while (i < text.length) {
+        if (text[i] === '"' && text[i + 1] === '"') {
+          value += '"';
+          i += 2;
+        } else if (text[i] === '"') {
+          i++;
+          break;
+        } else {
+          if (text[i] === '\n') line++;
+          value += text[i++];
+        }
+      }
+      tokens.push({ value: `"${value}`, line: startLine });
+    } else if (/\s/.test(char)) {
+      if (char === '\n') line++;
+      i++;
+    } else if (char === '!') {
+      // Comment to end of line
+      while (i < text.length && text[i] !== '\n') i++;
+    } else {
+      let word = '';
+      while (i < text.length && !/\s/.test(text[i]) && text[i] !== '"') word += text[i++];
+      if (/^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(word) || word === '<exists>' || word === '<absent>') {
+        tokens.push({ value: word, line });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Interval tiers of a Praat TextGrid (point tiers are skipped)
+ */
+function parseTextGridTiers(text: string): TextGridTier[] {
+  const tokens = textGridTokens(text);
+  let position = 0;
+  const next = () => tokens[position++]?.value;
+  const nextString = () => (next() ?? '"').slice(1);
+  const nextNumber = () => parseFloat(next());
+
+  // Header: "ooTextFile" "TextGrid" xmin xmax <exists> size
+  nextString();
+  nextString();
+  nextNumber();
+  nextNumber();
+  if (next() !== '<exists>') return [];
+  const tierCount = nextNumber();
+
+  const tiers: TextGridTier[] = [];
+  for (let t = 0; t < tierCount && position < tokens.length; t++) {
+    const tierClass = nextString();
+    const name = nextString();
+    nextNumber();
+    nextNumber();
+    const count = nextNumber();
+
+    if (tierClass === 'IntervalTier') {
+      const intervals: TimeStamp[] = [];
+      for (let i = 0; i < count; i++) {
+        const line = tokens[position]?.line;
+        const start = nextNumber();
+        const stop = nextNumber();
+        const label = nextString().trim();
+        if (!SILENCE_LABELS.has(label.toLowerCase())) intervals.push({ start, stop, word: label, line });
+      }
+      tiers.push({ name, intervals });
+    } else {
+      // TextTier: time and mark per point
+      position += count * 2;
+    }
+  }
+
+  return tiers;
+}
+
+/**
+ * Word and phone tiers of a TextGrid, picked by name ("words", "phones") or else by order
+ */
+function parseTextGrid(text: string): Transcript {
+  const tiers = parseTextGridTiers(text);
+  const wordTier = tiers.find(tier => /word/i.test(tier.name)) ?? tiers[0];
+  const phoneTier = tiers.find(tier => /phon|segment/i.test(tier.name))
+    ?? tiers.find(tier => tier !== wordTier);
+
+  return { words: wordTier?.intervals ?? [], phones: phoneTier?.intervals ?? [], diagnostics: [] };
+}
+
+// Field names used by the JSON aligners we've seen (Gentle, WhisperX, MFA exports, our own)
+type JsonTiming = { word?: string; text?: string; label?: string; phone?: string; start?: number; end?: number; stop?: number };
+
+function jsonTimings(entries: unknown): TimeStamp[] {
+  if (!Array.isArray(entries)) return [];
+  return entries.flatMap((entry: JsonTiming) => {
+    const word = String(entry.word ?? entry.text ?? entry.label ?? entry.phone ?? '').trim();
+    const start = Number(entry.start);
+    const stop = Number(entry.end ?? entry.stop);
+    // Gentle leaves words it couldn't align without times
+    if (!word || !Number.isFinite(start) || !Number.isFinite(stop)) return [];
+    return [{ start, stop, word }];
+  });
+}
+
+/**
+ * JSON word alignments: a bare array of {word, start, end}, an object with `words` (and
+ * optionally `phones`), or WhisperX-style `segments[].words`
+ */
+function parseJsonAlignment(text: string): Transcript {
+  const data = JSON.parse(text);
+  if (Array.isArray(data)) return { words: jsonTimings(data), phones: [], diagnostics: [] };
+
+  const words = Array.isArray(data.words)
+    ? jsonTimings(data.words)
+    : Array.isArray(data.segments)
+      ? data.segments.flatMap((segment: { words?: unknown }) => jsonTimings(segment.words))
+      : [];
+
+  return { words, phones: jsonTimings(data.phones), diagnostics: [] };
+}
+
+/**
+ * Parse transcript text in the given format
+ */
+export function parseTranscript(text: string, format: TranscriptFormat): Transcript {
+  const diagnostics: TranscriptDiagnostic[] = [];
+  switch (format) {
+    case 'srt':
+    case 'vtt':
+      return { words: parseCues(text, diagnostics), phones: [], diagnostics };
+    case 'textgrid':
+      return parseTextGrid(text);
+    case 'json':
+      return parseJsonAlignment(text);
+    case 'csv':
+    default:
+      return { ...parseTieredCSVText(text, diagnostics), diagnostics };
+  }
+}
+
+/**
+ * Fetch and parse a sample's transcript; the format comes from the profile or the file itself
+ */
+export async function loadTranscript(filePath: string, format?: TranscriptFormat): Promise<Transcript> {
+  if (!filePath) {
+    return emptyTranscript();
+  }
+
+  try {
+    const text = await fetchTranscriptText(filePath);
+    if (text === null) return emptyTranscript([loadError(`Couldn't load the transcript ${filePath}`)]);
+    return parseTranscript(text, format ?? detectTranscriptFormat(filePath, text));
+  } catch (error) {
+    console.error(`Error parsing transcript ${filePath}:`, error);
+    const reason = error instanceof Error ? error.message : String(error);
+    return emptyTranscript([loadError(`Couldn't read the transcript ${filePath}: ${reason}`)]);
+  }
+}
@@ -0,0 +1,180 @@
+import { levelToDb, measureLevel } from './loudness';
+
+// Energy / zero-crossing voice activity detection, used to trim silence from takes
+
+export interface VadOptions {
+  frameSeconds?: number;
+  marginDb?: number;        // how far above the noise floor a frame must be to count as speech
+  paddingSeconds?: number;  // kept either side of the speech so onsets and releases aren't clipped
+  minSpeechSeconds?: number; // shorter bursts (button clicks, bumps) are ignored
+}
+
+// Where a take was cut, so the untrimmed recording can be lined back up with it
+export interface SilenceTrim {
+  start: number;            // seconds removed from the front
+  end: number;              // end of the kept audio, in the original's time
+  originalDuration: number;
+}
+
+const DEFAULT_FRAME_SECONDS = 0.02;
+const DEFAULT_MARGIN_DB = 12;
+const DEFAULT_PADDING_SECONDS = 0.1;
+const DEFAULT_MIN_SPEECH_SECONDS = 0.08;
+
+// Fricatives ("s", "f") are quiet but noisy: a high crossing rate lets them through at half the margin
+const FRICATIVE_ZCR = 0.25;
+// Noise floor is taken from the quieter frames, and never assumed below digital near-silence
+const NOISE_PERCENTILE = 0.1;
+const MIN_NOISE_FLOOR_DB = -70;
+
+/**
+ * Fraction of adjacent sample pairs that change sign
+ */
+export function zeroCrossingRate(samples: Float32Array): number {
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if ((samples[i - 1] >= 0) !== (samples[i] >= 0)) crossings++;
+  }
+  return crossings / Math.max(1, samples.length - 1);
+}
+
+const isSpeechFrame = (energyDb: number, zcr: number, noiseFloorDb: number, marginDb: number) =>
+  energyDb > noiseFloorDb + marginDb || (zcr > FRICATIVE_ZCR && energyDb > noiseFloorDb + marginDb / 2);
+
+/**
+ * Speech/silence decision for each frame of a clip
+ */
+export function detectSpeechFrames(samples: Float32Array, sampleRate: number, options: VadOptions = {}): boolean[] {
+  const frameSize = Math.max(1, Math.round((options.frameSeconds ?? DEFAULT_FRAME_SECONDS) * sampleRate));
+  const marginDb = options.marginDb ?? DEFAULT_MARGIN_DB;
+  const energies: number[] = [];
+  const rates: number[] = [];
+
+  for (let start = 0; start < samples.length; start += frameSize) {
+    const frame = samples.subarray(start, Math.min(samples.length, start + frameSize));
+    energies.push(levelToDb(measureLevel(frame).rms));
+    rates.push(zeroCrossingRate(frame));
+  }
+  if (energies.length === 0) return [];
+
+  const sorted = [...energies].sort((a, b) => a - b);
+  const noiseFloorDb = Math.max(MIN_NOISE_FLOOR_DB, sorted[Math.floor(NOISE_PERCENTILE * (sorted.length - 1))]);
+
+  return energies.map((energyDb, i) => isSpeechFrame(energyDb, rates[i], noiseFloorDb, marginDb));
+}
+
+/**
+ * Start and end of the speech in a clip (padded), or null if nothing sounds like speech
+ */
+export function detectSpeechBounds(
+  samples: Float32Array,
+  sampleRate: number,
+  options: VadOptions = {},
+): { start: number; end: number } | null {
+  const frameSeconds = options.frameSeconds ?? DEFAULT_FRAME_SECONDS;
+  const minFrames = Math.max(1, Math.round((options.minSpeechSeconds ?? DEFAULT_MIN_SPEECH_SECONDS) / frameSeconds));
+  const padding = options.paddingSeconds ?? DEFAULT_PADDING_SECONDS;
+  const speech = detectSpeechFrames(samples, sampleRate, options);
+
+  // First and last runs of speech long enough not to be a click
+  let first = -1;
+  let last = -1;
+  let runStart = 0;
+  for (let i = 0; i <= speech.length; i++) {
+    if (i < speech.length && speech[i]) continue;
+    if (i - runStart >= minFrames) {
+      if (first < 0) first = runStart;
+      last = i;
+    }
+    runStart = i + 1;
+  }
+  if (first < 0) return null;
+
+  const duration = samples.length / sampleRate;
+  return {
+    start: Math.max(0, first * frameSeconds - padding),
+    end: Math.min(duration, last * frameSeconds + padding),
+  };
+}
+
+/**
+ * Cut leading and trailing silence; returns the kept samples and where they came from.
+ * Clips with no detectable speech are returned whole.
+ */
+export function trimSilence(
+  samples: Float32Array,
+  sampleRate: number,
+  options: VadOptions = {},
+): { samples: Float32Array; trim: SilenceTrim } {
+  const originalDuration = samples.length / sampleRate;
+  const bounds = detectSpeechBounds(samples, sampleRate, options) ?? { start: 0, end: originalDuration };
+  const from = Math.round(bounds.start * sampleRate);
+  const to = Math.max(from, Math.round(bounds.end * sampleRate));
+
+  return {
+    samples: samples.slice(from, to),
+    trim: { start: from / sampleRate, end: to / sampleRate, originalDuration },
+  };
+}
+
+export interface SilenceDetector {
+  // Feed the next block of live samples; true once the speaker has gone quiet for long enough
+  push: (samples: Float32Array) => boolean;
+}
+
+// Live detection has no whole clip to take a noise floor from, so it learns one from the start
+const CALIBRATION_SECONDS = 0.3;
+
+/**
+ * Streaming detector for auto-stop: fires after `silenceMs` of silence, but only once speech has begun
+ */
+export function createSilenceDetector(sampleRate: number, silenceMs: number, options: VadOptions = {}): SilenceDetector {
+  const frameSize = Math.max(1, Math.round((options.frameSeconds ?? DEFAULT_FRAME_SECONDS) * sampleRate));
+  const marginDb = options.marginDb ?? DEFAULT_MARGIN_DB;
+  const minSpeechFrames = Math.max(1, Math.round((options.minSpeechSeconds ?? DEFAULT_MIN_SPEECH_SECONDS) * sampleRate / frameSize));
+  const silenceFrames = Math.max(1, Math.round((silenceMs / 1000) * sampleRate / frameSize));
+  const calibrationFrames = Math.max(1, Math.round(CALIBRATION_SECONDS * sampleRate / frameSize));
+
+  const frame = new Float32Array(frameSize);
+  let filled = 0;
+  let framesSeen = 0;
+  let noiseFloorDb = Infinity;
+  let speechRun = 0;
+  let silenceRun = 0;
+  let speechStarted = false;
+  let fired = false;
+
+  const processFrame = (): void => {
+    const energyDb = levelToDb(measureLevel(frame).rms);
+    framesSeen++;
+
+    // Quietest frame so far during calibration, then only ever lowered
+    if (framesSeen <= calibrationFrames || energyDb < noiseFloorDb) {
+      noiseFloorDb = Math.min(noiseFloorDb, Math.max(MIN_NOISE_FLOOR_DB, energyDb));
+      if (framesSeen <= calibrationFrames) return;
+    }
+
+    if (isSpeechFrame(energyDb, zeroCrossingRate(frame), noiseFloorDb, marginDb)) {
+      speechRun++;
+      silenceRun = 0;
+      if (speechRun >= minSpeechFrames) speechStarted = true;
+    } else {
+      speechRun = 0;
+      silenceRun++;
+      if (speechStarted && silenceRun >= silenceFrames) fired = true;
+    }
+  };
+
+  return {
+    push: (samples: Float32Array) => {
+      for (let i = 0; i < samples.length && !fired; i++) {
+        frame[filled++] = samples[i];
+        if (filled === frameSize) {
+          processFrame();
+          filled = 0;
+        }
+      }
+      return fired;
+    },
+  };
+}
@@ -0,0 +1,126 @@
+// 16-bit PCM WAV encoding with an optional LIST/INFO metadata chunk
+
+export interface WavMetadata {
+  title?: string;    // INAM
+  artist?: string;   // IART
+  comment?: string;  // ICMT
+  date?: string;     // ICRD
+  software?: string; // ISFT
+}
+
+const INFO_TAGS: Record<keyof WavMetadata, string> = {
+  title: 'INAM',
+  artist: 'IART',
+  comment: 'ICMT',
+  date: 'ICRD',
+  software: 'ISFT',
+};
+
+const BITS_PER_SAMPLE = 16;
+
+function writeAscii(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i) & 0x7f);
+  }
+}
+
+// Build the LIST/INFO chunk body; each value is NUL-terminated and padded to an even length
+function buildInfoChunk(metadata: WavMetadata): Uint8Array | null {
+  const entries = (Object.keys(INFO_TAGS) as (keyof WavMetadata)[])
+    .filter(key => metadata[key])
+    .map(key => {
+      const value = metadata[key]!.replace(/[^\x20-\x7e]/g, '?');
+      const size = value.length + 1;
+      return { tag: INFO_TAGS[key], value, size, padded: size + (size % 2) };
+    });
+  if (entries.length === 0) return null;
+
+  const length = 4 + entries.reduce((sum, entry) => sum + 8 + entry.padded, 0);
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+
+  writeAscii(view, 0, 'INFO');
+  let offset = 4;
+  entries.forEach(entry => {
+    writeAscii(view, offset, entry.tag);
+    view.setUint32(offset + 4, entry.size, true);
+    writeAscii(view, offset + 8, entry.value);
+    offset += 8 + entry.padded;
+  });
+
+  return bytes;
+}
+
+/**
+ * Encode mono float samples as a 16-bit PCM WAV file
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number, metadata: WavMetadata = {}): Blob {
+  const bytesPerSample = BITS_PER_SAMPLE / 8;
+  const dataSize = samples.length * bytesPerSample;
+  const info = buildInfoChunk(metadata);
+  const listSize = info ? 8 + info.length : 0;
+
+  const buffer = new ArrayBuffer(12 + 24 + listSize + 8 + dataSize);
+  const view = new DataView(buffer);
+
+  // RIFF header
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, buffer.byteLength - 8, true);
+  writeAscii(view, 8, 'WAVE');
+
+  // fmt chunk: PCM, mono
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true);
+  view.setUint16(32, bytesPerSample, true);
+  view.setUint16(34, BITS_PER_SAMPLE, true);
+
+  let offset = 36;
+
+  // LIST/INFO chunk
+  if (info) {
+    writeAscii(view, offset, 'LIST');
+    view.setUint32(offset + 4, info.length, true);
+    new Uint8Array(buffer, offset + 8, info.length).set(info);
+    offset += listSize;
+  }
+
+  // data chunk
+  writeAscii(view, offset, 'data');
+  view.setUint32(offset + 4, dataSize, true);
+  offset += 8;
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(offset, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+    offset += bytesPerSample;
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+/**
+ * Join captured PCM chunks into one buffer
+ */
+export function concatenateChunks(chunks: Float32Array[]): Float32Array {
+  const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Float32Array(length);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+}
+
+/**
+ * File extension matching a recording's MIME type
+ */
+export function extensionForMimeType(mimeType: string): string {
+  if (mimeType.includes('wav')) return 'wav';
+  if (mimeType.includes('mp4') || mimeType.includes('aac') || mimeType.includes('m4a')) return 'm4a';
+  if (mimeType.includes('ogg')) return 'ogg';
+  return 'webm';
+}
@@ -0,0 +1,267 @@
+// Live analyser display (oscilloscope, spectrum bars, rolling history, Lissajous), drawn on a
+// canvas or on an OffscreenCanvas in the waveform worker
+
+export type WaveformMode = 'oscilloscope' | 'spectrum' | 'history' | 'lissajous';
+
+export interface WaveformStyle {
+  mode: WaveformMode;
+  color: string;
+  backgroundColor: string;
+}
+
+// One analyser reading
+export interface WaveformFrame {
+  timeDomain: Uint8Array;        // getByteTimeDomainData, 128 = silence
+  frequency: Uint8Array | null;  // getByteFrequencyData, only read in spectrum mode
+  secondary: Uint8Array | null;  // second channel's time domain for the Lissajous Y axis, if there is one
+  sampleRate: number;
+  time: number;                  // performance.now() when it was read
+}
+
+// Messages to the waveform worker
+export type WaveformMessage =
+  | { type: 'init'; canvas: OffscreenCanvas; style: WaveformStyle }
+  | { type: 'resize'; width: number; height: number; pixelRatio: number }
+  | { type: 'style'; style: WaveformStyle }
+  | { type: 'frame'; frame: WaveformFrame }
+  | { type: 'clear' };
+
+export interface WaveformRenderer {
+  resize: (width: number, height: number, pixelRatio: number) => void;
+  setStyle: (style: WaveformStyle) => void;
+  draw: (frame: WaveformFrame) => void;
+  clear: () => void;
+}
+
+// Spectrum bars: log-spaced bands over the range speech and music live in
+const SPECTRUM_BANDS = 64;
+const SPECTRUM_MIN_HZ = 40;
+const SPECTRUM_MAX_HZ = 16000;
+const BAR_GAP = 1;
+// Peak caps hold, then fall at a fixed rate (full scale per second)
+const PEAK_HOLD_MS = 800;
+const PEAK_FALL_PER_MS = 1 / 1000;
+
+// Seconds of audio kept on screen in history mode, and the frame rate columns are sized for
+const HISTORY_SECONDS = 5;
+const HISTORY_FRAMES_PER_SECOND = 30;
+
+// Without a second channel, Lissajous mode plots the signal against itself this much later:
+// about a quarter period of a voice's fundamental, so voiced sound traces open loops
+const LISSAJOUS_DELAY_SECONDS = 0.001;
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Renderer bound to one canvas; keeps the peak-hold and history state between frames
+ */
+export function createWaveformRenderer(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  initialStyle: WaveformStyle,
+): WaveformRenderer {
+  const ctx = canvas.getContext('2d') as Context2D | null;
+  let style = initialStyle;
+  let width = canvas.width;
+  let height = canvas.height;
+
+  const peaks = new Float32Array(SPECTRUM_BANDS);
+  const peakTimes = new Float64Array(SPECTRUM_BANDS);
+  let history: Array<{ time: number; min: number; max: number }> = [];
+
+  const fillBackground = (context: Context2D) => {
+    context.fillStyle = style.backgroundColor;
+    context.fillRect(0, 0, width, height);
+  };
+
+  const drawOscilloscope = (context: Context2D, data: Uint8Array) => {
+    const halfHeight = height / 2;
+    const sliceWidth = width / data.length;
+    // Draw only every other point for better performance on wide canvases
+    const step = width > 1000 ? 2 : 1;
+
+    const trace = () => {
+      context.beginPath();
+      let x = 0;
+      for (let i = 0; i < data.length; i += step) {
+        const y = (data[i] / 128.0) * halfHeight;
+        if (i === 0) context.moveTo(x, y);
+        else context.lineTo(x, y);
+        x += sliceWidth * step;
+      }
+      context.lineTo(width, halfHeight);
+      context.stroke();
+    };
+
+    // A wider, semi-transparent line first for the glow, then the main line
+    context.lineWidth = 4;
+    context.strokeStyle = `${style.color}80`;
+    trace();
+    context.lineWidth = 2.5;
+    context.strokeStyle = style.color;
+    trace();
+  };
+
+  const drawSpectrum = (context: Context2D, data: Uint8Array, sampleRate: number, time: number) => {
+    const binHz = sampleRate / 2 / data.length;
+    const maxHz = Math.min(SPECTRUM_MAX_HZ, sampleRate / 2);
+    const ratio = Math.log(maxHz / SPECTRUM_MIN_HZ);
+    const barWidth = width / SPECTRUM_BANDS;
+
+    for (let band = 0; band < SPECTRUM_BANDS; band++) {
+      const lowHz = SPECTRUM_MIN_HZ * Math.exp((band / SPECTRUM_BANDS) * ratio);
+      const highHz = SPECTRUM_MIN_HZ * Math.exp(((band + 1) / SPECTRUM_BANDS) * ratio);
+      const lowBin = Math.floor(lowHz / binHz);
+      const highBin = Math.max(lowBin + 1, Math.ceil(highHz / binHz));
+
+      // Loudest bin in the band, so narrow low bands don't all read the same bin average
+      let level = 0;
+      for (let k = lowBin; k < highBin && k < data.length; k++) {
+        if (data[k] > level) level = data[k];
+      }
+      const value = level / 255;
+
+      // Hold the peak, then let it fall
+      const held = peaks[band] - Math.max(0, time - peakTimes[band] - PEAK_HOLD_MS) * PEAK_FALL_PER_MS;
+      if (value >= held) {
+        peaks[band] = value;
+        peakTimes[band] = time;
+      }
+      const peak = Math.max(value, held);
+
+      const x = band * barWidth;
+      const barHeight = value * height;
+      context.fillStyle = style.color;
+      context.fillRect(x + BAR_GAP / 2, height - barHeight, Math.max(1, barWidth - BAR_GAP), barHeight);
+      context.fillStyle = '#ffffff';
+      context.fillRect(x + BAR_GAP / 2, height - peak * height - 2, Math.max(1, barWidth - BAR_GAP), 2);
+    }
+  };
+
+  const drawHistory = (context: Context2D, data: Uint8Array, time: number) => {
+    let min = 1;
+    let max = -1;
+    for (let i = 0; i < data.length; i++) {
+      const value = (data[i] - 128) / 128;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    history.push({ time, min, max });
+    const oldest = time - HISTORY_SECONDS * 1000;
+    while (history.length > 0 && history[0].time < oldest) history.shift();
+
+    // Newest at the right edge, scrolling left
+    const halfHeight = height / 2;
+    const columnWidth = Math.max(1, width / (HISTORY_SECONDS * HISTORY_FRAMES_PER_SECOND));
+    context.fillStyle = style.color;
+    history.forEach(entry => {
+      const x = width - ((time - entry.time) / (HISTORY_SECONDS * 1000)) * width;
+      const top = halfHeight - entry.max * halfHeight;
+      const bottom = halfHeight - entry.min * halfHeight;
+      context.fillRect(x - columnWidth, top, columnWidth, Math.max(1, bottom - top));
+    });
+
+    context.strokeStyle = `${style.color}40`;
+    context.lineWidth = 1;
+    context.beginPath();
+    context.moveTo(0, halfHeight);
+    context.lineTo(width, halfHeight);
+    context.stroke();
+  };
+
+  // X/Y plot of two channels, or of the signal against a delayed copy of itself
+  const drawLissajous = (context: Context2D, data: Uint8Array, secondary: Uint8Array | null, sampleRate: number) => {
+    const lag = secondary ? 0 : Math.max(1, Math.round(LISSAJOUS_DELAY_SECONDS * sampleRate));
+    const yData = secondary ?? data;
+    const count = Math.min(data.length, yData.length) - lag;
+    if (count < 2) return;
+
+    // Square plot area centred in the canvas, so a circle stays a circle
+    const radius = Math.min(width, height) / 2 - 2;
+    const centerX = width / 2;
+    const centerY = height / 2;
+
+    context.strokeStyle = `${style.color}40`;
+    context.lineWidth = 1;
+    context.beginPath();
+    context.moveTo(centerX - radius, centerY);
+    context.lineTo(centerX + radius, centerY);
+    context.moveTo(centerX, centerY - radius);
+    context.lineTo(centerX, centerY + radius);
+    context.stroke();
+
+    const trace = () => {
+      context.beginPath();
+      for (let i = 0; i < count; i++) {
+        const x = centerX + ((data[i] - 128) / 128) * radius;
+        const y = centerY - ((yData[i + lag] - 128) / 128) * radius;
+        if (i === 0) context.moveTo(x, y);
+        else context.lineTo(x, y);
+      }
+      context.stroke();
+    };
+
+    // Same glow as the oscilloscope, thinner since the trace crosses itself
+    context.lineWidth = 3;
+    context.strokeStyle = `${style.color}60`;
+    trace();
+    context.lineWidth = 1.5;
+    context.strokeStyle = style.color;
+    trace();
+  };
+
+  return {
+    resize: (nextWidth, nextHeight, pixelRatio) => {
+      width = nextWidth;
+      height = nextHeight;
+      canvas.width = Math.max(1, Math.round(nextWidth * pixelRatio));
+      canvas.height = Math.max(1, Math.round(nextHeight * pixelRatio));
+      ctx?.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+      if (ctx) fillBackground(ctx);
+    },
+    setStyle: (nextStyle) => {
+      if (nextStyle.mode !== style.mode) {
+        peaks.fill(0);
+        history = [];
+      }
+      style = nextStyle;
+    },
+    draw: (frame) => {
+      if (!ctx) return;
+      fillBackground(ctx);
+      if (style.mode === 'spectrum' && frame.frequency) {
+        drawSpectrum(ctx, frame.frequency, frame.sampleRate, frame.time);
+      } else if (style.mode === 'history') {
+        drawHistory(ctx, frame.timeDomain, frame.time);
+      } else if (style.mode === 'lissajous') {
+        drawLissajous(ctx, frame.timeDomain, frame.secondary, frame.sampleRate);
+      } else {
+        drawOscilloscope(ctx, frame.timeDomain);
+      }
+    },
+    clear: () => {
+      peaks.fill(0);
+      history = [];
+      if (ctx) fillBackground(ctx);
+    },
+  };
+}
+
+/**
+ * Apply a message to a renderer; shared by the worker and the main-thread fallback
+ */
+export function applyWaveformMessage(renderer: WaveformRenderer, message: Exclude<WaveformMessage, { type: 'init' }>): void {
+  switch (message.type) {
+    case 'resize':
+      renderer.resize(message.width, message.height, message.pixelRatio);
+      break;
+    case 'style':
+      renderer.setStyle(message.style);
+      break;
+    case 'frame':
+      renderer.draw(message.frame);
+      break;
+    case 'clear':
+      renderer.clear();
+      break;
+  }
+}
@@ -0,0 +1,129 @@
+import { MonoSignal, HOP_SECONDS, loudnessEnvelope } from './audioFeatures';
+import { trackPitch, PitchPoint } from './pitch';
+import { WordAlignment } from './alignment';
+import { TimeStamp } from './parseTimestamps';
+import { normalizeWord } from './wordTiming';
+import { median } from './stats';
+
+export type WordGrade = 'good' | 'fair' | 'poor';
+
+export interface WordFeedback {
+  word: TimeStamp;
+  durationError: number; // percent longer (+) or shorter (-) than the target
+  pitchError: number | null; // semitones higher (+) or lower (-) than the target, relative to each voice's median
+  energyError: number;   // dB louder (+) or quieter (-) than the target, relative to each take's peak
+  grade: WordGrade;
+  isTipWord: boolean;    // the word is called out in the sample's tips
+}
+
+// Error levels at which a word drops from good to fair, and from fair to poor
+const THRESHOLDS = {
+  duration: { fair: 25, poor: 50 }, // percent
+  pitch: { fair: 2, poor: 4 },      // semitones
+  energy: { fair: 4, poor: 8 },     // dB
+};
+
+/**
+ * Words quoted in the sample tips, e.g. "Notice the emphasis on 'will'"
+ */
+export function extractTipWords(tips: string[]): Set<string> {
+  const words = new Set<string>();
+  tips.forEach(tip => {
+    // Opening quotes must not follow a letter, so contractions like "he's" are skipped
+    for (const match of tip.matchAll(/(?:^|[^\p{L}])['"‘“]([^'"’”]+)['"’”]/gu)) {
+      match[1].split(/\s+/).forEach(word => {
+        const normalized = normalizeWord(word);
+        if (normalized) words.add(normalized);
+      });
+    }
+  });
+  return words;
+}
+
+// Per-frame view of a signal: pitch in semitones relative to the median, loudness relative to the peak
+function describe(signal: MonoSignal, track: PitchPoint[]) {
+  const pitch = track.map(point => point.frequency);
+  const voiced = pitch.filter((hz): hz is number => hz !== null);
+  const medianHz = median(voiced);
+  const semitones = pitch.map(hz => (hz === null || medianHz === null ? null : 12 * Math.log2(hz / medianHz)));
+
+  const envelope = loudnessEnvelope(signal);
+  const peak = envelope.reduce((max, value) => Math.max(max, value), -Infinity);
+
+  return { semitones, envelope, peak };
+}
+
+function rangeStats(description: ReturnType<typeof describe>, start: number, stop: number) {
+  const first = Math.max(0, Math.floor(start / HOP_SECONDS));
+  const last = Math.min(description.envelope.length - 1, Math.ceil(stop / HOP_SECONDS));
+
+  const pitches: number[] = [];
+  let energySum = 0;
+  let energyCount = 0;
+  for (let i = first; i <= last; i++) {
+    const semitone = description.semitones[i];
+    if (semitone !== null && semitone !== undefined) pitches.push(semitone);
+    energySum += description.envelope[i] - description.peak;
+    energyCount++;
+  }
+
+  return {
+    pitch: median(pitches),
+    energy: energyCount > 0 ? energySum / energyCount : 0,
+  };
+}
+
+function gradeFor(value: number, thresholds: { fair: number; poor: number }): WordGrade {
+  const magnitude = Math.abs(value);
+  return magnitude >= thresholds.poor ? 'poor' : magnitude >= thresholds.fair ? 'fair' : 'good';
+}
+
+const GRADE_ORDER: WordGrade[] = ['good', 'fair', 'poor'];
+
+/**
+ * Compare each aligned word of a take with the same word in the target selection.
+ * Pitch tracks of both signals can be passed in when they're already known.
+ */
+export function computeWordFeedback(
+  target: MonoSignal,
+  take: MonoSignal,
+  wordAlignments: WordAlignment[],
+  selectionStart: number,
+  tips: string[] = [],
+  targetTrack: PitchPoint[] = trackPitch(target),
+  takeTrack: PitchPoint[] = trackPitch(take),
+): WordFeedback[] {
+  const targetDescription = describe(target, targetTrack);
+  const takeDescription = describe(take, takeTrack);
+  const tipWords = extractTipWords(tips);
+
+  return wordAlignments.map(({ word, takeStart, takeStop }) => {
+    const targetDuration = Math.max(HOP_SECONDS, word.stop - word.start);
+    const durationError = ((takeStop - takeStart) / targetDuration - 1) * 100;
+
+    const targetStats = rangeStats(targetDescription, word.start - selectionStart, word.stop - selectionStart);
+    const takeStats = rangeStats(takeDescription, takeStart, takeStop);
+
+    const pitchError = targetStats.pitch !== null && takeStats.pitch !== null
+      ? takeStats.pitch - targetStats.pitch
+      : null;
+    const energyError = takeStats.energy - targetStats.energy;
+
+    // A word is graded by its worst dimension
+    const grades: WordGrade[] = [
+      gradeFor(durationError, THRESHOLDS.duration),
+      gradeFor(energyError, THRESHOLDS.energy),
+      pitchError === null ? 'good' : gradeFor(pitchError, THRESHOLDS.pitch),
+    ];
+    const grade = GRADE_ORDER[Math.max(...grades.map(g => GRADE_ORDER.indexOf(g)))];
+
+    return {
+      word,
+      durationError,
+      pitchError,
+      energyError,
+      grade,
+      isTipWord: tipWords.has(normalizeWord(word.word)),
+    };
+  });
+}
@@ -0,0 +1,76 @@
+// Which word is being spoken at a given time, for karaoke-style highlighting
+
+export interface TimedWord {
+  word: string;
+  start: number;
+  stop: number;
+}
+
+/**
+ * Index of the word spoken at `time`, or -1 in a pause. Words must be in time order.
+ */
+export function findWordAt(words: TimedWord[], time: number): number {
+  let low = 0;
+  let high = words.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (time < words[mid].start) high = mid - 1;
+    else if (time > words[mid].stop) low = mid + 1;
+    else return mid;
+  }
+  return -1;
+}
+
+/**
+ * How far through a word `time` is: 0 before it starts, 1 once it has ended
+ */
+export function wordProgress(word: TimedWord, time: number): number {
+  const length = word.stop - word.start;
+  if (length <= 0) return time >= word.start ? 1 : 0;
+  return Math.max(0, Math.min(1, (time - word.start) / length));
+}
+
+/**
+ * Phones grouped under the word they fall in (by their midpoint), one list per word.
+ * Phones between words, such as breaths an aligner labelled, are left out.
+ */
+export function phonesByWord<T extends TimedWord>(words: TimedWord[], phones: T[]): T[][] {
+  const groups: T[][] = words.map(() => []);
+  phones.forEach(phone => {
+    const index = findWordAt(words, (phone.start + phone.stop) / 2);
+    if (index >= 0) groups[index].push(phone);
+  });
+  return groups;
+}
+
+// A piece of free text, tied to the timestamp it was matched to (if any)
+export interface TranscriptToken {
+  text: string;          // the word as written, with its punctuation
+  wordIndex: number | null;
+}
+
+// How many timestamps ahead a word may be matched, so a missing word doesn't derail the rest
+const MATCH_LOOKAHEAD = 3;
+
+// Comparison form of a word: lower case, letters (any script) and digits, and apostrophes inside
+// the word ("don't" stays, quote marks around 'will' go). Shared by everything that matches words.
+export const normalizeWord = (word: string) =>
+  word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '').replace(/^'+|'+$/g, '');
+
+/**
+ * Split free text into words and match them, in order, to the timestamped words
+ */
+export function matchTranscript(text: string, words: TimedWord[]): TranscriptToken[] {
+  let cursor = 0;
+
+  return text.split(/\s+/).filter(Boolean).map(token => {
+    const key = normalizeWord(token);
+    for (let i = cursor; key && i < Math.min(words.length, cursor + MATCH_LOOKAHEAD); i++) {
+      if (normalizeWord(words[i].word) === key) {
+        cursor = i + 1;
+        return { text: token, wordIndex: i };
+      }
+    }
+    return { text: token, wordIndex: null };
+  });
+}
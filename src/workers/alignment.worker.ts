@@ -0,0 +1,14 @@
+import { alignTranscript, AlignmentRequest, AlignmentResponse } from '../utils/forcedAlignment';
+
+// Aligns transcripts off the main thread; see useForcedAlignment
+
+self.onmessage = (event: MessageEvent<AlignmentRequest>) => {
+  const { id, samples, sampleRate, fullText } = event.data;
+  let response: AlignmentResponse;
+  try {
+    response = { id, result: alignTranscript({ samples, sampleRate }, fullText) };
+  } catch (err) {
+    response = { id, error: err instanceof Error ? err.message : 'Unknown error' };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,15 @@
+import { computeSpectrogram, SpectrogramRequest, SpectrogramResponse } from '../utils/spectrogram';
+
+// Computes spectrograms off the main thread; see useSpectrogram
+
+self.onmessage = (event: MessageEvent<SpectrogramRequest>) => {
+  const { id, samples, sampleRate, options } = event.data;
+  try {
+    const spectrogram = computeSpectrogram(samples, sampleRate, options);
+    const response: SpectrogramResponse = { id, spectrogram };
+    self.postMessage(response, { transfer: [spectrogram.data.buffer] });
+  } catch (err) {
+    const response: SpectrogramResponse = { id, error: err instanceof Error ? err.message : 'Unknown error' };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,14 @@
+import { applyWaveformMessage, createWaveformRenderer, WaveformMessage, WaveformRenderer } from '../utils/waveformRenderer';
+
+// Draws AudioWaveform's canvas off the main thread; the component posts analyser readings here
+
+let renderer: WaveformRenderer | null = null;
+
+self.onmessage = (event: MessageEvent<WaveformMessage>) => {
+  const message = event.data;
+  if (message.type === 'init') {
+    renderer = createWaveformRenderer(message.canvas, message.style);
+  } else if (renderer) {
+    applyWaveformMessage(renderer, message);
+  }
+};